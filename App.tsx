@@ -1,12 +1,60 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { StepIndicator } from './components/StepIndicator';
 import { FileUploader } from './components/FileUploader';
-import { Dataset, JoinConfig, MatchingAlgorithm, MatchResultRow, NormalizationConfig, Row } from './types';
-import { normalizeString, similarityPercentage, getPhoneticCode, exportToCSV, exportToJSON } from './utils';
-import { findSemanticMatches, isAIConfigured } from './geminiService';
-import { ArrowRight, CheckCircle2, RotateCcw, DatabaseZap, RefreshCw, GitMerge, FileOutput, Plus, Trash2, Download, TerminalSquare, Eye, ChevronDown, LayoutList, AlertCircle, Ban, ShieldCheck, Heart } from 'lucide-react';
+import { BlockingStrategy, CellValue, Dataset, DomainNormalizer, FellegiSunterParams, JoinCardinality, JoinConfig, JoinKeyPair, JoinProgress, JoinStats, JoinType, KeyComparator, KeyTolerance, MatchCandidate, MatchingAlgorithm, MatchMode, MatchResultRow, NormalizationFlag, PhoneticEncoder, ProbabilisticConfig, Row, SpatialPredicate, TieBreakRule } from './types';
+import { exportToCSV, exportToGeoJSON, exportToJSON, formatDuration } from './utils';
+import { exportToXLSX } from './resultsExport';
+import { isAIConfigured } from './geminiService';
+import { runJoinInWorker, estimateLinkageInWorker, JoinRun, WorkerTask } from './joinService';
+import { JOIN_TYPE_LABELS, MATCH_MODE_LABELS, joinOutputColumns, keyRules } from './joinEngine';
+import { LinkageParams } from './components/LinkageParams';
+import { NormalizationRules } from './components/NormalizationRules';
+import { MapSide, ResultsMap } from './components/ResultsMap';
+import { BLOCKING_LABELS, DEFAULT_BLOCKING } from './blocking';
+import { ALGORITHM_LABELS, STRING_METRICS, isStringMetric } from './similarity';
+import { PHONETIC_ENCODER_LABELS } from './phonetic';
+import { NORMALIZATION_FLAGS } from './normalizationRules';
+import { DOMAIN_LABELS } from './domainNormalizers';
+import { COMPARATOR_LABELS, DEFAULT_TOLERANCE, resolveComparator } from './typedComparators';
+import { SPATIAL_PREDICATE_LABELS } from './geometry';
+import { ArrowRight, CheckCircle2, RotateCcw, DatabaseZap, RefreshCw, GitMerge, FileOutput, Plus, Trash2, Download, TerminalSquare, Eye, ChevronDown, LayoutList, AlertCircle, Ban, ShieldCheck, Heart, SlidersHorizontal, Map as MapIcon } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Select, Badge } from './components/ui/Components';
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Select, Badge, Input } from './components/ui/Components';
+
+const KEY_ALGORITHMS = [MatchingAlgorithm.EXACT, ...STRING_METRICS, MatchingAlgorithm.PHONETIC]
+  .map(id => ({ id, label: ALGORITHM_LABELS[id] }));
+
+// First few distinct non-empty values of a column, for normalization previews
+const sampleValues = (dataset: Dataset | null, column: string | undefined, count = 5): string[] => {
+  if (!dataset || !column) return [];
+  const samples = new Set<string>();
+  for (const row of dataset.data) {
+    const value = row[column];
+    if (value !== null && value !== undefined && String(value).trim()) samples.add(String(value));
+    if (samples.size >= count) break;
+  }
+  return Array.from(samples);
+};
+
+// Geometry column drawn on the results map; a spatial join key's column is preferred
+const geometryColumn = (dataset: Dataset | null, keyColumns: string[]): string | undefined => {
+  const columns = dataset?.columns.filter(c => c.type === 'geometry').map(c => c.name) ?? [];
+  return columns.find(c => keyColumns.includes(c)) ?? columns[0];
+};
+
+type ResultView = 'all' | 'unmatched-master' | 'unmatched-target';
+
+// Geometry cell for each exported row, looked up in the original Master or Target row so same-named columns cannot clash
+const rowGeometries = (rows: any[], view: ResultView, side: MapSide, dataset: Dataset, column: string): CellValue[] => {
+  const byId = new Map(dataset.data.map(r => [r._rowId, r]));
+  return rows.map(row => {
+    let id: string | undefined;
+    if (view === 'unmatched-target') id = side === 'target' ? row._rowId : undefined;
+    else if (side === 'master') id = row._side === 'target' ? undefined : row._rowId;
+    else id = row._side === 'target' ? row._rowId : row._targetId;
+    return id === undefined ? null : byId.get(id)?.[column] ?? null;
+  });
+};
 
 export default function App() {
   const [step, setStep] = useState<'upload' | 'config' | 'results'>('upload');
@@ -15,28 +63,51 @@ export default function App() {
   
   const [joinConfig, setJoinConfig] = useState<JoinConfig>({
     joinKeys: [{ id: '1', left: '', right: '' }], // Start with 1 pair
+    matchMode: 'hierarchical',
     algorithms: [MatchingAlgorithm.LEVENSHTEIN], // Default
     threshold: 80,
+    weightedThreshold: 75,
+    probabilistic: { matchThreshold: 0.9 },
     normalization: {
       removeSpecialChars: true,
       removeNumbers: false,
       toLowerCase: true,
       trimWhitespace: true,
+      foldDiacritics: true,
+      transliterate: false,
+      foldWidth: true,
+      rules: [],
     },
+    phoneticEncoder: 'doubleMetaphone',
+    blocking: DEFAULT_BLOCKING,
+    joinType: 'left',
+    cardinality: 'manyToOne',
+    tieBreak: 'first',
+    alternativeCount: 3,
     masterColumns: [],
     targetColumns: []
   });
 
   const [results, setResults] = useState<MatchResultRow[]>([]);
+  const [unmatchedMasterRows, setUnmatchedMasterRows] = useState<MatchResultRow[]>([]);
   const [unmatchedTargetRows, setUnmatchedTargetRows] = useState<Row[]>([]);
   const [isMatching, setIsMatching] = useState(false);
-  const [matchStats, setMatchStats] = useState({ matched: 0, unmatched: 0 });
+  const [matchStats, setMatchStats] = useState<JoinStats>({ matched: 0, unmatched: 0, outputRows: 0, fanOutRows: 0 });
   const [processLogs, setProcessLogs] = useState<string[]>([]);
+  const [joinProgress, setJoinProgress] = useState<JoinProgress | null>(null);
+  const joinRunRef = useRef<JoinRun | null>(null);
+  const estimateRef = useRef<WorkerTask<FellegiSunterParams> | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
 
+  const [expandedKeys, setExpandedKeys] = useState<string[]>([]);
+  const [isEstimating, setIsEstimating] = useState(false);
+
   // Result view state
   const [visibleRows, setVisibleRows] = useState(50);
-  const [resultView, setResultView] = useState<'all' | 'unmatched-master' | 'unmatched-target'>('all');
+  const [resultView, setResultView] = useState<ResultView>('all');
+  const [highlightedRow, setHighlightedRow] = useState<{ view: ResultView; index: number } | null>(null);
+  const [showMap, setShowMap] = useState(true);
+  const [exportGeometrySide, setExportGeometrySide] = useState<MapSide>('master');
 
   useEffect(() => {
      if (tableA && joinConfig.masterColumns.length === 0) {
@@ -50,10 +121,28 @@ export default function App() {
      }
   }, [tableB]);
 
+  // Learned or edited linkage parameters only describe the data and comparisons they came from,
+  // so any change to either is re-estimated on the next run
+  useEffect(() => {
+    setJoinConfig(prev => prev.probabilistic.params ? { ...prev, probabilistic: { ...prev.probabilistic, params: undefined } } : prev);
+  }, [tableA, tableB, joinConfig.joinKeys, joinConfig.algorithms, joinConfig.normalization, joinConfig.phoneticEncoder, joinConfig.blocking]);
+
+  // Workers outlive the component unless stopped; the refs are cleared first so the stopped runs report nothing
+  useEffect(() => () => {
+    const tasks = [joinRunRef.current, estimateRef.current];
+    joinRunRef.current = null;
+    estimateRef.current = null;
+    tasks.forEach(task => task?.terminate());
+  }, []);
+
   useEffect(() => {
     logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [processLogs]);
 
+  useEffect(() => {
+    if (highlightedRow) document.getElementById(`result-row-${highlightedRow.index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedRow]);
+
   // --- Logic for Keys ---
   const addKeyPair = () => {
     setJoinConfig(prev => ({
@@ -77,6 +166,65 @@ export default function App() {
     }));
   };
 
+  const setLinkage = (settings: Partial<ProbabilisticConfig>) => {
+    setJoinConfig(prev => ({ ...prev, probabilistic: { ...prev.probabilistic, ...settings } }));
+  };
+
+  const estimateLinkage = async () => {
+    if (!tableA || !tableB) return;
+    estimateRef.current?.terminate();
+    const task = estimateLinkageInWorker(tableA, tableB, joinConfig);
+    estimateRef.current = task;
+    setIsEstimating(true);
+    try {
+        const params = await task.result;
+        if (estimateRef.current === task) setLinkage({ params });
+    } catch (e: any) {
+        if (estimateRef.current === task) alert(`Estimation failed: ${e.message}`);
+    } finally {
+        if (estimateRef.current === task) {
+            estimateRef.current = null;
+            setIsEstimating(false);
+        }
+    }
+  };
+
+  const updateKeySettings = (id: string, settings: Partial<JoinKeyPair>) => {
+    setJoinConfig(prev => ({
+        ...prev,
+        joinKeys: prev.joinKeys.map(k => k.id === id ? { ...k, ...settings } : k)
+    }));
+  };
+
+  // Starts from the effective list so the first click turns the inherited strategy into an override
+  const toggleKeyAlgorithm = (id: string, alg: MatchingAlgorithm) => {
+    setJoinConfig(prev => ({
+        ...prev,
+        joinKeys: prev.joinKeys.map(k => {
+            if (k.id !== id) return k;
+            const current = keyRules(k, prev).algorithms;
+            const next = current.includes(alg) ? current.filter(a => a !== alg) : [...current, alg];
+            return { ...k, algorithms: next.length > 0 ? next : undefined };
+        })
+    }));
+  };
+
+  const toggleKeyExpanded = (id: string) => {
+    setExpandedKeys(prev => prev.includes(id) ? prev.filter(k => k !== id) : [...prev, id]);
+  };
+
+  const hasKeyOverrides = (kp: JoinKeyPair) =>
+    !!kp.algorithms || kp.threshold !== undefined || !!kp.normalization || (!!kp.domain && kp.domain !== 'none')
+    || !!kp.comparator || !!kp.tolerance || !!kp.spatial;
+
+  // The comparator the engine will use; without an explicit choice it follows the inferred column types
+  const keyComparator = (kp: JoinKeyPair): KeyComparator =>
+    tableA && tableB ? resolveComparator(kp, tableA, tableB) : kp.comparator ?? 'text';
+
+  const updateKeyTolerance = (kp: JoinKeyPair, tolerance: Partial<KeyTolerance>) => {
+    updateKeySettings(kp.id, { tolerance: { ...(kp.tolerance ?? DEFAULT_TOLERANCE), ...tolerance } });
+  };
+
   const toggleAlgorithm = (alg: MatchingAlgorithm) => {
     setJoinConfig(prev => {
       const current = prev.algorithms;
@@ -86,7 +234,7 @@ export default function App() {
     });
   };
 
-  const toggleNormalization = (key: keyof NormalizationConfig) => {
+  const toggleNormalization = (key: NormalizationFlag) => {
     setJoinConfig(prev => ({
         ...prev,
         normalization: { ...prev.normalization, [key]: !prev.normalization[key] }
@@ -103,9 +251,8 @@ export default function App() {
     });
   };
 
-  const addLog = async (msg: string) => {
+  const addLog = (msg: string) => {
     setProcessLogs(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${msg}`]);
-    await new Promise(resolve => setTimeout(resolve, 50));
   };
 
   const runJoin = async () => {
@@ -116,215 +263,58 @@ export default function App() {
     setVisibleRows(50); 
     setResultView('all'); 
 
-    await addLog("Initializing Hierarchical Join (Master -> Target)...");
-
-    const drivingData = tableA.data; 
-    const lookupData = tableB.data;  
-
-    await addLog(`Indexing Target Data columns for fast retrieval...`);
-    
-    const targetIndices: Record<string, Map<string, number[]>> = {}; 
-    const keyPairs = joinConfig.joinKeys;
-
-    for (const kp of keyPairs) {
-        const col = kp.right;
-        if (!targetIndices[col]) {
-            const indexMap = new Map<string, number[]>();
-            
-            lookupData.forEach((row, idx) => {
-                const val = normalizeString(row[col], joinConfig.normalization);
-                if (val) {
-                    if (!indexMap.has(val)) indexMap.set(val, []);
-                    indexMap.get(val)?.push(idx);
-                }
-            });
-            targetIndices[col] = indexMap;
-        }
-    }
-
-    const outputRows: MatchResultRow[] = [];
-    const usedTargetIndices = new Set<number>();
-    const aiCandidates: { drivingVal: string, rowIndex: number, keyIndex: number }[] = [];
-
-    await addLog(`Starting Hierarchical Matching on ${drivingData.length} Master rows...`);
-
-    for (let i = 0; i < drivingData.length; i++) {
-        if (i > 0 && i % 500 === 0) await addLog(`Processed ${i} / ${drivingData.length} rows...`);
-
-        const rowA = drivingData[i];
-        let candidateIndices: number[] | null = null; 
-        let accumulatedScore = 0;
-        let finalMatchMethod: MatchingAlgorithm = MatchingAlgorithm.EXACT;
-        
-        for (let k = 0; k < keyPairs.length; k++) {
-            const kp = keyPairs[k];
-            const valA = normalizeString(rowA[kp.left], joinConfig.normalization);
-            const targetCol = kp.right;
-
-            let nextCandidates: number[] = [];
-            let bestScoreForThisKey = 0;
-            let methodForThisKey = MatchingAlgorithm.EXACT;
-
-            if (candidateIndices === null) {
-                const exactMatches = targetIndices[targetCol].get(valA);
-                if (exactMatches && (joinConfig.algorithms.includes(MatchingAlgorithm.EXACT) || joinConfig.algorithms.includes(MatchingAlgorithm.LEVENSHTEIN))) {
-                     nextCandidates = [...exactMatches];
-                     bestScoreForThisKey = 100;
-                     methodForThisKey = MatchingAlgorithm.EXACT;
-                } else {
-                     if (joinConfig.algorithms.includes(MatchingAlgorithm.LEVENSHTEIN) || joinConfig.algorithms.includes(MatchingAlgorithm.PHONETIC)) {
-                         candidateIndices = Array.from({ length: lookupData.length }, (_, idx) => idx);
-                     } else {
-                         nextCandidates = [];
-                     }
-                }
-            }
-            
-            if (candidateIndices !== null && nextCandidates.length === 0) {
-                 const phoneticA = getPhoneticCode(valA);
-
-                 for (const idx of candidateIndices) {
-                     const rowB = lookupData[idx];
-                     const valB = normalizeString(rowB[targetCol], joinConfig.normalization);
-                     
-                     let isMatch = false;
-                     let score = 0;
-
-                     if (valA === valB && joinConfig.algorithms.includes(MatchingAlgorithm.EXACT)) {
-                         isMatch = true;
-                         score = 100;
-                         if (methodForThisKey !== MatchingAlgorithm.EXACT) methodForThisKey = MatchingAlgorithm.EXACT;
-                     } 
-                     else if (joinConfig.algorithms.includes(MatchingAlgorithm.PHONETIC)) {
-                         if (getPhoneticCode(valB) === phoneticA) {
-                             isMatch = true;
-                             score = 90;
-                             if (methodForThisKey !== MatchingAlgorithm.EXACT) methodForThisKey = MatchingAlgorithm.PHONETIC;
-                         }
-                     }
-                     
-                     if (!isMatch && joinConfig.algorithms.includes(MatchingAlgorithm.LEVENSHTEIN)) {
-                         const sim = similarityPercentage(valA, valB) * 100;
-                         if (sim >= joinConfig.threshold) {
-                             isMatch = true;
-                             score = sim;
-                             if (methodForThisKey !== MatchingAlgorithm.EXACT && methodForThisKey !== MatchingAlgorithm.PHONETIC) methodForThisKey = MatchingAlgorithm.LEVENSHTEIN;
-                         }
-                     }
-
-                     if (isMatch) {
-                         nextCandidates.push(idx);
-                         accumulatedScore += score; 
-                     }
-                 }
-                 
-                 if (nextCandidates.length > 0) {
-                      bestScoreForThisKey = accumulatedScore / nextCandidates.length; 
-                      accumulatedScore = 0; 
-                 }
-            }
-
-            candidateIndices = nextCandidates;
-            accumulatedScore += bestScoreForThisKey; 
-            if (candidateIndices.length === 0) break;
-        }
+    setJoinProgress(null);
 
-        let matchFound: Row | null = null;
-        let finalScore = 0;
-        let matchIndex = -1;
-
-        if (candidateIndices && candidateIndices.length > 0) {
-            matchIndex = candidateIndices[0];
-            matchFound = lookupData[matchIndex];
-            finalScore = accumulatedScore / keyPairs.length;
-            finalScore = Math.min(Math.round(finalScore), 100);
-            if (finalScore === 0) finalScore = 100; 
-        } 
-        
-        // AI Fallback - Check config first
-        if (!matchFound && joinConfig.algorithms.includes(MatchingAlgorithm.AI_SEMANTIC) && keyPairs.length === 1 && isAIConfigured()) {
-             aiCandidates.push({ drivingVal: normalizeString(rowA[keyPairs[0].left], joinConfig.normalization), rowIndex: i, keyIndex: 0 });
-        }
+    // A newer run replaces one still in progress; its results would be stale
+    joinRunRef.current?.terminate();
+    const run = runJoinInWorker(tableA, tableB, joinConfig, { onLog: addLog, onProgress: setJoinProgress });
+    joinRunRef.current = run;
 
-        if (matchIndex !== -1) {
-            usedTargetIndices.add(matchIndex);
+    try {
+        const result = await run.result;
+        setUnmatchedMasterRows(result.unmatchedMasterRows);
+        setUnmatchedTargetRows(result.unmatchedTargetRows);
+        setMatchStats(result.stats);
+        setResults(result.rows);
+        if (result.linkageParams) setLinkage({ params: result.linkageParams });
+        addLog(result.cancelled ? `Process Cancelled. Showing ${result.rows.length} processed rows.` : "Process Complete.");
+    } catch (e: any) {
+        if (joinRunRef.current === run) addLog(`Process Failed: ${e.message}`);
+    } finally {
+        if (joinRunRef.current === run) {
+            joinRunRef.current = null;
+            setIsMatching(false);
         }
-
-        const newRow: any = {
-            id: rowA.id,
-            _matchStatus: matchFound ? 'matched' : 'unmatched',
-            _matchScore: finalScore,
-            _matchMethod: finalMatchMethod, 
-            _originalValue: matchFound ? 'Multiple Keys' : 'No Match'
-        };
-
-        joinConfig.masterColumns.forEach(col => newRow[col] = rowA[col]);
-        if (matchFound) {
-            joinConfig.targetColumns.forEach(col => newRow[col] = matchFound![col]);
-        } else {
-            joinConfig.targetColumns.forEach(col => newRow[col] = null);
-        }
-
-        outputRows[i] = newRow;
     }
+  };
 
-    if (aiCandidates.length > 0 && isAIConfigured()) {
-        await addLog(`Performing AI Semantic Analysis on ${aiCandidates.length} unmatched items...`);
-        const uniqueDrivingVals = Array.from(new Set(aiCandidates.map(c => c.drivingVal)));
-        // We need 'lookupRefVals' here for AI. In hierarchical mode, we grab the 1st key column from Target
-        // This is a simplification for the demo since AI is complex with multi-keys
-        const targetKeyCol = joinConfig.joinKeys[0].right;
-        const lookupRefVals = lookupData.map(l => normalizeString(l[targetKeyCol], joinConfig.normalization));
-        
-        const aiMatches = await findSemanticMatches(lookupRefVals, uniqueDrivingVals);
-        
-        aiCandidates.forEach(c => {
-             const match = aiMatches.find(m => m.target === c.drivingVal);
-             if (match && match.match) {
-                 // Find the row in lookupData that corresponds to match.match
-                 // This assumes 1:1 or first match wins for AI
-                 const lookupMatch = lookupData.find(l => normalizeString(l[targetKeyCol], joinConfig.normalization) === match.match);
-                 
-                 if (lookupMatch) {
-                     const row = outputRows[c.rowIndex];
-                     row._matchStatus = 'matched';
-                     row._matchScore = match.confidence === 'High' ? 95 : 85;
-                     row._matchMethod = MatchingAlgorithm.AI_SEMANTIC;
-                     
-                     // Not tracking index usage for AI in this simplified block to avoid complexity
-                     
-                     joinConfig.targetColumns.forEach(col => {
-                        row[col] = lookupMatch[col];
-                     });
-                 }
-            }
-        });
-    }
-
-    await addLog("Analyzing Unmatched Target Data...");
-    const unusedTarget = lookupData.filter((_, idx) => !usedTargetIndices.has(idx));
-    setUnmatchedTargetRows(unusedTarget);
-
-    await addLog("Calculating Final Statistics...");
-    const matchedCount = outputRows.filter(r => r._matchStatus === 'matched').length;
-    setMatchStats({ matched: matchedCount, unmatched: outputRows.length - matchedCount });
-    setResults(outputRows);
-    
-    await addLog("Process Complete.");
-    setIsMatching(false);
+  const cancelJoin = () => {
+    if (!joinRunRef.current) return;
+    addLog("Cancelling...");
+    joinRunRef.current.cancel();
   };
 
-  const handleExport = (format: 'csv' | 'json') => {
+  const handleExport = (format: 'csv' | 'json' | 'geojson' | 'xlsx') => {
+      // The workbook holds every view, one sheet each, whichever view is showing
+      if (format === 'xlsx') {
+          if (!tableA || !tableB) return;
+          exportToXLSX(
+              { config: joinConfig, stats: matchStats, tableA, tableB, rows: results, unmatchedMasterRows, unmatchedTargetRows },
+              `fuzzy-join-${joinConfig.joinType}.xlsx`
+          ).catch(e => addLog(`Excel export failed: ${e.message}`));
+          return;
+      }
+
       let dataToExport: any[] = [];
       let columnsToExport: string[] = [];
       let filename = 'export.csv';
 
       if (resultView === 'all') {
           dataToExport = results;
-          columnsToExport = [...joinConfig.masterColumns, ...joinConfig.targetColumns, '_matchStatus', '_matchScore'];
-          filename = 'fuzzy-join-full.csv';
+          columnsToExport = [...joinOutputColumns(joinConfig), '_matchStatus', '_matchScore', '_matchMethod'];
+          filename = `fuzzy-join-${joinConfig.joinType}.csv`;
       } else if (resultView === 'unmatched-master') {
-          dataToExport = results.filter(r => r._matchStatus === 'unmatched');
+          dataToExport = unmatchedMasterRows;
           columnsToExport = joinConfig.masterColumns;
           filename = 'unmatched-master-rows.csv';
       } else if (resultView === 'unmatched-target') {
@@ -335,6 +325,19 @@ export default function App() {
 
       if (format === 'csv') exportToCSV(dataToExport, columnsToExport, filename);
       if (format === 'json') exportToJSON(dataToExport, filename.replace('.csv', '.json'));
+      if (format === 'geojson') {
+          const columns = {
+              master: resultView === 'unmatched-target' ? undefined : geometryColumn(tableA, joinConfig.joinKeys.map(k => k.left)),
+              target: resultView === 'unmatched-master' ? undefined : geometryColumn(tableB, joinConfig.joinKeys.map(k => k.right)),
+          };
+          const side: MapSide = columns[exportGeometrySide] ? exportGeometrySide : exportGeometrySide === 'master' ? 'target' : 'master';
+          const column = columns[side];
+          const dataset = side === 'master' ? tableA : tableB;
+          if (!column || !dataset) return;
+          const geometries = rowGeometries(dataToExport, resultView, side, dataset, column);
+          const properties = columnsToExport.filter(col => col !== columns.master && col !== columns.target);
+          exportToGeoJSON(dataToExport, properties, geometries, filename.replace('.csv', '.geojson'), dataset.crs);
+      }
   };
 
   // --- Render Sections ---
@@ -400,54 +403,319 @@ export default function App() {
       {/* 1. Join Keys */}
       <Card>
         <CardHeader>
-            <CardTitle>Match Logic</CardTitle>
-            <CardDescription>
-                Define your hierarchical matching keys.
-            </CardDescription>
+            <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                <div>
+                    <CardTitle>Match Logic</CardTitle>
+                    <CardDescription>
+                        {joinConfig.matchMode === 'weighted'
+                            ? 'Every key is scored and combined by weight.'
+                            : joinConfig.matchMode === 'probabilistic'
+                                ? 'Keys are compared at exact / fuzzy / disagree levels and weighted by learned m/u probabilities.'
+                                : 'Define your hierarchical matching keys.'}
+                    </CardDescription>
+                </div>
+                <div className="grid grid-cols-3 gap-1 bg-slate-100 p-1 rounded-lg w-full md:w-80">
+                    {(Object.keys(MATCH_MODE_LABELS) as MatchMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => setJoinConfig(prev => ({ ...prev, matchMode: mode }))}
+                            className={`py-1.5 text-xs font-medium rounded-md capitalize transition-all ${joinConfig.matchMode === mode ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {MATCH_MODE_LABELS[mode]}
+                        </button>
+                    ))}
+                </div>
+            </div>
         </CardHeader>
         <CardContent>
             <div className="space-y-3">
                 {joinConfig.joinKeys.map((keyPair, index) => (
-                    <div key={keyPair.id} className="flex flex-col md:flex-row gap-4 items-center bg-slate-50 p-4 rounded-lg border border-slate-100 relative group">
+                    <div key={keyPair.id} className="bg-slate-50 p-4 rounded-lg border border-slate-100 relative group space-y-3">
                         <div className="absolute -left-3 top-1/2 -translate-y-1/2 bg-slate-200 text-slate-500 text-[10px] font-bold px-1.5 py-0.5 rounded-r">
-                            Step {index + 1}
+                            {joinConfig.matchMode === 'weighted' ? 'Key' : 'Step'} {index + 1}
                         </div>
-                        <div className="flex-1 w-full pl-2">
-                            {index === 0 && <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Left Key</label>}
-                            <Select value={keyPair.left} onChange={e => updateKeyPair(keyPair.id, 'left', e.target.value)}>
-                                <option value="">Select Column...</option>
-                                {tableA?.columns.map(c => <option key={c.name} value={c.name}>{c.name} ({c.type})</option>)}
-                            </Select>
-                        </div>
-                        <div className="text-slate-300 pt-0 md:pt-6">
-                            <GitMerge size={20} className="rotate-90 md:rotate-0" />
-                        </div>
-                        <div className="flex-1 w-full">
-                            {index === 0 && <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Right Key</label>}
-                            <Select value={keyPair.right} onChange={e => updateKeyPair(keyPair.id, 'right', e.target.value)}>
-                                <option value="">Select Column...</option>
-                                {tableB?.columns.map(c => <option key={c.name} value={c.name}>{c.name} ({c.type})</option>)}
-                            </Select>
-                        </div>
-                        
-                        <div className="pt-0 md:pt-6">
-                             <Button 
-                                variant="ghost" 
-                                size="sm" 
-                                onClick={() => removeKeyPair(keyPair.id)}
-                                disabled={joinConfig.joinKeys.length === 1}
-                                className={joinConfig.joinKeys.length === 1 ? 'opacity-0' : 'text-slate-400 hover:text-red-500'}
-                             >
-                                <Trash2 size={16} />
-                             </Button>
+                        <div className="flex flex-col md:flex-row gap-4 items-center">
+                            <div className="flex-1 w-full pl-2">
+                                {index === 0 && <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Left Key</label>}
+                                <Select value={keyPair.left} onChange={e => updateKeyPair(keyPair.id, 'left', e.target.value)}>
+                                    <option value="">Select Column...</option>
+                                    {tableA?.columns.map(c => <option key={c.name} value={c.name}>{c.name} ({c.type})</option>)}
+                                </Select>
+                            </div>
+                            <div className="text-slate-300 pt-0 md:pt-6">
+                                <GitMerge size={20} className="rotate-90 md:rotate-0" />
+                            </div>
+                            <div className="flex-1 w-full">
+                                {index === 0 && <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Right Key</label>}
+                                <Select value={keyPair.right} onChange={e => updateKeyPair(keyPair.id, 'right', e.target.value)}>
+                                    <option value="">Select Column...</option>
+                                    {tableB?.columns.map(c => <option key={c.name} value={c.name}>{c.name} ({c.type})</option>)}
+                                </Select>
+                            </div>
+                            
+                            <div className="pt-0 md:pt-6 flex">
+                                 {joinConfig.matchMode !== 'weighted' && (
+                                     <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => toggleKeyExpanded(keyPair.id)}
+                                        className={expandedKeys.includes(keyPair.id) || hasKeyOverrides(keyPair) ? 'text-blue-600' : 'text-slate-400 hover:text-slate-700'}
+                                        title="Key settings"
+                                     >
+                                        <SlidersHorizontal size={16} />
+                                     </Button>
+                                 )}
+                                 <Button 
+                                    variant="ghost" 
+                                    size="sm" 
+                                    onClick={() => removeKeyPair(keyPair.id)}
+                                    disabled={joinConfig.joinKeys.length === 1}
+                                    className={joinConfig.joinKeys.length === 1 ? 'opacity-0' : 'text-slate-400 hover:text-red-500'}
+                                 >
+                                    <Trash2 size={16} />
+                                 </Button>
+                            </div>
                         </div>
+
+                        {(joinConfig.matchMode === 'weighted' || expandedKeys.includes(keyPair.id)) && (
+                            <div className="pl-2 pt-3 border-t border-slate-200 space-y-3">
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Value Type</label>
+                                        <Select
+                                            value={keyPair.domain ?? 'none'}
+                                            onChange={e => updateKeySettings(keyPair.id, { domain: e.target.value as DomainNormalizer })}
+                                            className="text-xs"
+                                        >
+                                            {(Object.keys(DOMAIN_LABELS) as DomainNormalizer[]).map(domain => (
+                                                <option key={domain} value={domain}>{DOMAIN_LABELS[domain]}</option>
+                                            ))}
+                                        </Select>
+                                    </div>
+                                    {keyPair.domain === 'phone' && (
+                                        <div>
+                                            <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Default Country Code</label>
+                                            <Input
+                                                placeholder="e.g. 44"
+                                                value={keyPair.countryCode ?? ''}
+                                                onChange={e => updateKeySettings(keyPair.id, { countryCode: e.target.value.replace(/\D/g, '') || undefined })}
+                                                className="h-8 text-xs"
+                                            />
+                                        </div>
+                                    )}
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Compare As</label>
+                                        <Select
+                                            value={keyPair.comparator ?? ''}
+                                            onChange={e => updateKeySettings(keyPair.id, { comparator: (e.target.value || undefined) as KeyComparator | undefined })}
+                                            className="text-xs"
+                                        >
+                                            <option value="">Auto ({COMPARATOR_LABELS[keyComparator({ ...keyPair, comparator: undefined })]})</option>
+                                            {(Object.keys(COMPARATOR_LABELS) as KeyComparator[]).map(comparator => (
+                                                <option key={comparator} value={comparator}>{COMPARATOR_LABELS[comparator]}</option>
+                                            ))}
+                                        </Select>
+                                    </div>
+                                    {keyComparator(keyPair) === 'numeric' && (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div>
+                                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">± Absolute</label>
+                                                <Input
+                                                    type="number" min="0" step="any"
+                                                    value={(keyPair.tolerance ?? DEFAULT_TOLERANCE).absolute}
+                                                    onChange={e => updateKeyTolerance(keyPair, { absolute: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                    className="h-8 text-xs"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">± Relative %</label>
+                                                <Input
+                                                    type="number" min="0" step="0.1"
+                                                    value={(keyPair.tolerance ?? DEFAULT_TOLERANCE).relative * 100}
+                                                    onChange={e => updateKeyTolerance(keyPair, { relative: Math.max(0, parseFloat(e.target.value) || 0) / 100 })}
+                                                    className="h-8 text-xs"
+                                                />
+                                            </div>
+                                        </div>
+                                    )}
+                                    {keyComparator(keyPair) === 'spatial' && (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div>
+                                                <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Predicate</label>
+                                                <Select
+                                                    value={keyPair.spatial ?? 'intersects'}
+                                                    onChange={e => updateKeySettings(keyPair.id, { spatial: e.target.value as SpatialPredicate })}
+                                                    className="text-xs"
+                                                >
+                                                    {(Object.keys(SPATIAL_PREDICATE_LABELS) as SpatialPredicate[]).map(predicate => (
+                                                        <option key={predicate} value={predicate}>{SPATIAL_PREDICATE_LABELS[predicate]}</option>
+                                                    ))}
+                                                </Select>
+                                            </div>
+                                            {(keyPair.spatial === 'withinDistance' || keyPair.spatial === 'nearest') && (
+                                                <div>
+                                                    <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">{keyPair.spatial === 'nearest' ? 'Max Metres' : 'Metres'}</label>
+                                                    <Input
+                                                        type="number" min="0" step="any"
+                                                        placeholder={keyPair.spatial === 'nearest' ? 'Any' : '0'}
+                                                        value={keyPair.distance ?? ''}
+                                                        onChange={e => updateKeySettings(keyPair.id, { distance: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                        className="h-8 text-xs"
+                                                    />
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                    {keyComparator(keyPair) === 'date' && (
+                                        <div>
+                                            <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">± Days</label>
+                                            <Input
+                                                type="number" min="0" step="1"
+                                                value={(keyPair.tolerance ?? DEFAULT_TOLERANCE).days}
+                                                onChange={e => updateKeyTolerance(keyPair, { days: Math.max(0, parseInt(e.target.value) || 0) })}
+                                                className="h-8 text-xs"
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                                <div className={`grid gap-3 ${joinConfig.matchMode === 'weighted' ? 'grid-cols-3' : joinConfig.matchMode === 'probabilistic' ? 'grid-cols-1' : 'grid-cols-2'}`}>
+                                    {joinConfig.matchMode === 'weighted' && (
+                                        <div>
+                                            <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Weight</label>
+                                            <Input
+                                                type="number" min="0" step="0.5"
+                                                value={keyPair.weight ?? 1}
+                                                onChange={e => updateKeySettings(keyPair.id, { weight: parseFloat(e.target.value) || 0 })}
+                                                className="h-8 text-xs"
+                                            />
+                                        </div>
+                                    )}
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Algorithms</label>
+                                        <div className="flex flex-wrap gap-1">
+                                            {KEY_ALGORITHMS.map(alg => {
+                                                const active = keyRules(keyPair, joinConfig).algorithms.includes(alg.id);
+                                                return (
+                                                    <button
+                                                        key={alg.id}
+                                                        onClick={() => toggleKeyAlgorithm(keyPair.id, alg.id)}
+                                                        className={`px-2 py-1 text-[11px] rounded border transition-colors ${
+                                                            active
+                                                            ? keyPair.algorithms ? 'bg-blue-600 text-white border-blue-700' : 'bg-blue-50 text-blue-700 border-blue-200'
+                                                            : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'
+                                                        }`}
+                                                    >
+                                                        {alg.label}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                    {joinConfig.matchMode !== 'probabilistic' && (
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase mb-1 block">Key Threshold</label>
+                                        <Input
+                                            type="number" min="0" max="100"
+                                            placeholder={`${joinConfig.threshold} (default)`}
+                                            value={keyPair.threshold ?? ''}
+                                            onChange={e => updateKeySettings(keyPair.id, { threshold: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+                                            className="h-8 text-xs"
+                                        />
+                                    </div>
+                                    )}
+                                </div>
+                                <div>
+                                    <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={!!keyPair.normalization}
+                                            onChange={e => updateKeySettings(keyPair.id, { normalization: e.target.checked ? { ...joinConfig.normalization } : undefined })}
+                                            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                        />
+                                        Custom normalization
+                                    </label>
+                                    {keyPair.normalization && (
+                                        <>
+                                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2">
+                                            {NORMALIZATION_FLAGS.map(key => (
+                                                <label key={key} className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer hover:text-slate-900">
+                                                    <input 
+                                                        type="checkbox" 
+                                                        checked={keyPair.normalization![key]}
+                                                        onChange={() => updateKeySettings(keyPair.id, { normalization: { ...keyPair.normalization!, [key]: !keyPair.normalization![key] } })}
+                                                        className="rounded border-slate-300 text-blue-600 focus:ring-blue-500" 
+                                                    />
+                                                    {key.replace(/([A-Z])/g, ' $1').toLowerCase()}
+                                                </label>
+                                            ))}
+                                        </div>
+                                        <div className="mt-3">
+                                            <NormalizationRules
+                                                normalization={keyPair.normalization}
+                                                samples={sampleValues(tableA, keyPair.left)}
+                                                onChange={rules => updateKeySettings(keyPair.id, { normalization: { ...keyPair.normalization!, rules } })}
+                                            />
+                                        </div>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 ))}
             </div>
-            <div className="mt-4">
+            {joinConfig.matchMode === 'probabilistic' && (
+                <LinkageParams
+                    params={joinConfig.probabilistic.params}
+                    joinKeys={joinConfig.joinKeys}
+                    matchThreshold={joinConfig.probabilistic.matchThreshold}
+                    isEstimating={isEstimating}
+                    onEstimate={estimateLinkage}
+                    onChange={params => setLinkage({ params })}
+                    onThresholdChange={matchThreshold => setLinkage({ matchThreshold })}
+                />
+            )}
+            {joinConfig.matchMode === 'weighted' && (
+                <div className="pt-4 px-1">
+                    <div className="flex justify-between text-xs mb-2">
+                        <span>Overall Match Threshold</span>
+                        <span className="font-mono">{joinConfig.weightedThreshold}%</span>
+                    </div>
+                    <input 
+                        type="range" min="0" max="100" 
+                        value={joinConfig.weightedThreshold}
+                        onChange={e => setJoinConfig({...joinConfig, weightedThreshold: parseInt(e.target.value)})}
+                        className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                </div>
+            )}
+            <div className="mt-4 flex flex-col md:flex-row md:items-end justify-between gap-4">
                 <Button variant="secondary" size="sm" onClick={addKeyPair} className="gap-1">
-                    <Plus size={16} /> Add Fallback Match
+                    <Plus size={16} /> {joinConfig.matchMode === 'weighted' ? 'Add Key' : 'Add Fallback Match'}
                 </Button>
+                <div className="flex-1" />
+                <div className="w-full md:w-48">
+                    <Select
+                        label="Join Type"
+                        value={joinConfig.joinType}
+                        onChange={e => setJoinConfig({...joinConfig, joinType: e.target.value as JoinType})}
+                    >
+                        {(Object.keys(JOIN_TYPE_LABELS) as JoinType[]).map(type => (
+                            <option key={type} value={type}>{JOIN_TYPE_LABELS[type]}</option>
+                        ))}
+                    </Select>
+                </div>
+                <div className="w-full md:w-64">
+                    <Select
+                        label="Cardinality"
+                        value={joinConfig.cardinality}
+                        onChange={e => setJoinConfig({...joinConfig, cardinality: e.target.value as JoinCardinality})}
+                    >
+                        <option value="manyToOne">N:1 — Target rows can be reused</option>
+                        <option value="oneToOne">1:1 — Each Target row used once</option>
+                        <option value="oneToMany">1:N — Every matching Target row</option>
+                    </Select>
+                </div>
             </div>
         </CardContent>
       </Card>
@@ -457,11 +725,18 @@ export default function App() {
         <Card>
             <CardHeader>
                 <CardTitle>Strategy</CardTitle>
+                <CardDescription>Default for keys without their own settings.</CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
                 {[
                     { id: MatchingAlgorithm.EXACT, label: 'Exact Match', desc: '100% equality required.', enabled: true },
                     { id: MatchingAlgorithm.LEVENSHTEIN, label: 'Fuzzy (RapidFuzz)', desc: 'Tolerance for typos.', enabled: true },
+                    { id: MatchingAlgorithm.DAMERAU_LEVENSHTEIN, label: 'Damerau-Levenshtein', desc: 'Swapped letters count as one typo.', enabled: true },
+                    { id: MatchingAlgorithm.JARO_WINKLER, label: 'Jaro-Winkler', desc: 'Short names, rewards a shared start.', enabled: true },
+                    { id: MatchingAlgorithm.TOKEN_SORT, label: 'Token Sort', desc: 'Ignores word order ("Smith, John").', enabled: true },
+                    { id: MatchingAlgorithm.TOKEN_SET, label: 'Token Set', desc: 'Ignores word order and extra words.', enabled: true },
+                    { id: MatchingAlgorithm.JACCARD, label: 'N-gram Jaccard', desc: 'Shared letter pairs.', enabled: true },
+                    { id: MatchingAlgorithm.TFIDF_COSINE, label: 'TF-IDF Cosine', desc: 'Shared words, common words like "Ltd" count less.', enabled: true },
                     { id: MatchingAlgorithm.PHONETIC, label: 'Phonetic', desc: 'Sounds similar.', enabled: true },
                     { 
                       id: MatchingAlgorithm.AI_SEMANTIC, 
@@ -497,7 +772,7 @@ export default function App() {
                     </div>
                 ))}
 
-                {joinConfig.algorithms.includes(MatchingAlgorithm.LEVENSHTEIN) && (
+                {joinConfig.algorithms.some(isStringMetric) && (
                     <div className="pt-2 px-1">
                         <div className="flex justify-between text-xs mb-2">
                             <span>Strictness</span>
@@ -511,6 +786,61 @@ export default function App() {
                         />
                     </div>
                 )}
+
+                {(joinConfig.algorithms.includes(MatchingAlgorithm.PHONETIC)
+                    || joinConfig.joinKeys.some(k => k.algorithms?.includes(MatchingAlgorithm.PHONETIC))
+                    || joinConfig.blocking.strategy === BlockingStrategy.PHONETIC) && (
+                    <div className="pt-2 px-1">
+                        <Select
+                            label="Phonetic Encoder"
+                            value={joinConfig.phoneticEncoder}
+                            onChange={e => setJoinConfig({...joinConfig, phoneticEncoder: e.target.value as PhoneticEncoder})}
+                        >
+                            {(Object.keys(PHONETIC_ENCODER_LABELS) as PhoneticEncoder[]).map(encoder => (
+                                <option key={encoder} value={encoder}>{PHONETIC_ENCODER_LABELS[encoder]}</option>
+                            ))}
+                        </Select>
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            Names are compared word by word. Kölner Phonetik suits German names.
+                        </p>
+                    </div>
+                )}
+
+                {(joinConfig.algorithms.some(isStringMetric) || joinConfig.algorithms.includes(MatchingAlgorithm.PHONETIC)) && (
+                    <div className="pt-2 px-1">
+                        <Select
+                            label="Candidate Blocking"
+                            value={joinConfig.blocking.strategy}
+                            onChange={e => setJoinConfig({...joinConfig, blocking: { ...joinConfig.blocking, strategy: e.target.value as BlockingStrategy }})}
+                        >
+                            {Object.values(BlockingStrategy).map(strategy => (
+                                <option key={strategy} value={strategy}>{BLOCKING_LABELS[strategy]}</option>
+                            ))}
+                        </Select>
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            Limits which Target rows are scored when there is no exact match. Full scan is slowest on large files.
+                        </p>
+                    </div>
+                )}
+
+                <div className="pt-2 px-1 grid grid-cols-2 gap-3">
+                    <Select
+                        label="Ties"
+                        value={joinConfig.tieBreak}
+                        onChange={e => setJoinConfig({...joinConfig, tieBreak: e.target.value as TieBreakRule})}
+                    >
+                        <option value="first">First occurrence</option>
+                        <option value="secondaryKey">Best later key</option>
+                        <option value="ambiguous">Flag as ambiguous</option>
+                    </Select>
+                    <Select
+                        label="Alternatives"
+                        value={joinConfig.alternativeCount}
+                        onChange={e => setJoinConfig({...joinConfig, alternativeCount: parseInt(e.target.value)})}
+                    >
+                        {[0, 1, 3, 5].map(n => <option key={n} value={n}>{n === 0 ? 'None' : `Top ${n}`}</option>)}
+                    </Select>
+                </div>
             </CardContent>
         </Card>
 
@@ -563,21 +893,29 @@ export default function App() {
             <Card>
                 <CardHeader>
                     <CardTitle>Normalization</CardTitle>
+                    <CardDescription>Default for keys without their own settings.</CardDescription>
                 </CardHeader>
                 <CardContent>
                     <div className="grid grid-cols-2 gap-2">
-                        {Object.entries(joinConfig.normalization).map(([key, val]) => (
+                        {NORMALIZATION_FLAGS.map(key => (
                             <label key={key} className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer hover:text-slate-900">
                                 <input 
                                     type="checkbox" 
-                                    checked={val}
-                                    onChange={() => toggleNormalization(key as keyof NormalizationConfig)}
+                                    checked={joinConfig.normalization[key]}
+                                    onChange={() => toggleNormalization(key)}
                                     className="rounded border-slate-300 text-blue-600 focus:ring-blue-500" 
                                 />
                                 {key.replace(/([A-Z])/g, ' $1').toLowerCase()}
                             </label>
                         ))}
                     </div>
+                    <div className="mt-4">
+                        <NormalizationRules
+                            normalization={joinConfig.normalization}
+                            samples={sampleValues(tableA, joinConfig.joinKeys.find(k => k.left)?.left)}
+                            onChange={rules => setJoinConfig(prev => ({ ...prev, normalization: { ...prev.normalization, rules } }))}
+                        />
+                    </div>
                 </CardContent>
             </Card>
         </div>
@@ -597,23 +935,49 @@ export default function App() {
     </div>
   );
 
+  // Shows the table row behind a clicked map feature, switching tabs when it is only in an unmatched list
+  const selectMapFeature = (side: MapSide, rowId: string) => {
+    const lookups: Array<[ResultView, any[], (row: any) => boolean]> = side === 'master'
+      ? [
+          ['all', results, row => row._side !== 'target' && row._rowId === rowId],
+          ['unmatched-master', unmatchedMasterRows, row => row._rowId === rowId],
+        ]
+      : [
+          ['all', results, row => row._targetId === rowId || (row._side === 'target' && row._rowId === rowId)],
+          ['unmatched-target', unmatchedTargetRows, row => row._rowId === rowId],
+        ];
+    for (const [view, rows, isRow] of lookups) {
+      const index = rows.findIndex(isRow);
+      if (index >= 0) {
+        setResultView(view);
+        setVisibleRows(prev => Math.max(prev, index + 1));
+        setHighlightedRow({ view, index });
+        return;
+      }
+    }
+  };
+
   const renderResultsStep = () => {
     let displayColumns: string[] = [];
     let dataToDisplay: any[] = [];
     
     if (resultView === 'all') {
-        displayColumns = [...joinConfig.masterColumns, ...joinConfig.targetColumns];
+        displayColumns = joinOutputColumns(joinConfig);
         dataToDisplay = results;
     } else if (resultView === 'unmatched-master') {
         displayColumns = joinConfig.masterColumns;
-        dataToDisplay = results.filter(r => r._matchStatus === 'unmatched');
+        dataToDisplay = unmatchedMasterRows;
     } else if (resultView === 'unmatched-target') {
         displayColumns = tableB?.columns.map(c => c.name) || [];
         dataToDisplay = unmatchedTargetRows;
     }
 
+    // Anti and inner joins can legitimately produce zero rows, so key off the stats instead
+    const hasRun = matchStats.matched + matchStats.unmatched > 0;
     const rightKeyNames = joinConfig.joinKeys.map(k => k.right);
     const leftKeyNames = joinConfig.joinKeys.map(k => k.left);
+    const masterGeometry = geometryColumn(tableA, leftKeyNames);
+    const targetGeometry = geometryColumn(tableB, rightKeyNames);
 
     return (
       <div className="space-y-6 pb-12">
@@ -622,8 +986,33 @@ export default function App() {
              <div className="p-3 border-b border-slate-800 flex items-center gap-2">
                  <TerminalSquare size={16} />
                  <span className="text-xs font-mono font-bold text-slate-400">System Log</span>
-                 {isMatching && <RefreshCw size={12} className="animate-spin ml-auto" />}
+                 {isMatching && (
+                     <div className="ml-auto flex items-center gap-3">
+                         {joinProgress && (
+                             <span className="text-[10px] font-mono text-slate-400">
+                                 {joinProgress.processed.toLocaleString()} / {joinProgress.total.toLocaleString()} rows
+                                 {' • '}{joinProgress.matched.toLocaleString()} matches
+                                 {joinProgress.etaMs !== null && ` • ETA ${formatDuration(joinProgress.etaMs)}`}
+                             </span>
+                         )}
+                         <RefreshCw size={12} className="animate-spin" />
+                         <button
+                             onClick={cancelJoin}
+                             className="text-[10px] font-bold uppercase text-red-400 hover:text-red-300 border border-red-900 rounded px-2 py-0.5"
+                         >
+                             Cancel
+                         </button>
+                     </div>
+                 )}
              </div>
+             {isMatching && joinProgress && (
+                 <div className="h-0.5 bg-slate-800">
+                     <div
+                         className="h-full bg-green-500 transition-all"
+                         style={{ width: `${joinProgress.total ? (joinProgress.processed / joinProgress.total) * 100 : 0}%` }}
+                     />
+                 </div>
+             )}
              <div className="p-4 font-mono text-xs h-32 overflow-y-auto custom-scrollbar flex flex-col gap-1">
                  {processLogs.length === 0 && <span className="text-slate-600 italic">Ready...</span>}
                  {processLogs.map((log, i) => (
@@ -637,19 +1026,22 @@ export default function App() {
          </Card>
 
          {/* KPI Cards */}
-         {!isMatching && results.length > 0 && (
+         {!isMatching && hasRun && (
              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 animate-in fade-in slide-in-from-bottom-4">
                  <Card>
                      <CardContent className="flex flex-col items-center justify-center py-6">
                          <span className="text-slate-500 text-xs uppercase tracking-wider font-semibold">Joined Rows</span>
                          <span className="text-3xl font-bold text-slate-900 mt-1">{results.length.toLocaleString()}</span>
+                         {matchStats.fanOutRows > 0 && (
+                             <span className="text-xs text-slate-500 mt-1 font-medium">incl. {matchStats.fanOutRows.toLocaleString()} fan-out rows</span>
+                         )}
                      </CardContent>
                  </Card>
                  <Card className="bg-green-50/50 border-green-100">
                      <CardContent className="flex flex-col items-center justify-center py-6">
                          <span className="text-green-600 text-xs uppercase tracking-wider font-semibold">Matched</span>
                          <span className="text-3xl font-bold text-green-700 mt-1">{matchStats.matched.toLocaleString()}</span>
-                         <span className="text-xs text-green-600 mt-1 font-medium">{((matchStats.matched / results.length) * 100).toFixed(1)}% Match Rate</span>
+                         <span className="text-xs text-green-600 mt-1 font-medium">{((matchStats.matched / Math.max(1, matchStats.matched + matchStats.unmatched)) * 100).toFixed(1)}% Match Rate</span>
                      </CardContent>
                  </Card>
                  <Card className="bg-amber-50/50 border-amber-100">
@@ -661,8 +1053,33 @@ export default function App() {
              </div>
          )}
 
+         {/* Map */}
+         {!isMatching && hasRun && tableA && tableB && (masterGeometry || targetGeometry) && (
+             <Card className="overflow-hidden animate-in fade-in slide-in-from-bottom-6">
+                 <button
+                     onClick={() => setShowMap(prev => !prev)}
+                     className="w-full flex items-center gap-2 px-4 py-3 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+                 >
+                     <MapIcon size={16} className="text-slate-400" /> Map
+                     <ChevronDown size={14} className={`ml-auto text-slate-400 transition-transform ${showMap ? 'rotate-180' : ''}`} />
+                 </button>
+                 {showMap && (
+                     <div className="px-4 pb-4">
+                         <ResultsMap
+                             tableA={tableA}
+                             tableB={tableB}
+                             masterColumn={masterGeometry}
+                             targetColumn={targetGeometry}
+                             rows={results}
+                             onSelect={selectMapFeature}
+                         />
+                     </div>
+                 )}
+             </Card>
+         )}
+
          {/* Results Table & Tabs */}
-         {!isMatching && results.length > 0 && (
+         {!isMatching && hasRun && (
             <Card className="overflow-hidden animate-in fade-in slide-in-from-bottom-8 border-slate-200 shadow-md">
              <div className="border-b border-slate-200 bg-slate-50">
                  {/* Tabs */}
@@ -671,7 +1088,7 @@ export default function App() {
                         onClick={() => { setResultView('all'); setVisibleRows(50); }}
                         className={`px-4 py-2 text-sm font-medium rounded-t-lg transition-colors border-t border-x ${resultView === 'all' ? 'bg-white text-slate-900 border-slate-200 border-b-white translate-y-[1px]' : 'bg-transparent text-slate-500 border-transparent hover:text-slate-700 hover:bg-slate-100'}`}
                      >
-                         All Joined Data ({results.length})
+                         {JOIN_TYPE_LABELS[joinConfig.joinType]} ({results.length})
                      </button>
                      <button 
                         onClick={() => { setResultView('unmatched-master'); setVisibleRows(50); }}
@@ -689,6 +1106,27 @@ export default function App() {
                  
                  {/* Toolbar */}
                  <div className="p-3 border-t border-slate-200 flex justify-end items-center bg-white px-4 gap-2">
+                    {masterGeometry && targetGeometry && resultView === 'all' && (
+                        <div className="w-40">
+                            <Select
+                                value={exportGeometrySide}
+                                onChange={e => setExportGeometrySide(e.target.value as MapSide)}
+                                className="h-8 text-xs"
+                                title="Which table's geometry the GeoJSON features carry"
+                            >
+                                <option value="master">Master geometry</option>
+                                <option value="target">Target geometry</option>
+                            </Select>
+                        </div>
+                    )}
+                    {((resultView !== 'unmatched-target' && masterGeometry) || (resultView !== 'unmatched-master' && targetGeometry)) && (
+                        <Button variant="outline" size="sm" onClick={() => handleExport('geojson')}>
+                            <Download size={14} className="mr-1" /> GeoJSON
+                        </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')} title="All views as sheets, with a summary sheet">
+                        <Download size={14} className="mr-1" /> Excel
+                    </Button>
                     <Button variant="outline" size="sm" onClick={() => handleExport('json')}>
                         <Download size={14} className="mr-1" /> JSON
                     </Button>
@@ -718,12 +1156,29 @@ export default function App() {
                     </thead>
                     <tbody className="divide-y divide-slate-100 bg-white">
                         {dataToDisplay.slice(0, visibleRows).map((row, i) => (
-                            <tr key={i} className="hover:bg-slate-50">
+                            <tr
+                                key={i}
+                                id={`result-row-${i}`}
+                                className={highlightedRow?.view === resultView && highlightedRow.index === i ? 'bg-blue-50 ring-1 ring-inset ring-blue-300' : 'hover:bg-slate-50'}
+                            >
                                 <td className="p-3 text-slate-400 text-xs font-mono">{i + 1}</td>
                                 {resultView !== 'unmatched-target' && (
                                     <td className="p-3">
                                         {row._matchStatus === 'matched' ? (
-                                            <Badge variant="success">Match</Badge>
+                                            <div
+                                                className="flex items-center gap-1"
+                                                title={[
+                                                    `${row._matchMethod ? ALGORITHM_LABELS[row._matchMethod as MatchingAlgorithm] : 'Score'} ${row._matchScore}`,
+                                                    row._matchProbability !== undefined ? `P(match) ${(row._matchProbability * 100).toFixed(2)}%, weight ${row._matchWeight}` : '',
+                                                    row._alternatives?.length ? `Alternatives: ${row._alternatives.map((a: MatchCandidate) => `${a.targetId} (${a.score})`).join(', ')}` : ''
+                                                ].filter(Boolean).join('. ')}
+                                            >
+                                                <Badge variant="success">Match</Badge>
+                                                {row._matchRank && row._matchRank > 1 && <Badge variant="outline">#{row._matchRank}</Badge>}
+                                                {row._ambiguous && <Badge variant="warning">Ambiguous</Badge>}
+                                            </div>
+                                        ) : row._side === 'target' ? (
+                                            <Badge variant="outline">Target Only</Badge>
                                         ) : (
                                             <Badge variant="warning">No Match</Badge>
                                         )}
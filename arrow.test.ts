@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Bool, DateDay, Dictionary, Field, Float64, Int32, Int64, Struct, Table, TimestampMillisecond, Utf8, tableFromArrays, tableToIPC, vectorFromArray } from 'apache-arrow';
+import { readArrow } from './arrow';
+
+// --- Fixtures ---
+
+// Written by the reference implementation, so the reader is checked against real files
+const ipc = (table: Parameters<typeof tableToIPC>[0], format: 'file' | 'stream'): ArrayBuffer => tableToIPC(table, format).slice().buffer;
+
+const orders = () => tableFromArrays({
+  name: ['apple', 'pear', 'apple'],
+  qty: Int32Array.from([1, 2, 3]),
+  price: Float64Array.from([0.5, 1.25, 0.75]),
+});
+
+// Typed, nested and dictionary columns, each with a null
+const customers = () => new Table({
+  id: vectorFromArray([BigInt(1), BigInt(2), null], new Int64()),
+  active: vectorFromArray([true, null, false], new Bool()),
+  joined: vectorFromArray([new Date(Date.UTC(2023, 0, 15)), new Date(Date.UTC(2024, 1, 29)), null], new DateDay()),
+  seen: vectorFromArray([Date.UTC(2024, 5, 1, 9, 30), null, Date.UTC(2024, 5, 2)], new TimestampMillisecond()),
+  segment: vectorFromArray(['retail', 'trade', null], new Dictionary(new Utf8(), new Int32())),
+  address: vectorFromArray(
+    [{ city: 'Leeds', geo: { lat: 53.8 } }, { city: null, geo: { lat: 51.5 } }, null],
+    new Struct([Field.new('city', new Utf8(), true), Field.new('geo', new Struct([Field.new('lat', new Float64(), true)]), true)])
+  ),
+});
+
+// --- Formats ---
+
+describe('readArrow', () => {
+  it.each(['file', 'stream'] as const)('reads a table written in the %s format', async format => {
+    const { columns, records } = await readArrow(ipc(orders(), format));
+    expect(columns).toEqual([
+      { name: 'name', type: 'text' },
+      { name: 'qty', type: 'number' },
+      { name: 'price', type: 'number' },
+    ]);
+    expect(records).toEqual([
+      { name: 'apple', qty: 1, price: 0.5 },
+      { name: 'pear', qty: 2, price: 1.25 },
+      { name: 'apple', qty: 3, price: 0.75 },
+    ]);
+  });
+
+  it.each(['file', 'stream'] as const)('reads types, nulls and nested fields in the %s format', async format => {
+    const { columns, records } = await readArrow(ipc(customers(), format));
+    expect(columns).toEqual([
+      { name: 'id', type: 'number' },
+      { name: 'active', type: 'boolean' },
+      { name: 'joined', type: 'date' },
+      { name: 'seen', type: 'date' },
+      { name: 'segment', type: 'text' },
+      { name: 'address.city', type: 'text' },
+      { name: 'address.geo.lat', type: 'number' },
+    ]);
+    expect(records).toEqual([
+      { id: 1, active: true, joined: '2023-01-15', seen: '2024-06-01 09:30:00', segment: 'retail', 'address.city': 'Leeds', 'address.geo.lat': 53.8 },
+      { id: 2, active: null, joined: '2024-02-29', seen: null, segment: 'trade', 'address.city': null, 'address.geo.lat': 51.5 },
+      { id: null, active: false, joined: null, seen: '2024-06-02', segment: null, 'address.city': null, 'address.geo.lat': null },
+    ]);
+  });
+
+  it('keeps 64-bit integers beyond 2^53 exact as text', async () => {
+    const table = new Table({ big: vectorFromArray([BigInt('9007199254740993')], new Int64()) });
+    const { records } = await readArrow(ipc(table, 'stream'));
+    expect(records).toEqual([{ big: '9007199254740993' }]);
+  });
+
+  it('rejects files that are not Arrow', async () => {
+    await expect(readArrow(new TextEncoder().encode('name,qty\napple,1\n').buffer)).rejects.toThrow('Not an Arrow file.');
+  });
+});
@@ -0,0 +1,480 @@
+import { CellValue, ColumnDef, CoordinateSystem, DataType } from './types';
+import { ColumnarTable, bigEndianInteger, binaryValue, decimalValue, halfFloat, hexBytes, int64Value, isoDate, isoDateTime, lz4Block, projJsonCrs, timeOfDay, wkbGeometry } from './columnar';
+
+/**
+ * Arrow IPC reader for the file format (which Feather version 2 also uses) and the stream
+ * format. Struct columns become dotted column names; list and map columns are kept as
+ * JSON text. See https://arrow.apache.org/docs/format/Columnar.html for the layout.
+ */
+
+const FILE_MAGIC = 'ARROW1';
+
+const text = new TextDecoder();
+
+// --- Flatbuffers ---
+
+// A table of the IPC metadata; fields are read by their index in the schema definition
+interface FlatTable {
+  uint8: (index: number, fallback?: number) => number;
+  int16: (index: number, fallback?: number) => number;
+  int32: (index: number, fallback?: number) => number;
+  int64: (index: number, fallback?: number) => number;
+  bool: (index: number, fallback?: boolean) => boolean;
+  table: (index: number) => FlatTable | null;
+  string: (index: number) => string | null;
+  tables: (index: number) => FlatTable[];
+  structs: (index: number, size: number) => DataView[];
+}
+
+const flatTable = (view: DataView, pos: number): FlatTable => {
+  const vtable = pos - view.getInt32(pos, true);
+  const vtableSize = view.getUint16(vtable, true);
+  const offset = (index: number) => (4 + index * 2 < vtableSize ? view.getUint16(vtable + 4 + index * 2, true) : 0);
+  const target = (index: number) => {
+    const o = offset(index);
+    return o ? pos + o + view.getUint32(pos + o, true) : 0;
+  };
+  const vector = (index: number) => {
+    const start = target(index);
+    return start ? { start: start + 4, length: view.getUint32(start, true) } : { start: 0, length: 0 };
+  };
+  const scalar = <T>(index: number, fallback: T, read: (at: number) => T): T => (offset(index) ? read(pos + offset(index)) : fallback);
+
+  return {
+    uint8: (index, fallback = 0) => scalar(index, fallback, at => view.getUint8(at)),
+    int16: (index, fallback = 0) => scalar(index, fallback, at => view.getInt16(at, true)),
+    int32: (index, fallback = 0) => scalar(index, fallback, at => view.getInt32(at, true)),
+    int64: (index, fallback = 0) => scalar(index, fallback, at => Number(view.getBigInt64(at, true))),
+    bool: (index, fallback = false) => scalar(index, fallback, at => view.getUint8(at) !== 0),
+    table: index => (target(index) ? flatTable(view, target(index)) : null),
+    string: index => {
+      const start = target(index);
+      return start ? text.decode(new Uint8Array(view.buffer, view.byteOffset + start + 4, view.getUint32(start, true))) : null;
+    },
+    tables: index => {
+      const { start, length } = vector(index);
+      return Array.from({ length }, (_, i) => flatTable(view, start + i * 4 + view.getUint32(start + i * 4, true)));
+    },
+    structs: (index, size) => {
+      const { start, length } = vector(index);
+      return Array.from({ length }, (_, i) => new DataView(view.buffer, view.byteOffset + start + i * size, size));
+    },
+  };
+};
+
+// --- Schema ---
+
+// Type union members
+const TYPE = {
+  Null: 1, Int: 2, FloatingPoint: 3, Binary: 4, Utf8: 5, Bool: 6, Decimal: 7, Date: 8, Time: 9, Timestamp: 10,
+  Interval: 11, List: 12, Struct: 13, Union: 14, FixedSizeBinary: 15, FixedSizeList: 16, Map: 17, Duration: 18,
+  LargeBinary: 19, LargeUtf8: 20, LargeList: 21, RunEndEncoded: 22, BinaryView: 23, Utf8View: 24, ListView: 25, LargeListView: 26,
+};
+
+const TYPE_NAMES = Object.fromEntries(Object.entries(TYPE).map(([name, id]) => [id, name]));
+
+// Time units, also used by Date (DAY = 0, MILLISECOND = 1)
+const SECOND = 0;
+const MILLISECOND = 1;
+const MICROSECOND = 2;
+
+const GEOMETRY_EXTENSIONS = ['geoarrow.wkb', 'ogc.wkb'];
+
+interface ArrowField {
+  name: string;
+  typeId: number;
+  type: FlatTable | null;
+  children: ArrowField[];
+  dictionary?: { id: number; indexType: FlatTable | null };
+  geometry: boolean;
+  extensionMetadata?: string;
+}
+
+const readField = (field: FlatTable): ArrowField => {
+  const metadata = new Map(field.tables(6).map(kv => [kv.string(0) ?? '', kv.string(1) ?? '']));
+  const dictionary = field.table(4);
+  return {
+    name: field.string(0) ?? '',
+    typeId: field.uint8(2),
+    type: field.table(3),
+    children: field.tables(5).map(readField),
+    dictionary: dictionary ? { id: dictionary.int64(0), indexType: dictionary.table(1) } : undefined,
+    geometry: GEOMETRY_EXTENSIONS.includes(metadata.get('ARROW:extension:name') ?? ''),
+    extensionMetadata: metadata.get('ARROW:extension:metadata'),
+  };
+};
+
+const dataType = (field: ArrowField): DataType => {
+  switch (field.typeId) {
+    case TYPE.Int:
+    case TYPE.FloatingPoint:
+    case TYPE.Decimal:
+    case TYPE.Duration:
+      return 'number';
+    case TYPE.Bool:
+      return 'boolean';
+    case TYPE.Date:
+    case TYPE.Timestamp:
+      return 'date';
+    case TYPE.Binary:
+    case TYPE.LargeBinary:
+    case TYPE.FixedSizeBinary:
+      return field.geometry ? 'geometry' : 'text';
+    default:
+      return 'text';
+  }
+};
+
+// --- Record Batches ---
+
+interface BatchReader {
+  node: () => { length: number; nullCount: number };
+  buffer: () => Uint8Array;
+}
+
+// An LZ4 frame is a header and then blocks, each either compressed or stored as is
+const lz4Frame = (input: Uint8Array, size: number): Uint8Array => {
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  if (view.getUint32(0, true) !== 0x184d2204) throw new Error('Corrupt LZ4 data in Arrow file.');
+  const flags = input[4];
+  let pos = 6 + (flags & 0x08 ? 8 : 0) + (flags & 0x01 ? 4 : 0) + 1;
+  const out = new Uint8Array(size);
+  let o = 0;
+  for (;;) {
+    const header = view.getUint32(pos, true);
+    pos += 4;
+    if (header === 0) break;
+    const length = header & 0x7fffffff;
+    const block = input.subarray(pos, pos + length);
+    if (header & 0x80000000) {
+      out.set(block, o);
+      o += length;
+    } else {
+      o = lz4Block(block, out, o);
+    }
+    pos += length + (flags & 0x10 ? 4 : 0);
+  }
+  return out;
+};
+
+// Buffers in a compressed batch start with their uncompressed length; -1 marks one stored as is
+const batchReader = (batch: FlatTable, body: Uint8Array): BatchReader => {
+  const nodes = batch.structs(1, 16);
+  const buffers = batch.structs(2, 16);
+  const compression = batch.table(3);
+  if (compression && compression.uint8(0) !== 0) throw new Error('Arrow files compressed with Zstandard are not supported; write them with LZ4 or no compression.');
+  let nextNode = 0;
+  let nextBuffer = 0;
+
+  return {
+    node: () => {
+      const node = nodes[nextNode++];
+      if (!node) throw new Error('Corrupt Arrow record batch.');
+      return { length: Number(node.getBigInt64(0, true)), nullCount: Number(node.getBigInt64(8, true)) };
+    },
+    buffer: () => {
+      const buffer = buffers[nextBuffer++];
+      if (!buffer) throw new Error('Corrupt Arrow record batch.');
+      const offset = Number(buffer.getBigInt64(0, true));
+      const raw = body.subarray(offset, offset + Number(buffer.getBigInt64(8, true)));
+      if (!compression || raw.length < 8) return raw;
+      const size = Number(new DataView(raw.buffer, raw.byteOffset, 8).getBigInt64(0, true));
+      return size === -1 ? raw.subarray(8) : lz4Frame(raw.subarray(8), size);
+    },
+  };
+};
+
+const dataView = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// Values are plain JS values: cells for scalars, arrays for lists and objects for structs and maps
+type ArrowValue = CellValue | ArrowValue[] | { [key: string]: ArrowValue };
+
+type Dictionaries = Map<number, ArrowValue[]>;
+
+const readOffsets = (buffer: Uint8Array, length: number, large: boolean): number[] => {
+  const view = dataView(buffer);
+  return Array.from({ length: length + 1 }, (_, i) => (large ? Number(view.getBigInt64(i * 8, true)) : view.getInt32(i * 4, true)));
+};
+
+// Reads the field's node and buffers (and its children's) in the order they were written
+const readColumn = (field: ArrowField, reader: BatchReader, dictionaries: Dictionaries, ignoreDictionary = false): ArrowValue[] => {
+  const { length, nullCount } = reader.node();
+  const type = field.type;
+
+  // Every type but Null starts with a validity bitmap, which may be empty when nothing is null
+  const validity = field.typeId === TYPE.Null ? new Uint8Array(0) : reader.buffer();
+  const valid = (i: number) => nullCount === 0 || validity.length === 0 || ((validity[i >> 3] >> (i & 7)) & 1) === 1;
+  const values = (read: (i: number) => ArrowValue): ArrowValue[] =>
+    Array.from({ length }, (_, i) => (valid(i) ? read(i) : null));
+
+  if (field.dictionary && !ignoreDictionary) {
+    const dictionary = dictionaries.get(field.dictionary.id);
+    if (!dictionary) throw new Error(`Arrow dictionary for column "${field.name}" is missing.`);
+    const indexField: ArrowField = { name: field.name, typeId: TYPE.Int, type: field.dictionary.indexType, children: [], geometry: false };
+    const indices = readInts(indexField, reader.buffer(), length);
+    return values(i => dictionary[Number(indices(i))] ?? null);
+  }
+
+  switch (field.typeId) {
+    case TYPE.Null:
+      return new Array(length).fill(null);
+    case TYPE.Int: {
+      const ints = readInts(field, reader.buffer(), length);
+      return values(i => {
+        const v = ints(i);
+        return typeof v === 'bigint' ? int64Value(v) : v;
+      });
+    }
+    case TYPE.FloatingPoint: {
+      const view = dataView(reader.buffer());
+      const precision = type?.int16(0) ?? 2;
+      return values(i => (precision === 0 ? halfFloat(view.getUint16(i * 2, true)) : precision === 1 ? view.getFloat32(i * 4, true) : view.getFloat64(i * 8, true)));
+    }
+    case TYPE.Bool: {
+      const bits = reader.buffer();
+      return values(i => ((bits[i >> 3] >> (i & 7)) & 1) === 1);
+    }
+    case TYPE.Decimal: {
+      const view = dataView(reader.buffer());
+      const scale = type?.int32(1) ?? 0;
+      const width = (type?.int32(2, 128) ?? 128) / 8;
+      return values(i => {
+        const bytes = new Uint8Array(view.buffer, view.byteOffset + i * width, width).slice().reverse();
+        return decimalValue(bigEndianInteger(bytes), scale);
+      });
+    }
+    case TYPE.Date: {
+      const view = dataView(reader.buffer());
+      return type?.int16(0, MILLISECOND) === 0
+        ? values(i => isoDate(view.getInt32(i * 4, true)))
+        : values(i => isoDateTime(Number(view.getBigInt64(i * 8, true))));
+    }
+    case TYPE.Time: {
+      const view = dataView(reader.buffer());
+      const unit = type?.int16(0, MILLISECOND) ?? MILLISECOND;
+      if (unit <= MILLISECOND) return values(i => timeOfDay(view.getInt32(i * 4, true) * (unit === SECOND ? 1000 : 1)));
+      const perMs = unit === MICROSECOND ? BigInt(1000) : BigInt(1000000);
+      return values(i => timeOfDay(Number(view.getBigInt64(i * 8, true) / perMs)));
+    }
+    case TYPE.Timestamp: {
+      const view = dataView(reader.buffer());
+      const unit = type?.int16(0) ?? SECOND;
+      return values(i => {
+        const v = view.getBigInt64(i * 8, true);
+        const ms = unit === SECOND ? v * BigInt(1000) : unit === MILLISECOND ? v : unit === MICROSECOND ? v / BigInt(1000) : v / BigInt(1000000);
+        return isoDateTime(Number(ms));
+      });
+    }
+    case TYPE.Duration: {
+      const view = dataView(reader.buffer());
+      return values(i => int64Value(view.getBigInt64(i * 8, true)));
+    }
+    case TYPE.Utf8:
+    case TYPE.LargeUtf8:
+    case TYPE.Binary:
+    case TYPE.LargeBinary: {
+      const large = field.typeId === TYPE.LargeUtf8 || field.typeId === TYPE.LargeBinary;
+      const offsets = readOffsets(reader.buffer(), length, large);
+      const data = reader.buffer();
+      const bytes = (i: number) => data.subarray(offsets[i], offsets[i + 1]);
+      if (field.typeId === TYPE.Utf8 || field.typeId === TYPE.LargeUtf8) return values(i => text.decode(bytes(i)));
+      return values(i => (field.geometry ? wkbGeometry(bytes(i)) : binaryValue(bytes(i))));
+    }
+    case TYPE.FixedSizeBinary: {
+      const data = reader.buffer();
+      const width = type?.int32(0) ?? 0;
+      return values(i => {
+        const bytes = data.subarray(i * width, (i + 1) * width);
+        return field.geometry ? wkbGeometry(bytes) : hexBytes(bytes);
+      });
+    }
+    case TYPE.List:
+    case TYPE.LargeList:
+    case TYPE.Map: {
+      const offsets = readOffsets(reader.buffer(), length, field.typeId === TYPE.LargeList);
+      const items = readColumn(field.children[0], reader, dictionaries);
+      if (field.typeId !== TYPE.Map) return values(i => items.slice(offsets[i], offsets[i + 1]));
+      // Map entries are structs of a key and a value
+      const [key, value] = field.children[0].children.map(c => c.name);
+      return values(i => Object.fromEntries(items.slice(offsets[i], offsets[i + 1]).map(entry => {
+        const e = entry as { [key: string]: ArrowValue };
+        return [String(e[key]), e[value]];
+      })));
+    }
+    case TYPE.FixedSizeList: {
+      const size = type?.int32(0) ?? 0;
+      const items = readColumn(field.children[0], reader, dictionaries);
+      return values(i => items.slice(i * size, (i + 1) * size));
+    }
+    case TYPE.Struct: {
+      const children = field.children.map(child => readColumn(child, reader, dictionaries));
+      return values(i => Object.fromEntries(field.children.map((child, c) => [child.name, children[c][i]])));
+    }
+    default:
+      throw new Error(`Arrow column "${field.name}" has an unsupported type (${TYPE_NAMES[field.typeId] ?? field.typeId}).`);
+  }
+};
+
+// Integers up to 32 bits are read as numbers, 64-bit ones as bigints
+const readInts = (field: ArrowField, buffer: Uint8Array, length: number): ((i: number) => number | bigint) => {
+  const view = dataView(buffer);
+  const bits = field.type?.int32(0) ?? 32;
+  const signed = field.type?.bool(1) ?? true;
+  switch (bits) {
+    case 8: return i => (signed ? view.getInt8(i) : view.getUint8(i));
+    case 16: return i => (signed ? view.getInt16(i * 2, true) : view.getUint16(i * 2, true));
+    case 64: return i => (signed ? view.getBigInt64(i * 8, true) : view.getBigUint64(i * 8, true));
+    default: return i => (signed ? view.getInt32(i * 4, true) : view.getUint32(i * 4, true));
+  }
+};
+
+// --- Messages ---
+
+// Message header union members
+const SCHEMA = 1;
+const DICTIONARY_BATCH = 2;
+const RECORD_BATCH = 3;
+
+interface Message {
+  headerType: number;
+  header: FlatTable | null;
+  body: Uint8Array;
+}
+
+// Each message is its metadata length (after a 0xFFFFFFFF marker since format 0.15), the metadata and a body
+const readMessage = (bytes: Uint8Array, start: number): { message: Message | null; end: number } => {
+  const view = dataView(bytes);
+  let pos = start;
+  if (pos + 4 > bytes.length) return { message: null, end: pos };
+  let length = view.getInt32(pos, true);
+  pos += 4;
+  if (length === -1) {
+    length = pos + 4 <= bytes.length ? view.getInt32(pos, true) : 0;
+    pos += 4;
+  }
+  if (length <= 0) return { message: null, end: pos };
+  if (pos + length > bytes.length) throw new Error('Corrupt Arrow message.');
+
+  const metadata = new DataView(bytes.buffer, bytes.byteOffset + pos, length);
+  const message = flatTable(metadata, metadata.getUint32(0, true));
+  pos += length;
+  const bodyLength = message.int64(3);
+  return {
+    message: { headerType: message.uint8(1), header: message.table(2), body: bytes.subarray(pos, pos + bodyLength) },
+    end: pos + bodyLength,
+  };
+};
+
+// The file format ends with a footer listing where its messages are; streams are read in order
+const readMessages = (bytes: Uint8Array): Message[] => {
+  const messages: Message[] = [];
+  const isFile = text.decode(bytes.subarray(0, 6)) === FILE_MAGIC && text.decode(bytes.subarray(bytes.length - 6)) === FILE_MAGIC;
+  if (isFile) {
+    const view = dataView(bytes);
+    const footerLength = view.getInt32(bytes.length - 10, true);
+    const footerView = new DataView(bytes.buffer, bytes.byteOffset + bytes.length - 10 - footerLength, footerLength);
+    const footer = flatTable(footerView, footerView.getUint32(0, true));
+    // The footer always holds the schema; a Schema message at the start of the file is optional
+    const schema = footer.table(1);
+    if (schema) messages.push({ headerType: SCHEMA, header: schema, body: new Uint8Array(0) });
+    // Read in file order, so delta dictionaries only apply to the batches after them
+    const offsets = [...footer.structs(2, 24), ...footer.structs(3, 24)].map(block => Number(block.getBigInt64(0, true)));
+    for (const offset of offsets.sort((a, b) => a - b)) {
+      const { message } = readMessage(bytes, offset);
+      if (message) messages.push(message);
+    }
+    return messages;
+  }
+
+  let pos = 0;
+  for (;;) {
+    const { message, end } = readMessage(bytes, pos);
+    if (!message) return messages;
+    messages.push(message);
+    pos = end;
+  }
+};
+
+// --- File ---
+
+// Struct columns are split into one column per field, named by their path
+interface OutputColumn {
+  name: string;
+  path: string[]; // From the top-level field
+  type: DataType;
+}
+
+const outputColumns = (field: ArrowField, prefix: string[] = []): OutputColumn[] =>
+  field.typeId === TYPE.Struct && !field.dictionary
+    ? field.children.flatMap(child => outputColumns(child, [...prefix, field.name]))
+    : [{ name: [...prefix, field.name].join('.'), path: [...prefix, field.name], type: dataType(field) }];
+
+const cellValue = (value: ArrowValue): CellValue =>
+  value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+
+export const readArrow = async (buffer: ArrayBuffer): Promise<ColumnarTable> => {
+  const bytes = new Uint8Array(buffer);
+  const magic = text.decode(bytes.subarray(0, 6));
+  if (magic.startsWith('FEA1')) throw new Error('Feather version 1 files are not supported; save the file as Feather version 2 or Arrow.');
+
+  let schema: FlatTable | null | undefined;
+  let messages: Message[] = [];
+  try {
+    messages = readMessages(bytes);
+    schema = messages.find(m => m.headerType === SCHEMA)?.header;
+  } catch {
+    schema = null;
+  }
+  if (!schema) throw new Error(magic === FILE_MAGIC ? 'Corrupt Arrow file: no schema found.' : 'Not an Arrow file.');
+  if (schema.int16(0) === 1) throw new Error('Big-endian Arrow files are not supported.');
+  const fields = schema.tables(1).map(readField);
+
+  // Dictionaries are written before the batches that use them; delta batches extend one
+  const dictionaryFields = new Map<number, ArrowField>();
+  const collect = (field: ArrowField) => {
+    if (field.dictionary) dictionaryFields.set(field.dictionary.id, field);
+    field.children.forEach(collect);
+  };
+  fields.forEach(collect);
+  const dictionaries: Dictionaries = new Map();
+
+  const columns = fields.flatMap(field => outputColumns(field));
+  const fieldIndex = columns.map(col => fields.findIndex(f => f.name === col.path[0]));
+  const records: Array<Record<string, CellValue>> = [];
+  for (const message of messages) {
+    if (!message.header) continue;
+    if (message.headerType === DICTIONARY_BATCH) {
+      const id = message.header.int64(0);
+      const field = dictionaryFields.get(id);
+      const data = message.header.table(1);
+      if (!field || !data) continue;
+      const values = readColumn(field, batchReader(data, message.body), dictionaries, true);
+      dictionaries.set(id, message.header.bool(2) ? [...(dictionaries.get(id) ?? []), ...values] : values);
+    } else if (message.headerType === RECORD_BATCH) {
+      const reader = batchReader(message.header, message.body);
+      const batch = fields.map(field => readColumn(field, reader, dictionaries));
+      const rowCount = message.header.int64(0);
+      for (let r = 0; r < rowCount; r++) {
+        const record: Record<string, CellValue> = {};
+        columns.forEach((col, c) => {
+          let value: ArrowValue = batch[fieldIndex[c]][r];
+          for (const key of col.path.slice(1)) value = value !== null && typeof value === 'object' && !Array.isArray(value) ? value[key] ?? null : null;
+          record[col.name] = cellValue(value);
+        });
+        records.push(record);
+      }
+    }
+  }
+
+  const geometryField = fields.find(f => f.geometry);
+  let crs: CoordinateSystem | undefined;
+  if (geometryField) {
+    try {
+      crs = projJsonCrs(geometryField.extensionMetadata ? JSON.parse(geometryField.extensionMetadata).crs : undefined);
+    } catch {
+      crs = undefined;
+    }
+  }
+
+  return { columns: columns.map(({ name, type }): ColumnDef => ({ name, type })), records, crs };
+};
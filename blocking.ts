@@ -0,0 +1,155 @@
+import { BlockingConfig, BlockingStrategy, PhoneticEncoder } from './types';
+import { phoneticTokens } from './phonetic';
+
+/**
+ * A blocker narrows the Target rows worth scoring for a Master value.
+ * It is built once per Target key column from the normalized values.
+ */
+export interface Blocker {
+  candidates: (value: string) => number[];
+}
+
+export const DEFAULT_BLOCKING: BlockingConfig = {
+  strategy: BlockingStrategy.QGRAM,
+  qgramSize: 3,
+  windowSize: 20,
+  prefixLength: 3,
+  maxCandidates: 200,
+};
+
+export const BLOCKING_LABELS: Record<BlockingStrategy, string> = {
+  [BlockingStrategy.NONE]: 'Full scan',
+  [BlockingStrategy.QGRAM]: 'Trigram index',
+  [BlockingStrategy.PHONETIC]: 'Phonetic buckets',
+  [BlockingStrategy.SORTED_NEIGHBOURHOOD]: 'Sorted neighbourhood',
+  [BlockingStrategy.PREFIX]: 'Prefix',
+};
+
+export const describeBlocking = (config: BlockingConfig): string => {
+  switch (config.strategy) {
+    case BlockingStrategy.QGRAM: return `${BLOCKING_LABELS[config.strategy]} (q=${config.qgramSize}, max ${config.maxCandidates} candidates)`;
+    case BlockingStrategy.SORTED_NEIGHBOURHOOD: return `${BLOCKING_LABELS[config.strategy]} (window ${config.windowSize})`;
+    case BlockingStrategy.PREFIX: return `${BLOCKING_LABELS[config.strategy]} (${config.prefixLength} chars)`;
+    default: return BLOCKING_LABELS[config.strategy];
+  }
+};
+
+// --- Helpers ---
+
+export const qgrams = (value: string, q: number): string[] => {
+  const padded = ` ${value} `;
+  if (padded.length <= q) return [padded];
+  const grams: string[] = [];
+  for (let i = 0; i <= padded.length - q; i++) {
+    grams.push(padded.substring(i, i + q));
+  }
+  return grams;
+};
+
+const addToBucket = (buckets: Map<string, number[]>, key: string, idx: number) => {
+  const bucket = buckets.get(key);
+  if (bucket) {
+    if (bucket[bucket.length - 1] !== idx) bucket.push(idx);
+  } else {
+    buckets.set(key, [idx]);
+  }
+};
+
+const unionOf = (lists: Array<number[] | undefined>): number[] => {
+  const seen = new Set<number>();
+  for (const list of lists) list?.forEach(idx => seen.add(idx));
+  return Array.from(seen).sort((a, b) => a - b);
+};
+
+// --- Strategies ---
+
+const fullScanBlocker = (values: string[]): Blocker => {
+  const all = values.map((_, idx) => idx);
+  return { candidates: () => all };
+};
+
+const qgramBlocker = (values: string[], config: BlockingConfig): Blocker => {
+  const index = new Map<string, number[]>();
+  values.forEach((val, idx) => {
+    if (!val) return;
+    for (const gram of new Set(qgrams(val, config.qgramSize))) addToBucket(index, gram, idx);
+  });
+
+  return {
+    candidates: (value) => {
+      if (!value) return [];
+      const shared = new Map<number, number>();
+      for (const gram of new Set(qgrams(value, config.qgramSize))) {
+        index.get(gram)?.forEach(idx => shared.set(idx, (shared.get(idx) || 0) + 1));
+      }
+      // Most shared grams first, then Target order
+      return Array.from(shared.entries())
+        .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+        .slice(0, config.maxCandidates)
+        .map(([idx]) => idx)
+        .sort((a, b) => a - b);
+    }
+  };
+};
+
+// One bucket per word code, so any word that sounds alike proposes the row
+const phoneticBlocker = (values: string[], encoder: PhoneticEncoder): Blocker => {
+  const buckets = new Map<string, number[]>();
+  values.forEach((val, idx) => {
+    if (val) phoneticTokens(val, encoder).flat().forEach(code => addToBucket(buckets, code, idx));
+  });
+
+  return {
+    candidates: (value) => {
+      if (!value) return [];
+      const codes = new Set(phoneticTokens(value, encoder).flat());
+      return unionOf(Array.from(codes).map(code => buckets.get(code)));
+    }
+  };
+};
+
+const sortedNeighbourhoodBlocker = (values: string[], config: BlockingConfig): Blocker => {
+  const sorted = values
+    .map((val, idx) => ({ val, idx }))
+    .filter(e => e.val)
+    .sort((a, b) => (a.val < b.val ? -1 : a.val > b.val ? 1 : a.idx - b.idx));
+  const half = Math.max(1, Math.floor(config.windowSize / 2));
+
+  return {
+    candidates: (value) => {
+      if (!value) return [];
+      let lo = 0;
+      let hi = sorted.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sorted[mid].val < value) lo = mid + 1;
+        else hi = mid;
+      }
+      return sorted
+        .slice(Math.max(0, lo - half), Math.min(sorted.length, lo + half))
+        .map(e => e.idx)
+        .sort((a, b) => a - b);
+    }
+  };
+};
+
+const prefixBlocker = (values: string[], config: BlockingConfig): Blocker => {
+  const buckets = new Map<string, number[]>();
+  values.forEach((val, idx) => {
+    if (val) addToBucket(buckets, val.substring(0, config.prefixLength), idx);
+  });
+
+  return {
+    candidates: (value) => (value ? buckets.get(value.substring(0, config.prefixLength)) || [] : [])
+  };
+};
+
+export const buildBlocker = (values: string[], config: BlockingConfig, encoder: PhoneticEncoder = 'soundex'): Blocker => {
+  switch (config.strategy) {
+    case BlockingStrategy.QGRAM: return qgramBlocker(values, config);
+    case BlockingStrategy.PHONETIC: return phoneticBlocker(values, encoder);
+    case BlockingStrategy.SORTED_NEIGHBOURHOOD: return sortedNeighbourhoodBlocker(values, config);
+    case BlockingStrategy.PREFIX: return prefixBlocker(values, config);
+    default: return fullScanBlocker(values);
+  }
+};
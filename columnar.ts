@@ -0,0 +1,137 @@
+import { CellValue, ColumnDef, CoordinateSystem } from './types';
+import { WGS84, parsePrj } from './crs';
+import { parseGeometry, shapeToGeoJSON } from './geometry';
+
+/**
+ * Pieces shared by the Parquet and Arrow readers: both describe their columns with a
+ * schema, so values are converted from the declared type instead of being guessed.
+ */
+
+export interface ColumnarTable {
+  columns: ColumnDef[];
+  records: Array<Record<string, CellValue>>;
+  crs?: CoordinateSystem; // GeoParquet and GeoArrow files only
+}
+
+const MS_PER_DAY = 86400000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Dates and times read as "yyyy-mm-dd" and "yyyy-mm-dd hh:mm:ss" in UTC, as Excel dates do
+export const isoDate = (days: number): string | null => isoDateTime(days * MS_PER_DAY);
+
+export const isoDateTime = (ms: number): string | null => {
+  const date = new Date(ms);
+  if (isNaN(date.getTime())) return null;
+  const day = date.toISOString().slice(0, 10);
+  const time = date.getUTCHours() || date.getUTCMinutes() || date.getUTCSeconds()
+    ? ` ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`
+    : '';
+  return day + time;
+};
+
+export const timeOfDay = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${pad(Math.floor(seconds / 3600) % 24)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+// 64-bit integers beyond 2^53 stay exact as text; identifiers are often that large
+export const int64Value = (value: bigint): number | string => {
+  const n = Number(value);
+  return Number.isSafeInteger(n) ? n : value.toString();
+};
+
+export const decimalValue = (unscaled: bigint, scale: number): number => Number(unscaled) / 10 ** scale;
+
+// Big-endian two's complement, as Parquet stores decimals in byte arrays
+export const bigEndianInteger = (bytes: Uint8Array): bigint => {
+  let value = BigInt(0);
+  for (const b of bytes) value = (value << BigInt(8)) | BigInt(b);
+  return bytes.length > 0 && bytes[0] & 0x80 ? value - (BigInt(1) << BigInt(bytes.length * 8)) : value;
+};
+
+export const hexBytes = (bytes: Uint8Array): string => {
+  let hex = '';
+  for (const b of bytes) hex += b.toString(16).padStart(2, '0');
+  return hex;
+};
+
+export const uuid = (bytes: Uint8Array): string => {
+  const hex = hexBytes(bytes);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// IEEE 754 half precision, from its 16 bits
+export const halfFloat = (bits: number): number => {
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+};
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+// Unannotated binary is usually text written by older tools; anything else is shown as hex
+export const binaryValue = (bytes: Uint8Array): string => {
+  try {
+    return utf8.decode(bytes);
+  } catch {
+    return hexBytes(bytes);
+  }
+};
+
+// WKB geometries are stored as GeoJSON text, as GeoPackage geometries are
+export const wkbGeometry = (bytes: Uint8Array): string | null => {
+  const shape = parseGeometry(hexBytes(bytes));
+  return shape ? JSON.stringify(shapeToGeoJSON(shape)) : null;
+};
+
+/**
+ * CRS of a GeoParquet/GeoArrow column, given as PROJJSON. A missing CRS means longitude and
+ * latitude on WGS84 (OGC:CRS84); a CRS without an EPSG id is kept by name only. GeoArrow
+ * also allows an "EPSG:code" string or WKT.
+ */
+export const projJsonCrs = (crs: any): CoordinateSystem => {
+  if (crs === undefined || crs === null) return WGS84;
+  if (typeof crs === 'string') {
+    const code = crs.match(/^(EPSG|OGC):(\w+)$/i);
+    if (code) return projJsonCrs({ name: crs, id: { authority: code[1].toUpperCase(), code: code[2] } });
+    return parsePrj(crs) ?? { name: crs, geographic: false, metresPerUnit: 1 };
+  }
+  const id = crs.id ?? crs.ids?.[0];
+  const epsg = id?.authority === 'EPSG' ? Number(id.code) : id?.authority === 'OGC' && id.code === 'CRS84' ? 4326 : undefined;
+  const geographic = /Geographic/i.test(String(crs.type ?? '')) || epsg === 4326;
+  return { name: String(crs.name ?? (epsg ? `EPSG:${epsg}` : 'Unknown')), epsg, geographic, metresPerUnit: 1 };
+};
+
+// Decodes one LZ4 block into `out` from `start`; returns the end of the decoded bytes
+export const lz4Block = (input: Uint8Array, out: Uint8Array, start: number): number => {
+  let pos = 0;
+  let o = start;
+  const length = (initial: number) => {
+    let n = initial;
+    if (n === 15) {
+      let b: number;
+      do {
+        b = input[pos++];
+        n += b;
+      } while (b === 255);
+    }
+    return n;
+  };
+  while (pos < input.length) {
+    const token = input[pos++];
+    const literals = length(token >> 4);
+    out.set(input.subarray(pos, pos + literals), o);
+    pos += literals;
+    o += literals;
+    if (pos >= input.length) break;
+    const offset = input[pos] | (input[pos + 1] << 8);
+    pos += 2;
+    const size = length(token & 15) + 4;
+    for (let i = 0; i < size; i++, o++) out[o] = out[o - offset];
+  }
+  return o;
+};
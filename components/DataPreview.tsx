@@ -1,5 +1,7 @@
 import React from 'react';
-import { Dataset } from '../types';
+import { ColumnDef, Dataset, DataType } from '../types';
+import { describeCrs } from '../crs';
+import { MIN_CONFIDENCE, TYPE_LABELS, describeTypeRatios } from '../typeInference';
 import { Type, Calendar, Hash, AlignLeft, CheckSquare } from 'lucide-react';
 import { Card, CardContent, Badge } from './ui/Components';
 
@@ -12,7 +14,18 @@ const TypeIcon = ({ type }: { type: string }) => {
   }
 };
 
-export const DataPreview = ({ dataset }: { dataset: Dataset }) => {
+const confidenceTitle = (col: ColumnDef): string => {
+  if (col.overridden) return 'Type set manually';
+  if (col.confidence === undefined) return 'Type declared by the file';
+  return `${Math.round(col.confidence * 100)}% confident. ${describeTypeRatios(col)}`;
+};
+
+interface DataPreviewProps {
+  dataset: Dataset;
+  onColumnTypeChange?: (column: string, type: DataType) => void; // Overrides the inferred type before joining
+}
+
+export const DataPreview = ({ dataset, onColumnTypeChange }: DataPreviewProps) => {
   if (!dataset) return null;
 
   return (
@@ -26,6 +39,7 @@ export const DataPreview = ({ dataset }: { dataset: Dataset }) => {
             <span>{dataset.rowCount.toLocaleString()} Rows</span>
             <span>{dataset.columns.length} Cols</span>
             <span>{dataset.size}</span>
+            {dataset.crs && <span title={dataset.crs.wkt}>{describeCrs(dataset.crs)}</span>}
         </div>
       </div>
       
@@ -39,14 +53,34 @@ export const DataPreview = ({ dataset }: { dataset: Dataset }) => {
                                 <TypeIcon type={col.type} />
                                 <span>{col.name}</span>
                             </div>
-                            <div className="h-1 w-8 bg-slate-100 rounded-full"></div>
+                            <div className="flex items-center gap-2" title={confidenceTitle(col)}>
+                                {onColumnTypeChange && (
+                                    <select
+                                        value={col.type}
+                                        onChange={(e) => onColumnTypeChange(col.name, e.target.value as DataType)}
+                                        className="text-[10px] font-normal text-slate-500 bg-transparent border border-slate-200 rounded px-1 py-0.5 focus:outline-none focus:border-slate-400"
+                                    >
+                                        {(Object.keys(TYPE_LABELS) as DataType[]).map(type => (
+                                            <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <div className="h-1 w-8 bg-slate-100 rounded-full overflow-hidden">
+                                    {col.confidence !== undefined && !col.overridden && (
+                                        <div
+                                            className={`h-full rounded-full ${col.confidence >= MIN_CONFIDENCE ? 'bg-green-400' : 'bg-amber-400'}`}
+                                            style={{ width: `${Math.round(col.confidence * 100)}%` }}
+                                        />
+                                    )}
+                                </div>
+                            </div>
                         </th>
                     ))}
                 </tr>
             </thead>
             <tbody className="divide-y divide-slate-50 bg-white">
                 {dataset.data.slice(0, 5).map((row, i) => (
-                    <tr key={row.id} className="hover:bg-slate-50/80 transition-colors">
+                    <tr key={row._rowId} className="hover:bg-slate-50/80 transition-colors">
                         {dataset.columns.map((col, j) => (
                             <td key={j} className="px-4 py-2.5 text-slate-600 truncate max-w-[200px]">
                                 {String(row[col.name] || '')}
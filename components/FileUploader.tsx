@@ -1,9 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { Upload, Database, Loader2, Server, HelpCircle, Wifi, WifiOff, AlertCircle, CheckCircle2, Play, Terminal, Settings, FileWarning, Shield, Globe, Laptop, Info, ArrowRight, ShieldAlert, Radio } from 'lucide-react';
-import { parseCSV, parseExcel, parseShapefile } from '../utils';
+import { parseCSVFile, openWorkbook, listExcelSheets, parseWorkbook, ExcelSheet, parseShapefile, listShapefileLayers, parseGeoJSON, parseGeoPackage, listGeoPackageLayers, parseKML, ShapefileOptions, SpatialLayer, SpatialTable, openPdf, parsePDF, readJSON, isGeoJSON, geoJSONTable, parseJSONRecords, parseNDJSON, parseParquet, parseArrow } from '../utils';
+import type { WorkBook } from 'xlsx';
 import { Dataset } from '../types';
+import { inferColumns } from '../typeInference';
+import { describeCrs, isWGS84 } from '../crs';
+import { PdfPage, detectPdfColumns } from '../pdf';
 import { Card, Button, Input, Select, Badge } from './ui/Components';
 import { DataPreview } from './DataPreview';
+import { PdfColumnEditor } from './PdfColumnEditor';
 import { BridgeHelp } from './BridgeHelp';
 
 interface FileUploaderProps {
@@ -14,6 +19,47 @@ interface FileUploaderProps {
 
 const MAX_FILE_SIZE_MB = 100;
 
+const describeSize = (bytes: number) => {
+  const sizeMB = bytes / (1024 * 1024);
+  return sizeMB < 1 ? `${(bytes / 1024).toFixed(1)} KB` : `${sizeMB.toFixed(1)} MB`;
+};
+
+type LayeredFormat = 'shapefile' | 'geopackage';
+
+const fileDataset = (file: File, type: Dataset['type'], { columns, data, crs }: SpatialTable): Dataset =>
+  ({ name: file.name, type, columns, data, rowCount: data.length, size: describeSize(file.size), rawSize: file.size, crs });
+
+const loadLayers = async (file: File, format: LayeredFormat, options: ShapefileOptions): Promise<Dataset> =>
+  fileDataset(file, format, format === 'shapefile' ? await parseShapefile(file, options) : await parseGeoPackage(file, options));
+
+// Shapefile layers with a projection other than WGS84 can be converted to longitude/latitude on load
+const canReproject = (pending: PendingLayers) => pending.format === 'shapefile' && pending.layers.some(l => l.crs && !isWGS84(l.crs));
+
+interface PendingWorkbook {
+  file: File;
+  workbook: WorkBook;
+  sheets: ExcelSheet[];
+  selected: string[];
+  headerRow: string; // Empty for the detected row
+  range: string; // Empty for each sheet's used range
+}
+
+interface PendingPdf {
+  file: File;
+  pages: PdfPage[];
+  detected: number[]; // Column boundaries found by the layout analysis
+  boundaries: number[]; // As adjusted by the user
+  hasHeader: boolean;
+}
+
+interface PendingLayers {
+  file: File;
+  format: LayeredFormat;
+  layers: SpatialLayer[];
+  selected: string[];
+  reproject: boolean;
+}
+
 export const FileUploader: React.FC<FileUploaderProps> = ({ onDataLoaded, datasetLabel, dataset }) => {
   const [activeTab, setActiveTab] = useState<'file' | 'db'>('file');
   
@@ -33,6 +79,10 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onDataLoaded, datase
   const [errorMsg, setErrorMsg] = useState('');
   const [connectionErrorType, setConnectionErrorType] = useState<'none' | 'bridge_unreachable' | 'auth_failed' | 'mixed_content' | 'file_too_large' | 'ssl_error'>('none');
   const [isLoading, setIsLoading] = useState(false);
+  const [pendingLayers, setPendingLayers] = useState<PendingLayers | null>(null);
+  const [csvHasHeader, setCsvHasHeader] = useState(true);
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null);
+  const [pendingPdf, setPendingPdf] = useState<PendingPdf | null>(null);
 
   // Default SSL to false for localhost ease-of-use
   // Pre-filled with user credentials for convenience
@@ -74,18 +124,57 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onDataLoaded, datase
     
     try {
         let newDataset: Dataset;
-        const sizeStr = sizeMB < 1 ? `${(file.size / 1024).toFixed(1)} KB` : `${sizeMB.toFixed(1)} MB`;
+        const sizeStr = describeSize(file.size);
         
-        if (file.name.endsWith('.csv')) {
-            const text = await file.text();
-            const { columns, data } = parseCSV(text);
+        const fileName = file.name.toLowerCase();
+        if (fileName.endsWith('.csv') || fileName.endsWith('.tsv') || fileName.endsWith('.txt')) {
+            const { columns, data } = await parseCSVFile(file, {
+                hasHeader: csvHasHeader,
+                onProgress: fraction => setStatusMsg(`Parsing ${file.name}... ${Math.round(fraction * 100)}%`)
+            });
             newDataset = { name: file.name, type: 'csv', columns, data, rowCount: data.length, size: sizeStr, rawSize: file.size };
-        } else if (file.name.endsWith('.xlsx')) {
-            const { columns, data } = await parseExcel(file);
-            newDataset = { name: file.name, type: 'excel', columns, data, rowCount: data.length, size: sizeStr, rawSize: file.size };
-        } else if (file.name.endsWith('.zip')) {
-            const { columns, data } = await parseShapefile(file);
-            newDataset = { name: file.name, type: 'shapefile', columns, data, rowCount: data.length, size: sizeStr, rawSize: file.size };
+        } else if (fileName.endsWith('.xlsx') || fileName.endsWith('.xlsm') || fileName.endsWith('.xls') || fileName.endsWith('.ods')) {
+            // Sheet, header row and range are chosen before the rows are read
+            const workbook = await openWorkbook(file);
+            const sheets = listExcelSheets(workbook);
+            setPendingWorkbook({ file, workbook, sheets, selected: sheets.slice(0, 1).map(s => s.name), headerRow: '', range: '' });
+            setIsLoading(false);
+            setStatusMsg('');
+            return;
+        } else if (fileName.endsWith('.pdf')) {
+            // Column boundaries are confirmed against a preview before the rows are built
+            const pages = await openPdf(file);
+            const detected = detectPdfColumns(pages);
+            setPendingPdf({ file, pages, detected, boundaries: detected, hasHeader: csvHasHeader });
+            setIsLoading(false);
+            setStatusMsg('');
+            return;
+        } else if (fileName.endsWith('.zip') || fileName.endsWith('.gpkg')) {
+            const format: LayeredFormat = fileName.endsWith('.zip') ? 'shapefile' : 'geopackage';
+            const layers = format === 'shapefile' ? await listShapefileLayers(file) : await listGeoPackageLayers(file);
+            const pending: PendingLayers = { file, format, layers, selected: layers.map(l => l.name), reproject: true };
+            // Several layers or a projection to convert: let the user choose before loading
+            if (layers.length > 1 || canReproject(pending)) {
+                setPendingLayers(pending);
+                setIsLoading(false);
+                setStatusMsg('');
+                return;
+            }
+            newDataset = await loadLayers(file, format, {});
+        } else if (fileName.endsWith('.geojson')) {
+            newDataset = fileDataset(file, 'geojson', parseGeoJSON(await file.text()));
+        } else if (fileName.endsWith('.json')) {
+            // GeoJSON is often saved as .json; anything else is read as records
+            const json = readJSON(await file.text());
+            newDataset = isGeoJSON(json) ? fileDataset(file, 'geojson', geoJSONTable(json)) : fileDataset(file, 'json', parseJSONRecords(json));
+        } else if (fileName.endsWith('.ndjson') || fileName.endsWith('.jsonl')) {
+            newDataset = fileDataset(file, 'json', parseNDJSON(await file.text()));
+        } else if (fileName.endsWith('.parquet') || fileName.endsWith('.pq')) {
+            newDataset = fileDataset(file, 'parquet', await parseParquet(file));
+        } else if (['.arrow', '.arrows', '.feather', '.ipc'].some(ext => fileName.endsWith(ext))) {
+            newDataset = fileDataset(file, 'arrow', await parseArrow(file));
+        } else if (fileName.endsWith('.kml') || fileName.endsWith('.kmz')) {
+            newDataset = fileDataset(file, 'kml', await parseKML(file));
         } else {
              throw new Error("Unsupported file type");
         }
@@ -102,6 +191,69 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onDataLoaded, datase
     }
   };
 
+  const loadPendingLayers = async () => {
+    if (!pendingLayers) return;
+    const { file, format, selected, reproject } = pendingLayers;
+    setErrorMsg('');
+    setIsLoading(true);
+    setStatusMsg(`Parsing ${file.name}...`);
+    try {
+        const newDataset = await loadLayers(file, format, { layers: selected, reproject });
+        setPendingLayers(null);
+        onDataLoaded(newDataset);
+    } catch (e: any) {
+        setErrorMsg('Error parsing file: ' + e.message);
+    }
+    setIsLoading(false);
+    setStatusMsg('');
+  };
+
+  const loadPendingWorkbook = () => {
+    if (!pendingWorkbook) return;
+    const { file, workbook, selected, headerRow, range } = pendingWorkbook;
+    setErrorMsg('');
+    try {
+        const { columns, data } = parseWorkbook(workbook, {
+            sheets: selected,
+            headerRow: headerRow ? parseInt(headerRow, 10) : undefined,
+            range: range.trim() || undefined
+        });
+        setPendingWorkbook(null);
+        onDataLoaded({ name: file.name, type: 'excel', columns, data, rowCount: data.length, size: describeSize(file.size), rawSize: file.size });
+    } catch (e: any) {
+        setErrorMsg('Error parsing file: ' + e.message);
+    }
+  };
+
+  const loadPendingPdf = () => {
+    if (!pendingPdf) return;
+    const { file, pages, boundaries, hasHeader } = pendingPdf;
+    setErrorMsg('');
+    try {
+        const { columns, data } = parsePDF(pages, { boundaries, hasHeader });
+        if (data.length === 0) throw new Error('No table rows found with these columns.');
+        setPendingPdf(null);
+        onDataLoaded({ name: file.name, type: 'pdf', columns, data, rowCount: data.length, size: describeSize(file.size), rawSize: file.size });
+    } catch (e: any) {
+        setErrorMsg('Error parsing file: ' + e.message);
+    }
+  };
+
+  const togglePendingSheet = (name: string) => {
+    setPendingWorkbook(p => p && {
+        ...p,
+        // Kept in workbook order so combined sheets are read in the order they appear
+        selected: p.sheets.map(s => s.name).filter(n => n === name ? !p.selected.includes(n) : p.selected.includes(n))
+    });
+  };
+
+  const togglePendingLayer = (name: string) => {
+    setPendingLayers(p => p && {
+        ...p,
+        selected: p.selected.includes(name) ? p.selected.filter(n => n !== name) : [...p.selected, name]
+    });
+  };
+
   const checkNetworkOnly = async () => {
       setErrorMsg('');
       setConnectionErrorType('none');
@@ -301,8 +453,9 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onDataLoaded, datase
              const newDataset: Dataset = {
                 name: table,
                 type: 'postgis',
-                columns: res.columns.map((c: any) => ({ name: c.name, type: 'text' })), 
-                data: res.data.map((row: any, i: number) => ({ ...row, id: String(i) })),
+                // PostGIS returns geometry columns as hex EWKB, which infers as geometry
+                columns: inferColumns(res.columns.map((c: any) => c.name), res.data),
+                data: res.data.map((row: any, i: number) => ({ ...row, _rowId: String(i) })),
                 rowCount: res.data.length,
                 size: 'Live Connection'
              };
@@ -326,7 +479,13 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onDataLoaded, datase
                     Replace Source
                 </Button>
             </div>
-            <DataPreview dataset={dataset} />
+            <DataPreview
+                dataset={dataset}
+                onColumnTypeChange={(name, type) => onDataLoaded({
+                    ...dataset,
+                    columns: dataset.columns.map(c => (c.name === name ? { ...c, type, overridden: true } : c)),
+                })}
+            />
           </div>
       ) : (
         <Card className="overflow-hidden">
@@ -346,7 +505,147 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onDataLoaded, datase
           </div>
 
           <div className="p-6">
-            {activeTab === 'file' ? (
+            {activeTab === 'file' && pendingWorkbook && !isLoading ? (
+              <div className="border border-slate-200 rounded-lg p-4 space-y-3">
+                <div>
+                    <p className="text-sm font-medium text-slate-900">{pendingWorkbook.file.name}</p>
+                    <p className="text-xs text-slate-500">Choose the sheets to load. Several sheets are combined into one table with a "sheet" column.</p>
+                </div>
+                <div className="max-h-48 overflow-y-auto border border-slate-200 rounded-md divide-y divide-slate-100 custom-scrollbar">
+                    {pendingWorkbook.sheets.map(sheet => (
+                        <label key={sheet.name} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-slate-50">
+                            <input
+                                type="checkbox"
+                                checked={pendingWorkbook.selected.includes(sheet.name)}
+                                onChange={() => togglePendingSheet(sheet.name)}
+                                className="rounded border-slate-300 h-4 w-4"
+                            />
+                            <span className="flex-1 truncate text-slate-700">{sheet.name}</span>
+                            <span className="text-[10px] text-slate-400 font-mono">{sheet.range ?? 'Empty'}</span>
+                        </label>
+                    ))}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className="text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1 block">Header Row</label>
+                        <Input
+                            type="number"
+                            min={1}
+                            value={pendingWorkbook.headerRow}
+                            placeholder={`Auto (row ${pendingWorkbook.sheets.find(s => pendingWorkbook.selected.includes(s.name))?.headerRow ?? 1})`}
+                            onChange={(e) => setPendingWorkbook({ ...pendingWorkbook, headerRow: e.target.value })}
+                            className="h-8 text-xs"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1 block">Cell Range</label>
+                        <Input
+                            value={pendingWorkbook.range}
+                            placeholder="Whole sheet, e.g. B3:H200"
+                            onChange={(e) => setPendingWorkbook({ ...pendingWorkbook, range: e.target.value })}
+                            className="h-8 text-xs font-mono"
+                        />
+                    </div>
+                </div>
+                {errorMsg && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-start gap-2">
+                        <AlertCircle size={16} className="text-red-500 mt-0.5 shrink-0" />
+                        <span className="text-xs text-red-600">{errorMsg}</span>
+                    </div>
+                )}
+                <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => { setPendingWorkbook(null); setErrorMsg(''); }}>Cancel</Button>
+                    <Button size="sm" onClick={loadPendingWorkbook} disabled={pendingWorkbook.selected.length === 0}>
+                        Load {pendingWorkbook.selected.length} {pendingWorkbook.selected.length === 1 ? 'Sheet' : 'Sheets'}
+                    </Button>
+                </div>
+              </div>
+            ) : activeTab === 'file' && pendingPdf && !isLoading ? (
+              <div className="border border-slate-200 rounded-lg p-4 space-y-3">
+                <div>
+                    <p className="text-sm font-medium text-slate-900">{pendingPdf.file.name}</p>
+                    <p className="text-xs text-slate-500">Check the column boundaries. Titles and page footers are left out, and headers repeated on later pages are skipped.</p>
+                </div>
+                <PdfColumnEditor
+                    pages={pendingPdf.pages}
+                    boundaries={pendingPdf.boundaries}
+                    hasHeader={pendingPdf.hasHeader}
+                    onChange={(boundaries) => setPendingPdf({ ...pendingPdf, boundaries })}
+                />
+                <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-xs text-slate-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={pendingPdf.hasHeader}
+                            onChange={(e) => setPendingPdf({ ...pendingPdf, hasHeader: e.target.checked })}
+                            className="rounded border-slate-300 h-4 w-4"
+                        />
+                        First row is a header
+                    </label>
+                    <button
+                        onClick={() => setPendingPdf({ ...pendingPdf, boundaries: pendingPdf.detected })}
+                        disabled={pendingPdf.boundaries === pendingPdf.detected}
+                        className="text-xs text-slate-500 hover:text-slate-900 disabled:opacity-40"
+                    >
+                        Reset to detected columns
+                    </button>
+                </div>
+                {errorMsg && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-start gap-2">
+                        <AlertCircle size={16} className="text-red-500 mt-0.5 shrink-0" />
+                        <span className="text-xs text-red-600">{errorMsg}</span>
+                    </div>
+                )}
+                <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => { setPendingPdf(null); setErrorMsg(''); }}>Cancel</Button>
+                    <Button size="sm" onClick={loadPendingPdf}>Load Table</Button>
+                </div>
+              </div>
+            ) : activeTab === 'file' && pendingLayers && !isLoading ? (
+              <div className="border border-slate-200 rounded-lg p-4 space-y-3">
+                <div>
+                    <p className="text-sm font-medium text-slate-900">{pendingLayers.file.name}</p>
+                    <p className="text-xs text-slate-500">Choose the layers to load. Several layers are combined into one table with a "layer" column.</p>
+                </div>
+                <div className="max-h-48 overflow-y-auto border border-slate-200 rounded-md divide-y divide-slate-100 custom-scrollbar">
+                    {pendingLayers.layers.map(layer => (
+                        <label key={layer.name} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-slate-50">
+                            <input
+                                type="checkbox"
+                                checked={pendingLayers.selected.includes(layer.name)}
+                                onChange={() => togglePendingLayer(layer.name)}
+                                className="rounded border-slate-300 h-4 w-4"
+                            />
+                            <span className="flex-1 truncate text-slate-700">{layer.name}</span>
+                            <span className="text-[10px] text-slate-400">{layer.crs ? describeCrs(layer.crs) : 'Unknown projection'}</span>
+                        </label>
+                    ))}
+                </div>
+                {canReproject(pendingLayers) && (
+                    <label className="flex items-center gap-2 text-xs text-slate-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={pendingLayers.reproject}
+                            onChange={(e) => setPendingLayers({ ...pendingLayers, reproject: e.target.checked })}
+                            className="rounded border-slate-300 h-4 w-4"
+                        />
+                        Reproject to WGS84 (longitude/latitude)
+                    </label>
+                )}
+                {errorMsg && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-start gap-2">
+                        <AlertCircle size={16} className="text-red-500 mt-0.5 shrink-0" />
+                        <span className="text-xs text-red-600">{errorMsg}</span>
+                    </div>
+                )}
+                <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => { setPendingLayers(null); setErrorMsg(''); }}>Cancel</Button>
+                    <Button size="sm" onClick={loadPendingLayers} disabled={pendingLayers.selected.length === 0}>
+                        Load {pendingLayers.selected.length} {pendingLayers.selected.length === 1 ? 'Layer' : 'Layers'}
+                    </Button>
+                </div>
+              </div>
+            ) : activeTab === 'file' ? (
               <div 
                 className="border-2 border-dashed border-slate-200 rounded-lg p-8 text-center hover:bg-slate-50 transition-colors"
                 onDragOver={(e) => e.preventDefault()}
@@ -366,14 +665,23 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onDataLoaded, datase
                         <Upload className="text-slate-500" size={20} />
                     </div>
                     <p className="text-slate-900 font-medium mb-1">Click to upload or drag and drop</p>
-                    <p className="text-slate-500 text-xs mb-1">CSV, Excel, Zip (Shapefile)</p>
-                    <p className="text-slate-400 text-[10px] mb-4">Max size: {MAX_FILE_SIZE_MB}MB</p>
+                    <p className="text-slate-500 text-xs mb-1">CSV/TSV, Excel, PDF tables, JSON/NDJSON, Parquet, Arrow/Feather, Zip (Shapefile), GeoJSON, GeoPackage, KML/KMZ</p>
+                    <p className="text-slate-400 text-[10px] mb-3">Max size: {MAX_FILE_SIZE_MB}MB</p>
+                    <label className="flex items-center justify-center gap-2 text-xs text-slate-600 mb-4 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={csvHasHeader}
+                            onChange={(e) => setCsvHasHeader(e.target.checked)}
+                            className="rounded border-slate-300 h-3.5 w-3.5"
+                        />
+                        CSV and PDF first row is a header
+                    </label>
                     
                     <input 
                         type="file" 
                         id={`file-${datasetLabel}`} 
                         className="hidden" 
-                        accept=".csv,.xlsx,.zip"
+                        accept=".csv,.tsv,.txt,.xlsx,.xlsm,.xls,.ods,.pdf,.json,.ndjson,.jsonl,.parquet,.pq,.arrow,.arrows,.feather,.ipc,.zip,.geojson,.gpkg,.kml,.kmz"
                         onChange={(e) => e.target.files && handleFile(e.target.files[0])}
                     />
                     <label htmlFor={`file-${datasetLabel}`}>
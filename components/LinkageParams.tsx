@@ -0,0 +1,105 @@
+import React from 'react';
+import { Loader2, Sigma, RotateCcw } from 'lucide-react';
+import { ComparisonLevel, FellegiSunterParams, JoinKeyPair } from '../types';
+import { COMPARISON_LEVELS, LEVEL_LABELS, levelWeight } from '../fellegiSunter';
+import { Button } from './ui/Components';
+
+interface LinkageParamsProps {
+  params?: FellegiSunterParams;
+  joinKeys: JoinKeyPair[];
+  matchThreshold: number;
+  isEstimating: boolean;
+  onEstimate: () => void;
+  onChange: (params: FellegiSunterParams | undefined) => void;
+  onThresholdChange: (threshold: number) => void;
+}
+
+export const LinkageParams: React.FC<LinkageParamsProps> = ({ params, joinKeys, matchThreshold, isEstimating, onEstimate, onChange, onThresholdChange }) => {
+  const updateProbability = (keyId: string, side: 'm' | 'u', level: ComparisonLevel, value: number) => {
+    if (!params || isNaN(value)) return;
+    const key = params.keys[keyId];
+    onChange({
+      ...params,
+      keys: { ...params.keys, [keyId]: { ...key, [side]: { ...key[side], [level]: Math.min(1, Math.max(0, value)) } } }
+    });
+  };
+
+  return (
+    <div className="mt-4 bg-slate-50 rounded-lg border border-slate-100 p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1"><Sigma size={12} /> Linkage Parameters</h4>
+          <p className="text-[11px] text-slate-500 mt-1">
+            {params
+              ? `Match prior ${(params.lambda * 100).toFixed(2)}% • ${params.pairCount.toLocaleString()} pairs • ${params.iterations} EM iterations${params.converged ? '' : ' (not converged)'}`
+              : 'Not estimated yet. They are learned automatically when the join runs.'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {params && (
+            <Button variant="ghost" size="sm" onClick={() => onChange(undefined)} title="Discard and re-estimate on the next run">
+              <RotateCcw size={14} />
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={onEstimate} disabled={isEstimating || joinKeys.some(k => !k.left || !k.right)}>
+            {isEstimating && <Loader2 size={14} className="animate-spin mr-1" />}
+            {params ? 'Re-estimate' : 'Estimate from Data'}
+          </Button>
+        </div>
+      </div>
+
+      {params && joinKeys.filter(kp => params.keys[kp.id]).map(kp => (
+        <div key={kp.id} className="overflow-x-auto">
+          <div className="text-xs font-semibold text-slate-700 mb-1">{kp.left} ↔ {kp.right}</div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left font-medium py-1">Level</th>
+                <th className="text-left font-medium py-1">m</th>
+                <th className="text-left font-medium py-1">u</th>
+                <th className="text-right font-medium py-1">Weight</th>
+              </tr>
+            </thead>
+            <tbody>
+              {COMPARISON_LEVELS.map(level => {
+                const key = params.keys[kp.id];
+                const weight = levelWeight(key, level);
+                return (
+                  <tr key={level} className="border-t border-slate-100">
+                    <td className="py-1 text-slate-600">{LEVEL_LABELS[level]}</td>
+                    {(['m', 'u'] as const).map(side => (
+                      <td key={side} className="py-1 pr-2">
+                        <input
+                          type="number" min="0" max="1" step="0.01"
+                          value={Number(key[side][level].toFixed(4))}
+                          onChange={e => updateProbability(kp.id, side, level, parseFloat(e.target.value))}
+                          className="w-20 h-7 rounded border border-slate-200 bg-white px-2 font-mono"
+                        />
+                      </td>
+                    ))}
+                    <td className={`py-1 text-right font-mono ${weight >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                      {weight >= 0 ? '+' : ''}{weight.toFixed(2)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      <div>
+        <div className="flex justify-between text-xs mb-2">
+          <span>Minimum Match Probability</span>
+          <span className="font-mono">{(matchThreshold * 100).toFixed(0)}%</span>
+        </div>
+        <input
+          type="range" min="50" max="99"
+          value={Math.round(matchThreshold * 100)}
+          onChange={e => onThresholdChange(parseInt(e.target.value) / 100)}
+          className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+      </div>
+    </div>
+  );
+};
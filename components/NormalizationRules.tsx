@@ -0,0 +1,135 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Trash2, ArrowRight } from 'lucide-react';
+import { NormalizationConfig, NormalizationRule, NormalizationRuleType } from '../types';
+import { RULE_LABELS, createRule, regexError } from '../normalizationRules';
+import { normalizeString } from '../utils';
+import { Input } from './ui/Components';
+
+interface NormalizationRulesProps {
+  normalization: NormalizationConfig;
+  samples: string[]; // Raw values shown in the before/after preview
+  onChange: (rules: NormalizationRule[]) => void;
+}
+
+const parseWords = (text: string) => text.split(/[,\n]/).map(w => w.trim().toLowerCase()).filter(Boolean);
+
+// One "abbreviation = expansion" pair per line
+const parseDictionary = (text: string): Record<string, string> => {
+  const dictionary: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const [from, ...to] = line.split('=');
+    if (from?.trim() && to.length > 0) dictionary[from.trim().toLowerCase()] = to.join('=').trim();
+  });
+  return dictionary;
+};
+
+const formatDictionary = (dictionary: Record<string, string>) =>
+  Object.entries(dictionary).map(([from, to]) => `${from} = ${to}`).join('\n');
+
+const fieldClass = 'w-full rounded border border-slate-200 bg-white px-2 py-1 text-xs font-mono';
+
+export const NormalizationRules: React.FC<NormalizationRulesProps> = ({ normalization, samples, onChange }) => {
+  const rules = normalization.rules;
+
+  const updateRule = (index: number, rule: NormalizationRule) => onChange(rules.map((r, i) => (i === index ? rule : r)));
+  const removeRule = (index: number) => onChange(rules.filter((_, i) => i !== index));
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const renderFields = (rule: NormalizationRule, index: number) => {
+    switch (rule.type) {
+      case 'regexReplace': {
+        const error = regexError(rule.pattern, rule.flags);
+        return (
+          <div className="space-y-1">
+            <div className="grid grid-cols-[1fr_1fr_3rem] gap-1">
+              <Input placeholder="Pattern" value={rule.pattern} onChange={e => updateRule(index, { ...rule, pattern: e.target.value })} className="h-7 text-xs font-mono" />
+              <Input placeholder="Replacement" value={rule.replacement} onChange={e => updateRule(index, { ...rule, replacement: e.target.value })} className="h-7 text-xs font-mono" />
+              <Input placeholder="gi" value={rule.flags} onChange={e => updateRule(index, { ...rule, flags: e.target.value })} className="h-7 text-xs font-mono" />
+            </div>
+            {error && <p className="text-[10px] text-red-500">{error}</p>}
+          </div>
+        );
+      }
+      case 'stopWords':
+        return (
+          <textarea
+            key={rule.id}
+            rows={2}
+            defaultValue={rule.words.join(', ')}
+            onBlur={e => updateRule(index, { ...rule, words: parseWords(e.target.value) })}
+            placeholder="the, ltd, inc"
+            className={fieldClass}
+          />
+        );
+      case 'abbreviations':
+        return (
+          <textarea
+            key={rule.id}
+            rows={3}
+            defaultValue={formatDictionary(rule.dictionary)}
+            onBlur={e => updateRule(index, { ...rule, dictionary: parseDictionary(e.target.value) })}
+            placeholder="st = street"
+            className={fieldClass}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-slate-400 uppercase">Custom Rules</span>
+        <select
+          value=""
+          onChange={e => e.target.value && onChange([...rules, createRule(e.target.value as NormalizationRuleType)])}
+          className="h-7 rounded border border-slate-200 bg-white px-2 text-xs text-slate-600"
+        >
+          <option value="">+ Add rule</option>
+          {(Object.keys(RULE_LABELS) as NormalizationRuleType[]).map(type => (
+            <option key={type} value={type}>{RULE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {rules.length === 0 && <p className="text-[11px] text-slate-400">No custom rules. They run in order after case and Unicode folding.</p>}
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="rounded border border-slate-200 bg-white p-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-mono text-slate-400">{index + 1}</span>
+            <span className="text-xs font-medium text-slate-700 flex-1">{RULE_LABELS[rule.type]}</span>
+            <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move up"><ArrowUp size={12} /></button>
+            <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move down"><ArrowDown size={12} /></button>
+            <button onClick={() => removeRule(index)} className="text-slate-400 hover:text-red-500" title="Remove"><Trash2 size={12} /></button>
+          </div>
+          {renderFields(rule, index)}
+        </div>
+      ))}
+
+      {samples.length > 0 && (
+        <div>
+          <span className="text-[10px] font-bold text-slate-400 uppercase">Preview</span>
+          <div className="mt-1 rounded border border-slate-100 bg-white divide-y divide-slate-50">
+            {samples.map((sample, i) => (
+              <div key={i} className="grid grid-cols-[1fr_auto_1fr] items-center gap-2 px-2 py-1 text-xs">
+                <span className="truncate text-slate-500" title={sample}>{sample}</span>
+                <ArrowRight size={10} className="text-slate-300" />
+                <span className="truncate font-mono text-slate-800" title={normalizeString(sample, normalization)}>
+                  {normalizeString(sample, normalization) || <span className="text-slate-300 italic">empty</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
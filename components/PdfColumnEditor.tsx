@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { PdfPage, extractPdfTable } from '../pdf';
+
+interface PdfColumnEditorProps {
+  pages: PdfPage[];
+  boundaries: number[]; // Points from the left edge of the page
+  hasHeader: boolean;
+  onChange: (boundaries: number[]) => void;
+}
+
+const LINE_HEIGHT = 18; // Pixels per text line; lines are stacked rather than drawn at their true height
+const MAX_LINES = 60;
+const PREVIEW_ROWS = 6;
+
+// Shows a page's text at its horizontal positions with the column boundaries over it
+export const PdfColumnEditor: React.FC<PdfColumnEditorProps> = ({ pages, boundaries, hasHeader, onChange }) => {
+  // Start on the first page that looks like it holds a table
+  const [pageIndex, setPageIndex] = useState(() => Math.max(0, pages.findIndex(p => p.lines.some(l => l.runs.length > 1))));
+  const page = pages[pageIndex];
+  const lines = page.lines.slice(0, MAX_LINES);
+  const percent = (x: number) => `${(x / page.width) * 100}%`;
+
+  const rows = useMemo(() => extractPdfTable(pages, boundaries, hasHeader), [pages, boundaries, hasHeader]);
+
+  const addBoundary = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * page.width;
+    onChange([...boundaries, x].sort((a, b) => a - b));
+  };
+
+  const removeBoundary = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    onChange(boundaries.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-slate-500">
+        <span>Click to add a column boundary, click a boundary to remove it.</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setPageIndex(i => Math.max(0, i - 1))}
+            disabled={pageIndex === 0}
+            className="p-0.5 rounded hover:bg-slate-100 disabled:opacity-30"
+            title="Previous page"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span>Page {pageIndex + 1} of {pages.length}</span>
+          <button
+            onClick={() => setPageIndex(i => Math.min(pages.length - 1, i + 1))}
+            disabled={pageIndex === pages.length - 1}
+            className="p-0.5 rounded hover:bg-slate-100 disabled:opacity-30"
+            title="Next page"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto border border-slate-200 rounded-md bg-white custom-scrollbar">
+        <div
+          className="relative cursor-crosshair select-none"
+          style={{ height: Math.max(lines.length, 1) * LINE_HEIGHT }}
+          onClick={addBoundary}
+        >
+          {lines.map((line, l) => line.runs.map((run, r) => (
+            <span
+              key={`${l}-${r}`}
+              className="absolute text-[10px] leading-[18px] text-slate-700 bg-slate-100 rounded-sm px-0.5 truncate"
+              style={{ top: l * LINE_HEIGHT, left: percent(run.x), width: percent(run.right - run.x), minWidth: 4 }}
+              title={run.text}
+            >
+              {run.text}
+            </span>
+          )))}
+          {boundaries.map((x, i) => (
+            <div
+              key={i}
+              className="absolute top-0 bottom-0 w-2 -ml-1 cursor-pointer group"
+              style={{ left: percent(x) }}
+              onClick={(e) => removeBoundary(e, i)}
+              title="Remove this boundary"
+            >
+              <div className="mx-auto h-full w-px bg-blue-500 group-hover:bg-red-500" />
+            </div>
+          ))}
+          {lines.length === 0 && <p className="p-3 text-xs text-slate-400">No text on this page.</p>}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto border border-slate-200 rounded-md">
+        <table className="w-full text-[10px]">
+          <tbody className="divide-y divide-slate-100">
+            {rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+              <tr key={r} className={r === 0 && hasHeader ? 'bg-slate-50 font-semibold text-slate-700' : 'text-slate-600'}>
+                {row.map((cell, c) => <td key={c} className="px-2 py-1 whitespace-nowrap max-w-[10rem] truncate">{cell}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] text-slate-400">
+        {boundaries.length + 1} columns, {Math.max(0, rows.length - (hasHeader ? 1 : 0)).toLocaleString()} rows across {pages.length} {pages.length === 1 ? 'page' : 'pages'}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { Dataset, MatchResultRow } from '../types';
+import { BBox, Position, Shape, isGeographic, parseGeometry } from '../geometry';
+
+export type MapSide = 'master' | 'target';
+
+interface ResultsMapProps {
+  tableA: Dataset;
+  tableB: Dataset;
+  masterColumn?: string; // Geometry column per table; a table without one is not drawn
+  targetColumn?: string;
+  rows: MatchResultRow[];
+  onSelect: (side: MapSide, rowId: string) => void;
+}
+
+interface MapFeature {
+  key: string;
+  side: MapSide;
+  rowId: string;
+  matched: boolean;
+  shape: Shape;
+}
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const PADDING = 16;
+const MAX_FEATURES = 5000; // Per table; SVG gets sluggish beyond this
+const ZOOM_STEP = 1.5;
+
+const COLOURS = {
+  matched: '#16a34a',
+  unmatchedMaster: '#dc2626',
+  unmatchedTarget: '#d97706',
+  link: '#64748b',
+};
+
+const featureColour = (f: MapFeature) => (f.matched ? COLOURS.matched : f.side === 'master' ? COLOURS.unmatchedMaster : COLOURS.unmatchedTarget);
+
+const centre = (b: BBox): Position => [(b.minX + b.maxX) / 2, (b.minY + b.maxY) / 2];
+
+// Fits the features into the drawing area; longitudes are shrunk by cos(latitude) so shapes keep their proportions
+const fitProjection = (features: MapFeature[], geographic?: boolean): ((p: Position) => Position) => {
+  const bbox = features.reduce<BBox>((acc, f) => ({
+    minX: Math.min(acc.minX, f.shape.bbox.minX),
+    minY: Math.min(acc.minY, f.shape.bbox.minY),
+    maxX: Math.max(acc.maxX, f.shape.bbox.maxX),
+    maxY: Math.max(acc.maxY, f.shape.bbox.maxY),
+  }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+
+  const xScale = (geographic ?? isGeographic(bbox)) ? Math.cos((((bbox.minY + bbox.maxY) / 2) * Math.PI) / 180) : 1;
+  const spanX = (bbox.maxX - bbox.minX) * xScale || 1;
+  const spanY = bbox.maxY - bbox.minY || 1;
+  const scale = Math.min((WIDTH - 2 * PADDING) / spanX, (HEIGHT - 2 * PADDING) / spanY);
+  const offsetX = (WIDTH - spanX * scale) / 2;
+  const offsetY = (HEIGHT - spanY * scale) / 2;
+
+  return ([x, y]) => [offsetX + (x - bbox.minX) * xScale * scale, HEIGHT - offsetY - (y - bbox.minY) * scale];
+};
+
+const toPath = (shape: Shape, project: (p: Position) => Position): string => {
+  const ring = (positions: Position[]) => 'M' + positions.map(p => project(p).map(v => v.toFixed(1)).join(' ')).join('L');
+  return [
+    ...shape.lines.map(ring),
+    ...shape.polygons.map(rings => rings.map(r => ring(r) + 'Z').join('')),
+  ].join('');
+};
+
+/**
+ * Master and Target geometries coloured by match status, with a line from each Master
+ * feature to its matched Target. Drawn as plain SVG, so it needs no basemap or network.
+ */
+export const ResultsMap: React.FC<ResultsMapProps> = ({ tableA, tableB, masterColumn, targetColumn, rows, onSelect }) => {
+  const [view, setView] = useState({ scale: 1, x: 0, y: 0 });
+  const [selected, setSelected] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  const { features, links, truncated } = useMemo(() => {
+    const matchedMasters = new Set<string>();
+    const matchedTargets = new Set<string>();
+    const pairs: Array<[string, string]> = [];
+    rows.forEach(row => {
+      if (row._matchStatus !== 'matched' || !row._targetId) return;
+      matchedMasters.add(row._rowId);
+      matchedTargets.add(row._targetId);
+      pairs.push([row._rowId, row._targetId]);
+    });
+
+    const collect = (dataset: Dataset, column: string | undefined, side: MapSide, matched: Set<string>): MapFeature[] => {
+      if (!column) return [];
+      const result: MapFeature[] = [];
+      for (const row of dataset.data.slice(0, MAX_FEATURES)) {
+        const shape = parseGeometry(row[column]);
+        if (shape) result.push({ key: `${side}:${row._rowId}`, side, rowId: row._rowId, matched: matched.has(row._rowId), shape });
+      }
+      return result;
+    };
+
+    const all = [
+      ...collect(tableB, targetColumn, 'target', matchedTargets),
+      ...collect(tableA, masterColumn, 'master', matchedMasters),
+    ];
+    const byKey = new Map(all.map(f => [f.key, f]));
+    const linked = pairs
+      .map(([masterId, targetId]) => [byKey.get(`master:${masterId}`), byKey.get(`target:${targetId}`)])
+      .filter((pair): pair is [MapFeature, MapFeature] => !!pair[0] && !!pair[1]);
+
+    return {
+      features: all,
+      links: linked,
+      truncated: (masterColumn !== undefined && tableA.data.length > MAX_FEATURES) || (targetColumn !== undefined && tableB.data.length > MAX_FEATURES),
+    };
+  }, [tableA, tableB, masterColumn, targetColumn, rows]);
+
+  const drawn = useMemo(() => {
+    const project = fitProjection(features, tableA.crs?.geographic ?? tableB.crs?.geographic);
+    return {
+      features: features.map(f => ({
+        feature: f,
+        path: toPath(f.shape, project),
+        points: f.shape.points.map(project),
+      })),
+      links: links.map(([a, b]) => [project(centre(a.shape.bbox)), project(centre(b.shape.bbox))]),
+    };
+  }, [features, links, tableA, tableB]);
+
+  // Converts a screen distance to drawing units; the SVG is scaled to its container width
+  const toDrawingUnits = (pixels: number) => {
+    const width = svgRef.current?.getBoundingClientRect().width || WIDTH;
+    return (pixels * WIDTH) / width;
+  };
+
+  const zoom = (factor: number) => {
+    setView(v => ({
+      scale: v.scale * factor,
+      x: WIDTH / 2 - (WIDTH / 2 - v.x) * factor,
+      y: HEIGHT / 2 - (HEIGHT / 2 - v.y) * factor,
+    }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    drag.current = { x: e.clientX, y: e.clientY, moved: false };
+  };
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag.current) return;
+    const dx = e.clientX - drag.current.x;
+    const dy = e.clientY - drag.current.y;
+    if (!drag.current.moved && Math.hypot(dx, dy) < 3) return;
+    drag.current = { x: e.clientX, y: e.clientY, moved: true };
+    setView(v => ({ ...v, x: v.x + toDrawingUnits(dx), y: v.y + toDrawingUnits(dy) }));
+  };
+  const handlePointerUp = () => {
+    // Cleared after the click event, which needs to know whether this was a drag
+    setTimeout(() => { drag.current = null; }, 0);
+  };
+
+  const handleFeatureClick = (f: MapFeature) => {
+    if (drag.current?.moved) return;
+    setSelected(f.key);
+    onSelect(f.side, f.rowId);
+  };
+
+  const counts = {
+    matched: features.filter(f => f.side === 'master' && f.matched).length,
+    unmatchedMaster: features.filter(f => f.side === 'master' && !f.matched).length,
+    unmatchedTarget: features.filter(f => f.side === 'target' && !f.matched).length,
+  };
+
+  if (features.length === 0) {
+    return <p className="p-6 text-sm text-slate-400 text-center">No readable geometries in the geometry columns.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-lg border border-slate-200 bg-slate-50 overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto cursor-grab active:cursor-grabbing select-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        >
+          <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+            {drawn.features.map(({ feature, path, points }) => {
+              const colour = featureColour(feature);
+              const isSelected = selected === feature.key;
+              const isTarget = feature.side === 'target';
+              return (
+                <g key={feature.key} onClick={() => handleFeatureClick(feature)} className="cursor-pointer">
+                  <title>{`${isTarget ? 'Target' : 'Master'} ${feature.rowId} (${feature.matched ? 'matched' : 'unmatched'})`}</title>
+                  {path && (
+                    <path
+                      d={path}
+                      fill={feature.shape.polygons.length > 0 ? colour : 'none'}
+                      fillOpacity={isTarget ? 0.12 : 0.35}
+                      fillRule="evenodd"
+                      stroke={isSelected ? '#0f172a' : colour}
+                      strokeWidth={isSelected ? 2.5 : 1}
+                      strokeDasharray={isTarget ? '4 2' : undefined}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  )}
+                  {points.map(([cx, cy], i) => (
+                    <circle
+                      key={i}
+                      cx={cx}
+                      cy={cy}
+                      r={(isSelected ? 5 : 3.5) / view.scale}
+                      fill={isTarget ? 'white' : colour}
+                      stroke={isSelected ? '#0f172a' : colour}
+                      strokeWidth={isTarget ? 1.5 : 1}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  ))}
+                </g>
+              );
+            })}
+            {drawn.links.map(([[x1, y1], [x2, y2]], i) => (
+              <line
+                key={i}
+                x1={x1} y1={y1} x2={x2} y2={y2}
+                stroke={COLOURS.link}
+                strokeWidth={1}
+                strokeOpacity={0.6}
+                vectorEffect="non-scaling-stroke"
+                pointerEvents="none"
+              />
+            ))}
+          </g>
+        </svg>
+        <div className="absolute top-2 right-2 flex flex-col gap-1">
+          <button onClick={() => zoom(ZOOM_STEP)} className="p-1 rounded bg-white border border-slate-200 text-slate-600 hover:bg-slate-100" title="Zoom in"><ZoomIn size={14} /></button>
+          <button onClick={() => zoom(1 / ZOOM_STEP)} className="p-1 rounded bg-white border border-slate-200 text-slate-600 hover:bg-slate-100" title="Zoom out"><ZoomOut size={14} /></button>
+          <button onClick={() => setView({ scale: 1, x: 0, y: 0 })} className="p-1 rounded bg-white border border-slate-200 text-slate-600 hover:bg-slate-100" title="Fit all"><Maximize2 size={14} /></button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-[11px] text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm" style={{ background: COLOURS.matched }} /> Matched ({counts.matched})</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm" style={{ background: COLOURS.unmatchedMaster }} /> Unmatched Master ({counts.unmatchedMaster})</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm border border-dashed" style={{ borderColor: COLOURS.unmatchedTarget }} /> Unmatched Target ({counts.unmatchedTarget})</span>
+        <span className="text-slate-400">Solid: Master, dashed: Target. Drag to pan, click a feature to show its row.</span>
+        {truncated && <span className="text-amber-600">Showing the first {MAX_FEATURES.toLocaleString()} features per table.</span>}
+      </div>
+    </div>
+  );
+};
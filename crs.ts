@@ -0,0 +1,69 @@
+import { CoordinateSystem } from './types';
+
+/**
+ * Coordinate reference systems as described by a shapefile's .prj, which holds OGC or
+ * ESRI WKT. Only what the spatial comparators and exports need is extracted: the name,
+ * EPSG code, whether coordinates are degrees, and the size of a projected unit.
+ */
+
+export const WGS84: CoordinateSystem = { name: 'WGS 84', epsg: 4326, geographic: true, metresPerUnit: 1 };
+
+// ESRI .prj files usually carry no AUTHORITY clause, so the common ones are recognised by name
+const ESRI_EPSG: Record<string, number> = {
+  GCS_WGS_1984: 4326,
+  GCS_North_American_1983: 4269,
+  GCS_ETRS_1989: 4258,
+  WGS_1984_Web_Mercator_Auxiliary_Sphere: 3857,
+  British_National_Grid: 27700,
+};
+
+const ROOT_PATTERN = /^\s*(PROJCS|PROJCRS|PROJECTEDCRS|GEOGCS|GEOGCRS|GEOGRAPHICCRS|GEODCRS|GEODETICCRS)\s*\[\s*"([^"]*)"/i;
+const AUTHORITY_PATTERN = /\b(?:AUTHORITY|ID)\s*\[\s*"EPSG"\s*,\s*"?(\d+)"?/gi;
+const UNIT_PATTERN = /\b(?:UNIT|LENGTHUNIT)\s*\[\s*"[^"]*"\s*,\s*([\d.eE+-]+)/gi;
+
+// Bracket depth at `position`; clauses that belong to the root sit at depth 1
+const depthAt = (wkt: string, position: number): number => {
+  let depth = 0;
+  for (let i = 0; i < position; i++) {
+    if (wkt[i] === '[' || wkt[i] === '(') depth++;
+    else if (wkt[i] === ']' || wkt[i] === ')') depth--;
+  }
+  return depth;
+};
+
+const rootClause = (wkt: string, pattern: RegExp): string | undefined => {
+  let found: string | undefined;
+  for (const match of wkt.matchAll(pattern)) {
+    if (depthAt(wkt, match.index ?? 0) === 1) found = match[1];
+  }
+  return found;
+};
+
+export const parsePrj = (wkt: string): CoordinateSystem | null => {
+  const text = wkt.trim();
+  const root = text.match(ROOT_PATTERN);
+  if (!root) return null;
+
+  const geographic = /^GEO/i.test(root[1]);
+  const name = root[2];
+  const authority = rootClause(text, AUTHORITY_PATTERN);
+  const epsg = authority ? parseInt(authority, 10) : ESRI_EPSG[name];
+  const unit = geographic ? undefined : Number(rootClause(text, UNIT_PATTERN));
+
+  return {
+    name: name.replace(/_/g, ' '),
+    epsg,
+    geographic,
+    metresPerUnit: unit && Number.isFinite(unit) && unit > 0 ? unit : 1,
+    wkt: text,
+  };
+};
+
+export const isWGS84 = (crs: CoordinateSystem): boolean => crs.epsg === 4326 || /^(GCS )?WGS[ _]?(19)?84$/i.test(crs.name);
+
+export const sameCrs = (a: CoordinateSystem, b: CoordinateSystem): boolean => {
+  if (a.epsg !== undefined && b.epsg !== undefined) return a.epsg === b.epsg;
+  return a.name.toLowerCase() === b.name.toLowerCase();
+};
+
+export const describeCrs = (crs: CoordinateSystem): string => (crs.epsg ? `${crs.name} (EPSG:${crs.epsg})` : crs.name);
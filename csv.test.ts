@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvParser, detectDelimiter, detectEncoding, readCsvFile } from './csv';
+
+// --- Fixtures ---
+
+// Pushes `chunks` in order and collects the rows
+const parse = (chunks: string[], delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  const parser = createCsvParser(delimiter, fields => rows.push(fields));
+  chunks.forEach(parser.push);
+  parser.end();
+  return rows;
+};
+
+const readFile = async (bytes: Uint8Array<ArrayBuffer> | string, options = {}) => {
+  const rows: string[][] = [];
+  const result = await readCsvFile(new File([bytes], 'data.csv'), options, fields => rows.push(fields));
+  return { ...result, rows };
+};
+
+const QUOTED = 'name,note\r\n"Acme, Inc.","said ""hi""\r\nthen left"\r\nGlobex,\r\n';
+
+// --- Parser ---
+
+describe('createCsvParser', () => {
+  it('reads delimiters, line breaks and escaped quotes inside quoted fields', () => {
+    expect(parse([QUOTED])).toEqual([
+      ['name', 'note'],
+      ['Acme, Inc.', 'said "hi"\r\nthen left'],
+      ['Globex', ''],
+    ]);
+  });
+
+  it('ends rows at CRLF, LF or CR and skips blank lines', () => {
+    expect(parse(['a,b\r\n1,2\n\n3,4\r5,6'])).toEqual([['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']]);
+  });
+
+  it('reads the same rows wherever the text is split into chunks', () => {
+    const whole = parse([QUOTED]);
+    for (let cut = 1; cut < QUOTED.length; cut++) {
+      expect(parse([QUOTED.slice(0, cut), QUOTED.slice(cut)])).toEqual(whole);
+    }
+    expect(parse(Array.from(QUOTED))).toEqual(whole);
+  });
+
+  it('keeps stray quotes as text and a final unterminated field', () => {
+    expect(parse(['5" pipe,"a"b\n"open'])).toEqual([['5" pipe', 'ab'], ['open']]);
+  });
+});
+
+// --- Detection ---
+
+describe('detectDelimiter', () => {
+  it.each([
+    ['name;city\nAcme;Leeds\nGlobex;York\n', ';'],
+    ['name\tcity\nAcme\tLeeds\n', '\t'],
+    ['name|city\nAcme|Leeds\n', '|'],
+    ['"Leeds, UK";Acme\n"York, UK";Globex\n', ';'],
+  ])('detects the delimiter of %j', (sample, delimiter) => {
+    expect(detectDelimiter(sample, true)).toBe(delimiter);
+  });
+
+  it('ignores a last row cut short in a partial sample', () => {
+    expect(detectDelimiter('a;b;c\n1;2;3\n4;5;6\n7', false)).toBe(';');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('reads the BOM, then the zero bytes of UTF-16, then checks for valid UTF-8', () => {
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0]))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0, 0x61, 0, 0x2c, 0, 0x62]))).toBe('utf-16be');
+    expect(detectEncoding(new TextEncoder().encode('café'))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x2c, 0x31]))).toBe('windows-1252');
+  });
+});
+
+// --- Files ---
+
+describe('readCsvFile', () => {
+  it('drops the UTF-8 BOM from the first header', async () => {
+    const { rows, delimiter, encoding } = await readFile('\uFEFFname;city\r\nAcme;Leeds\r\n');
+    expect({ delimiter, encoding }).toEqual({ delimiter: ';', encoding: 'utf-8' });
+    expect(rows).toEqual([['name', 'city'], ['Acme', 'Leeds']]);
+  });
+
+  it('decodes UTF-16 files with a BOM', async () => {
+    const text = 'name,city\nMüller,Köln\n';
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes.set([0xff, 0xfe]);
+    Array.from(text).forEach((ch, i) => bytes.set([ch.charCodeAt(0) & 0xff, ch.charCodeAt(0) >> 8], 2 + i * 2));
+    const { rows, encoding } = await readFile(bytes);
+    expect(encoding).toBe('utf-16le');
+    expect(rows).toEqual([['name', 'city'], ['Müller', 'Köln']]);
+  });
+});
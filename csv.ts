@@ -0,0 +1,206 @@
+/**
+ * RFC 4180 CSV reading: quoted fields may hold delimiters, line breaks and "" escapes.
+ * Files are decoded and parsed in chunks, so a 100 MB export never exists as one string.
+ */
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252',
+};
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+export const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+export interface CsvReadOptions {
+  delimiter?: string; // Detected from the first rows when missing
+  encoding?: CsvEncoding; // Detected from the BOM or the bytes when missing
+  onProgress?: (fraction: number) => void;
+}
+
+export interface CsvParser {
+  push: (text: string) => void;
+  end: () => void;
+}
+
+// --- Parser ---
+
+/**
+ * Incremental parser; `push` accepts text cut at any point, including inside a quoted
+ * field or between "\r" and "\n". Blank lines are skipped. A quote inside an unquoted
+ * field, or text after a closing quote, is kept as it is, as spreadsheet tools do.
+ */
+export const createCsvParser = (delimiter: string, onRow: (fields: string[]) => void): CsvParser => {
+  let fields: string[] = [];
+  let field = '';
+  let state: 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' = 'fieldStart';
+  let skipLF = false;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+  const endRow = () => {
+    endField();
+    if (fields.length > 1 || fields[0] !== '') onRow(fields);
+    fields = [];
+  };
+
+  const push = (text: string) => {
+    let i = 0;
+    if (skipLF && text.length > 0) {
+      if (text[0] === '\n') i = 1;
+      skipLF = false;
+    }
+
+    while (i < text.length) {
+      if (state === 'quoted') {
+        const close = text.indexOf('"', i);
+        if (close < 0) {
+          field += text.slice(i);
+          return;
+        }
+        field += text.slice(i, close);
+        state = 'quoteInQuoted';
+        i = close + 1;
+        continue;
+      }
+      if (state === 'quoteInQuoted') {
+        if (text[i] === '"') {
+          field += '"';
+          state = 'quoted';
+          i++;
+          continue;
+        }
+        state = 'unquoted';
+      }
+      if (state === 'fieldStart' && text[i] === '"') {
+        state = 'quoted';
+        i++;
+        continue;
+      }
+
+      let j = i;
+      while (j < text.length && text[j] !== delimiter && text[j] !== '\n' && text[j] !== '\r') j++;
+      field += text.slice(i, j);
+      if (j === text.length) {
+        state = 'unquoted';
+        return;
+      }
+
+      if (text[j] === delimiter) {
+        endField();
+      } else {
+        endRow();
+        if (text[j] === '\r') {
+          if (j + 1 === text.length) skipLF = true;
+          else if (text[j + 1] === '\n') j++;
+        }
+      }
+      i = j + 1;
+    }
+  };
+
+  // An unterminated quote at the end of the file keeps everything read so far
+  const end = () => {
+    if (field !== '' || fields.length > 0 || state === 'quoted' || state === 'quoteInQuoted') endRow();
+  };
+
+  return { push, end };
+};
+
+// --- Detection ---
+
+const DETECTION_ROWS = 20;
+
+/**
+ * The candidate that splits the sample rows into the same number of fields most often.
+ * `complete` says whether the sample is the whole file; otherwise its last row may be cut short.
+ */
+export const detectDelimiter = (sample: string, complete: boolean): string => {
+  let best = CSV_DELIMITERS[0];
+  let bestScore = 0;
+  for (const candidate of CSV_DELIMITERS) {
+    const counts: number[] = [];
+    const parser = createCsvParser(candidate, fields => counts.push(fields.length));
+    parser.push(sample);
+    if (complete) parser.end();
+    const rows = counts.slice(0, DETECTION_ROWS);
+
+    const frequency = new Map<number, number>();
+    rows.forEach(n => frequency.set(n, (frequency.get(n) ?? 0) + 1));
+    const [fieldCount, consistent] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [1, 0];
+    const score = fieldCount > 1 ? consistent * 1000 + fieldCount : 0;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const UTF16_SAMPLE_BYTES = 1000;
+
+// BOM first; then UTF-16 by its zero bytes, and UTF-8 unless the bytes are invalid UTF-8
+export const detectEncoding = (sample: Uint8Array): CsvEncoding => {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+  const head = sample.subarray(0, UTF16_SAMPLE_BYTES);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  head.forEach((byte, i) => {
+    if (byte === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  });
+  if (oddZeros > head.length * 0.15 && evenZeros === 0) return 'utf-16le';
+  if (evenZeros > head.length * 0.15 && oddZeros === 0) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+// --- Files ---
+
+const SAMPLE_BYTES = 64 * 1024;
+const CHUNK_BYTES = 1024 * 1024;
+
+// Streams `file` through the parser; the BOM, if any, is dropped by the decoder
+export const readCsvFile = async (
+  file: File,
+  options: CsvReadOptions,
+  onRow: (fields: string[]) => void
+): Promise<{ delimiter: string; encoding: CsvEncoding }> => {
+  const sample = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const encoding = options.encoding ?? detectEncoding(sample);
+  const delimiter = options.delimiter ?? detectDelimiter(new TextDecoder(encoding).decode(sample, { stream: true }), sample.length >= file.size);
+
+  const decoder = new TextDecoder(encoding);
+  const parser = createCsvParser(delimiter, onRow);
+  for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+    const chunk = new Uint8Array(await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer());
+    parser.push(decoder.decode(chunk, { stream: true }));
+    options.onProgress?.(Math.min(1, (offset + chunk.length) / file.size));
+  }
+  parser.push(decoder.decode());
+  parser.end();
+
+  return { delimiter, encoding };
+};
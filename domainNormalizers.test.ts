@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeDomain, normalizePhone, parseAddress } from './domainNormalizers';
+
+describe('parseAddress', () => {
+  it.each([
+    ['123 Main Street Suite 4', '4'],
+    ['123 Main St Ste. 4B', '4b'],
+    ['123 Main St Apt#12', '12'],
+    ['123 Main St #7', '7'],
+    ['Flat 3 10 High Street', '3'],
+  ])('reads the unit of %s', (address, unit) => {
+    expect(parseAddress(address).unit).toBe(unit);
+  });
+
+  it.each([
+    ['10 Stevens Ave', '10', 'stevens ave'],
+    ['1 Florida Ave', '1', 'florida ave'],
+    ['7 United Way', '7', 'united way'],
+    ['22 Roomfield Rd', '22', 'roomfield rd'],
+    ['5 Aptos Drive', '5', 'aptos dr'],
+  ])('keeps street names that start with a unit word: %s', (address, number, street) => {
+    expect(parseAddress(address)).toMatchObject({ number, street, unit: '' });
+  });
+});
+
+describe('normalizePhone', () => {
+  it.each([
+    ['+44 (0)20 7946 0000', '+442079460000'],
+    ['+44 20 7946 0000', '+442079460000'],
+    ['0044 (0) 20 7946 0000', '+442079460000'],
+    ['+1 (415) 555-0100 ext. 12', '+14155550100'],
+  ])('reads international number %s', (raw, expected) => {
+    expect(normalizePhone(raw)).toBe(expected);
+  });
+
+  it('prefixes national numbers with the given country code', () => {
+    expect(normalizePhone('020 7946 0000', '44')).toBe('+442079460000');
+    expect(normalizePhone('1 (415) 555-0100', '1')).toBe('+14155550100');
+    expect(normalizePhone('(415) 555-0100', '1')).toBe('+14155550100');
+  });
+
+  it('leaves national numbers unprefixed without a country code', () => {
+    expect(normalizePhone('020 7946 0000')).toBe('02079460000');
+    expect(normalizePhone('(415) 555-0100')).toBe('4155550100');
+    expect(normalizeDomain('(415) 555-0100', 'phone')).not.toBe(normalizeDomain('+1 415 555 0100', 'phone'));
+  });
+});
+
+describe('normalizeDomain', () => {
+  it('drops the unit from addresses', () => {
+    expect(normalizeDomain('123 Main Street Suite 4, Springfield, IL 62704', 'address')).toBe(normalizeDomain('123 Main St, Springfield, IL 62704', 'address'));
+  });
+});
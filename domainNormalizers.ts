@@ -0,0 +1,273 @@
+import { CellValue, DomainNormalizer } from './types';
+
+/**
+ * Typed normalizers that understand the structure of common join keys. Each one
+ * returns a canonical string that the generic normalization then runs on.
+ */
+
+export const DOMAIN_LABELS: Record<DomainNormalizer, string> = {
+  none: 'Generic text',
+  address: 'Address',
+  company: 'Company name',
+  personName: 'Person name',
+  phone: 'Phone number',
+  email: 'Email',
+};
+
+const lookup = (table: Record<string, string>, key: string): string | undefined =>
+  Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+
+const words = (value: string): string[] => value.toLowerCase().split(/[\s,]+/).map(w => w.replace(/\.$/, '')).filter(Boolean);
+
+// --- Addresses ---
+
+export interface ParsedAddress {
+  number: string;
+  street: string;
+  unit: string;
+  city: string;
+  postcode: string;
+}
+
+// USPS standard suffix abbreviations
+const STREET_SUFFIXES: Record<string, string> = {
+  street: 'st', str: 'st', st: 'st',
+  avenue: 'ave', av: 'ave', ave: 'ave',
+  road: 'rd', rd: 'rd',
+  boulevard: 'blvd', blvd: 'blvd',
+  drive: 'dr', dr: 'dr',
+  lane: 'ln', ln: 'ln',
+  court: 'ct', ct: 'ct',
+  place: 'pl', pl: 'pl',
+  terrace: 'ter', ter: 'ter',
+  parkway: 'pkwy', pkwy: 'pkwy',
+  highway: 'hwy', hwy: 'hwy',
+  square: 'sq', sq: 'sq',
+  circle: 'cir', cir: 'cir',
+  way: 'way',
+  crescent: 'cres', cres: 'cres',
+  close: 'cl',
+};
+
+const DIRECTIONS: Record<string, string> = {
+  north: 'n', south: 's', east: 'e', west: 'w',
+  northeast: 'ne', northwest: 'nw', southeast: 'se', southwest: 'sw',
+};
+
+// Unit words have to end there, so street names such as "Stevens Ave" or "United Way" stay whole
+const UNIT_PATTERN = /(?:^|\s)(?:(?:apt|apartment|suite|ste|unit|flat|room|rm|fl|floor)\b\.?|#)\s*#?\s*([a-z0-9-]+)/i;
+const POSTCODE_PATTERN = /\b(\d{5}(?:-\d{4})?|[a-z]{1,2}\d[a-z\d]?\s*\d[a-z]{2}|\d{4,6})\b/i;
+const HOUSE_NUMBER_PATTERN = /^(\d+[a-z]?(?:-\d+[a-z]?)?)\s+/i;
+
+/**
+ * Splits a one-line address ("123 Main Street Suite 4, Springfield, IL 62704") into
+ * components. The first comma-separated part is the street line, the rest the locality.
+ */
+export const parseAddress = (raw: string): ParsedAddress => {
+  const [streetLine = '', ...localityParts] = raw.split(',').map(p => p.trim());
+  let line = streetLine;
+
+  let unit = '';
+  const unitMatch = line.match(UNIT_PATTERN);
+  if (unitMatch) {
+    unit = unitMatch[1].toLowerCase();
+    line = line.replace(unitMatch[0], ' ');
+  }
+
+  let number = '';
+  const numberMatch = line.match(HOUSE_NUMBER_PATTERN);
+  if (numberMatch) {
+    number = numberMatch[1].toLowerCase();
+    line = line.substring(numberMatch[0].length);
+  }
+
+  // Suffixes are standardised after the first word only, so the "St" of "St Johns Road" is kept as is
+  const street = words(line).map((w, i) => lookup(DIRECTIONS, w) ?? (i > 0 ? lookup(STREET_SUFFIXES, w) ?? w : w));
+
+  let postcode = '';
+  let locality = localityParts.join(' ');
+  const postcodeMatch = locality.match(POSTCODE_PATTERN);
+  if (postcodeMatch) {
+    postcode = postcodeMatch[1].toLowerCase().replace(/\s+/g, '');
+    locality = locality.replace(postcodeMatch[0], ' ');
+  }
+
+  // The locality is usually "city[, state]"; the city is its first part
+  const city = words(localityParts.length > 1 ? localityParts[0].replace(POSTCODE_PATTERN, '') : locality).join(' ');
+
+  return { number, street: street.join(' '), unit, city, postcode };
+};
+
+// Units are left out so "123 Main St" still joins "123 Main Street Suite 4"
+const normalizeAddress = (raw: string): string => {
+  const { number, street, city, postcode } = parseAddress(raw);
+  return [number, street, city, postcode].filter(Boolean).join(' ');
+};
+
+// --- Companies ---
+
+const LEGAL_SUFFIXES = new Set([
+  'corporation', 'corp', 'incorporated', 'inc', 'limited', 'ltd', 'llc', 'llp', 'lp', 'plc',
+  'company', 'co', 'gmbh', 'ag', 'kg', 'sa', 'sas', 'sarl', 'bv', 'nv', 'pty', 'pvt', 'oy',
+  'ab', 'as', 'spa', 'srl', 'kk', 'holdings', 'group',
+]);
+
+// "ACME Corporation Ltd." -> "acme"; suffixes are stripped from the end, so "Co-op Bank Ltd" keeps "co op bank"
+const normalizeCompany = (raw: string): string => {
+  const tokens = raw.toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  if (tokens[0] === 'the') tokens.shift();
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) tokens.pop();
+  return tokens.join(' ');
+};
+
+// --- Person Names ---
+
+export interface ParsedName {
+  title: string;
+  given: string;
+  middle: string;
+  family: string;
+  suffix: string;
+}
+
+const TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'sir', 'dame', 'rev', 'fr', 'lord', 'lady']);
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md', 'esq']);
+
+// Common English diminutives mapped to the formal given name
+export const NICKNAMES: Record<string, string> = {
+  bill: 'william', will: 'william', billy: 'william', liam: 'william',
+  bob: 'robert', rob: 'robert', bobby: 'robert', robbie: 'robert',
+  dick: 'richard', rick: 'richard', rich: 'richard',
+  jim: 'james', jimmy: 'james', jamie: 'james',
+  mike: 'michael', mick: 'michael',
+  tom: 'thomas', tommy: 'thomas',
+  tony: 'anthony', joe: 'joseph', joey: 'joseph',
+  dave: 'david', steve: 'steven', stephen: 'steven',
+  chris: 'christopher', matt: 'matthew', dan: 'daniel', danny: 'daniel',
+  ed: 'edward', eddie: 'edward', ted: 'edward',
+  andy: 'andrew', drew: 'andrew', ben: 'benjamin', sam: 'samuel',
+  alex: 'alexander', nick: 'nicholas', pete: 'peter', jack: 'john', johnny: 'john',
+  kate: 'katherine', kathy: 'katherine', katie: 'katherine', catherine: 'katherine',
+  liz: 'elizabeth', beth: 'elizabeth', betty: 'elizabeth', lizzie: 'elizabeth',
+  peggy: 'margaret', maggie: 'margaret', meg: 'margaret',
+  jenny: 'jennifer', jen: 'jennifer', sue: 'susan', susie: 'susan',
+  patty: 'patricia', pat: 'patricia', trish: 'patricia',
+  debbie: 'deborah', deb: 'deborah', becky: 'rebecca', vicky: 'victoria',
+};
+
+/**
+ * Parses "Dr. John Q. Smith Jr." as well as "Smith, John Q." into name parts.
+ * Given names are not expanded here; see `normalizePersonName`.
+ */
+export const parseName = (raw: string): ParsedName => {
+  const commaIndex = raw.indexOf(',');
+  let familyFirst = false;
+  let tokens: string[];
+
+  // "Smith, John" puts the family name first, but "John Smith, Jr." does not
+  if (commaIndex >= 0 && !NAME_SUFFIXES.has(words(raw.substring(commaIndex + 1))[0] ?? '')) {
+    familyFirst = true;
+    tokens = [...words(raw.substring(commaIndex + 1)), '|', ...words(raw.substring(0, commaIndex))];
+  } else {
+    tokens = words(raw);
+  }
+
+  const title = tokens.length > 0 && TITLES.has(tokens[0]) ? tokens.shift()! : '';
+  const suffixes: string[] = [];
+  while (tokens.length > 1 && NAME_SUFFIXES.has(tokens[tokens.length - 1])) suffixes.unshift(tokens.pop()!);
+
+  let given: string[];
+  let family: string[];
+  if (familyFirst) {
+    const split = tokens.indexOf('|');
+    given = tokens.slice(0, split);
+    family = tokens.slice(split + 1);
+  } else {
+    family = tokens.length > 1 ? [tokens.pop()!] : [];
+    given = tokens;
+  }
+
+  return {
+    title,
+    given: given[0] ?? '',
+    middle: given.slice(1).join(' '),
+    family: family.join(' '),
+    suffix: suffixes.join(' '),
+  };
+};
+
+// Given and family name only; titles, middle names and suffixes are too inconsistently recorded
+const normalizePersonName = (raw: string): string => {
+  const { given, family } = parseName(raw);
+  return [lookup(NICKNAMES, given) ?? given, family].filter(Boolean).join(' ');
+};
+
+// --- Phones ---
+
+const E164_MAX_DIGITS = 15;
+
+/**
+ * E.164 form ("+14155550100"). Numbers without an international prefix get
+ * `countryCode` after their national trunk prefix (leading 0) is dropped; with
+ * no `countryCode` they are left as national digits, since the country is unknown.
+ */
+export const normalizePhone = (raw: string, countryCode?: string): string => {
+  const withoutExtension = raw.replace(/\s*(?:ext\.?|extension|x)\s*\d+\s*$/i, '');
+  const international = /^\s*(\+|00)/.test(withoutExtension);
+  // "+44 (0)20 ..." shows the trunk 0 dialled only from within the country
+  let digits = (international ? withoutExtension.replace(/\(\s*0\s*\)/, '') : withoutExtension).replace(/\D/g, '');
+  if (!digits) return '';
+
+  if (international) {
+    if (withoutExtension.trim().startsWith('00')) digits = digits.substring(2);
+  } else {
+    const code = (countryCode ?? '').replace(/\D/g, '');
+    if (!code) return digits;
+    // NANP numbers are often written with a leading 1 but no +
+    if (!(code === '1' && digits.length === 11 && digits.startsWith('1'))) {
+      digits = code + digits.replace(/^0+/, '');
+    }
+  }
+
+  return digits.length <= E164_MAX_DIGITS ? `+${digits}` : digits;
+};
+
+// --- Emails ---
+
+// Providers that ignore dots in the local part
+const DOT_INSENSITIVE_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+// Lowercases, drops "+tag" sub-addresses and applies provider-specific aliasing
+export const normalizeEmail = (raw: string): string => {
+  const email = raw.trim().toLowerCase().replace(/^mailto:/, '');
+  const at = email.lastIndexOf('@');
+  if (at <= 0) return email;
+
+  let local = email.substring(0, at).split('+')[0];
+  let domain = email.substring(at + 1);
+  if (DOT_INSENSITIVE_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  return `${local}@${domain}`;
+};
+
+// --- Dispatch ---
+
+export const normalizeDomain = (value: CellValue, domain: DomainNormalizer, countryCode?: string): CellValue => {
+  if (domain === 'none' || value === null || value === undefined || value === '') return value;
+  const raw = String(value);
+  switch (domain) {
+    case 'address': return normalizeAddress(raw);
+    case 'company': return normalizeCompany(raw);
+    case 'personName': return normalizePersonName(raw);
+    case 'phone': return normalizePhone(raw, countryCode);
+    case 'email': return normalizeEmail(raw);
+    default: return value;
+  }
+};
@@ -0,0 +1,175 @@
+import { ComparisonLevel, FellegiSunterParams, JoinHooks, KeyLinkageParams, LevelProbabilities } from './types';
+
+// --- Comparison Levels ---
+
+export const COMPARISON_LEVELS: ComparisonLevel[] = ['exact', 'fuzzyHigh', 'fuzzyLow', 'disagree'];
+
+export const LEVEL_LABELS: Record<ComparisonLevel, string> = {
+  exact: 'Exact',
+  fuzzyHigh: 'Fuzzy ≥ 90%',
+  fuzzyLow: 'Fuzzy ≥ 70%',
+  disagree: 'Disagree',
+};
+
+const FUZZY_HIGH = 0.9;
+const FUZZY_LOW = 0.7;
+
+/**
+ * Buckets a value comparison into one of the discrete levels the model learns.
+ * `similarity` is 0-1; a phonetic agreement counts as a high fuzzy match.
+ */
+export const comparisonLevel = (valA: string, valB: string, similarity: number, phoneticAgrees: boolean): ComparisonLevel => {
+  if (!valA || !valB) return 'disagree';
+  if (valA === valB) return 'exact';
+  if (similarity >= FUZZY_HIGH || phoneticAgrees) return 'fuzzyHigh';
+  if (similarity >= FUZZY_LOW) return 'fuzzyLow';
+  return 'disagree';
+};
+
+// --- Estimation ---
+
+export interface ComparisonPattern {
+  levels: ComparisonLevel[]; // One level per key, in JoinConfig.joinKeys order
+  count: number;
+}
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-6;
+const MIN_PROBABILITY = 1e-4;
+
+// Starting points: matches mostly agree, non-matches mostly disagree
+const INITIAL_M: LevelProbabilities = { exact: 0.7, fuzzyHigh: 0.15, fuzzyLow: 0.1, disagree: 0.05 };
+const INITIAL_U: LevelProbabilities = { exact: 0.05, fuzzyHigh: 0.05, fuzzyLow: 0.1, disagree: 0.8 };
+const INITIAL_LAMBDA = 0.1;
+
+const clampProbability = (p: number) => Math.min(1 - MIN_PROBABILITY, Math.max(MIN_PROBABILITY, p));
+
+// Keeps every level possible so no single comparison yields an infinite weight
+const smooth = (probs: LevelProbabilities): LevelProbabilities => {
+  const floored = COMPARISON_LEVELS.map(l => Math.max(probs[l], MIN_PROBABILITY));
+  const total = floored.reduce((sum, p) => sum + p, 0);
+  const result = {} as LevelProbabilities;
+  COMPARISON_LEVELS.forEach((l, i) => result[l] = floored[i] / total);
+  return result;
+};
+
+const emptyLevels = (): LevelProbabilities => ({ exact: 0, fuzzyHigh: 0, fuzzyLow: 0, disagree: 0 });
+
+const normalizeCounts = (counts: LevelProbabilities): LevelProbabilities => {
+  const total = COMPARISON_LEVELS.reduce((sum, l) => sum + counts[l], 0);
+  const result = emptyLevels();
+  COMPARISON_LEVELS.forEach(l => result[l] = total > 0 ? counts[l] / total : 0.25);
+  return result;
+};
+
+/**
+ * u probabilities from random record pairs, which are almost all non-matches.
+ * `levelsPerPair` holds one level per key for each sampled pair.
+ */
+export const estimateU = (levelsPerPair: ComparisonLevel[][], keyCount: number): LevelProbabilities[] => {
+  const counts = Array.from({ length: keyCount }, emptyLevels);
+  levelsPerPair.forEach(levels => levels.forEach((level, k) => counts[k][level]++));
+  return counts.map(c => smooth(normalizeCounts(c)));
+};
+
+export interface FixedProbabilities {
+  m?: LevelProbabilities[];
+  u?: LevelProbabilities[];
+}
+
+export type EstimationControl = Pick<JoinHooks, 'isCancelled' | 'pause'>;
+
+/**
+ * Expectation-maximisation over the observed comparison patterns, assuming the
+ * keys are conditionally independent given match status (the classic Fellegi-Sunter model).
+ * Probabilities passed in `fixed` are held constant and only the rest is fitted.
+ * A cancelled estimate stops between iterations and is returned unconverged.
+ */
+export const estimateParameters = async (
+  patterns: ComparisonPattern[],
+  keyIds: string[],
+  fixed: FixedProbabilities = {},
+  control: EstimationControl = {}
+): Promise<FellegiSunterParams> => {
+  let lambda = INITIAL_LAMBDA;
+  let keys: KeyLinkageParams[] = keyIds.map((_, k) => ({
+    m: fixed.m ? fixed.m[k] : { ...INITIAL_M },
+    u: fixed.u ? fixed.u[k] : { ...INITIAL_U }
+  }));
+  const pairCount = patterns.reduce((sum, p) => sum + p.count, 0);
+  let iterations = 0;
+  let converged = false;
+
+  if (pairCount === 0) {
+    return { lambda, keys: toRecord(keyIds, keys), iterations, converged, pairCount };
+  }
+
+  while (iterations < MAX_ITERATIONS && !converged) {
+    await control.pause?.();
+    if (control.isCancelled?.()) break;
+    iterations++;
+
+    // E-step: posterior match probability for each pattern
+    let matchMass = 0;
+    const mCounts = keyIds.map(emptyLevels);
+    const uCounts = keyIds.map(emptyLevels);
+
+    for (const pattern of patterns) {
+      let pMatch = lambda;
+      let pNonMatch = 1 - lambda;
+      pattern.levels.forEach((level, k) => {
+        pMatch *= keys[k].m[level];
+        pNonMatch *= keys[k].u[level];
+      });
+      const g = pMatch / (pMatch + pNonMatch || 1);
+
+      matchMass += g * pattern.count;
+      pattern.levels.forEach((level, k) => {
+        mCounts[k][level] += g * pattern.count;
+        uCounts[k][level] += (1 - g) * pattern.count;
+      });
+    }
+
+    // M-step: re-estimate lambda, m and u from the expected counts
+    const nextLambda = clampProbability(matchMass / pairCount);
+    const nextKeys = keyIds.map((_, k) => ({
+      m: fixed.m ? fixed.m[k] : smooth(normalizeCounts(mCounts[k])),
+      u: fixed.u ? fixed.u[k] : smooth(normalizeCounts(uCounts[k]))
+    }));
+
+    const delta = Math.max(
+      Math.abs(nextLambda - lambda),
+      ...nextKeys.flatMap((key, k) => COMPARISON_LEVELS.flatMap(l => [
+        Math.abs(key.m[l] - keys[k].m[l]),
+        Math.abs(key.u[l] - keys[k].u[l])
+      ]))
+    );
+
+    lambda = nextLambda;
+    keys = nextKeys;
+    converged = delta < TOLERANCE;
+  }
+
+  return { lambda, keys: toRecord(keyIds, keys), iterations, converged, pairCount };
+};
+
+const toRecord = (keyIds: string[], keys: KeyLinkageParams[]): Record<string, KeyLinkageParams> => {
+  const record: Record<string, KeyLinkageParams> = {};
+  keyIds.forEach((id, k) => record[id] = keys[k]);
+  return record;
+};
+
+// --- Scoring ---
+
+// log2(m / u) for one key at one level
+export const levelWeight = (key: KeyLinkageParams, level: ComparisonLevel): number =>
+  Math.log2(Math.max(key.m[level], MIN_PROBABILITY) / Math.max(key.u[level], MIN_PROBABILITY));
+
+export const posteriorProbability = (params: FellegiSunterParams, totalWeight: number): number => {
+  const lambda = clampProbability(params.lambda);
+  const odds = (lambda / (1 - lambda)) * Math.pow(2, totalWeight);
+  return Number.isFinite(odds) ? odds / (1 + odds) : 1;
+};
+
+export const hasParamsFor = (params: FellegiSunterParams | undefined, keyIds: string[]): params is FellegiSunterParams =>
+  !!params && keyIds.every(id => !!params.keys[id]);
@@ -0,0 +1,406 @@
+import { CellValue, SpatialPredicate } from './types';
+
+/**
+ * Geometry cells (GeoJSON, WKT/EWKT or hex WKB as returned by PostGIS) parsed into
+ * flat lists of points, lines and polygons, with the predicates used by spatial keys.
+ */
+
+export type Position = [number, number];
+
+export interface BBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface Shape {
+  points: Position[];
+  lines: Position[][];
+  polygons: Position[][][]; // Rings; the first is the outer boundary, the rest holes
+  bbox: BBox;
+}
+
+export const SPATIAL_PREDICATE_LABELS: Record<SpatialPredicate, string> = {
+  intersects: 'Intersects',
+  within: 'Within (point in polygon)',
+  withinDistance: 'Within distance',
+  nearest: 'Nearest neighbour',
+};
+
+const emptyShape = (): Shape => ({
+  points: [],
+  lines: [],
+  polygons: [],
+  bbox: { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity },
+});
+
+const positionsOf = (shape: Shape): Position[] => [
+  ...shape.points,
+  ...shape.lines.flat(),
+  ...shape.polygons.flat(2),
+];
+
+// Sets the bounding box; shapes without a single finite coordinate are rejected
+const finish = (shape: Shape): Shape | null => {
+  const positions = positionsOf(shape);
+  if (positions.length === 0 || positions.some(([x, y]) => !Number.isFinite(x) || !Number.isFinite(y))) return null;
+  for (const [x, y] of positions) {
+    shape.bbox.minX = Math.min(shape.bbox.minX, x);
+    shape.bbox.minY = Math.min(shape.bbox.minY, y);
+    shape.bbox.maxX = Math.max(shape.bbox.maxX, x);
+    shape.bbox.maxY = Math.max(shape.bbox.maxY, y);
+  }
+  return shape;
+};
+
+// --- GeoJSON ---
+
+const toPosition = (c: number[]): Position => [Number(c[0]), Number(c[1])];
+
+const addGeoJSON = (shape: Shape, g: any) => {
+  if (!g) return;
+  switch (g.type) {
+    case 'Feature': addGeoJSON(shape, g.geometry); break;
+    case 'Point': shape.points.push(toPosition(g.coordinates)); break;
+    case 'MultiPoint': g.coordinates.forEach((c: number[]) => shape.points.push(toPosition(c))); break;
+    case 'LineString': shape.lines.push(g.coordinates.map(toPosition)); break;
+    case 'MultiLineString': g.coordinates.forEach((l: number[][]) => shape.lines.push(l.map(toPosition))); break;
+    case 'Polygon': shape.polygons.push(g.coordinates.map((r: number[][]) => r.map(toPosition))); break;
+    case 'MultiPolygon': g.coordinates.forEach((p: number[][][]) => shape.polygons.push(p.map(r => r.map(toPosition)))); break;
+    case 'GeometryCollection': g.geometries.forEach((child: any) => addGeoJSON(shape, child)); break;
+    default: throw new Error(`Unsupported GeoJSON type ${g.type}`);
+  }
+};
+
+// --- WKT ---
+
+const WKT_PREFIX = /^\s*(?:SRID=\d+;\s*)?(?:POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION)\b/i;
+
+// Recursive descent over "MULTIPOLYGON (((0 0, 1 0, 1 1, 0 0)))"; Z and M values are read and dropped
+const addWKT = (shape: Shape, text: string) => {
+  const wordPattern = /\s*([A-Za-z]+)/y;
+  const positionPattern = /\s*([-+\d.eE]+)\s+([-+\d.eE]+)(?:\s+[-+\d.eE]+){0,2}/y;
+  let i = text.indexOf(';') >= 0 && /^\s*SRID=/i.test(text) ? text.indexOf(';') + 1 : 0;
+
+  const peek = (): string => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+    return text[i];
+  };
+  const expect = (ch: string) => {
+    if (peek() !== ch) throw new Error(`Expected "${ch}" at ${i}`);
+    i++;
+  };
+  const word = (): string => {
+    wordPattern.lastIndex = i;
+    const match = wordPattern.exec(text);
+    if (!match) return '';
+    i = wordPattern.lastIndex;
+    return match[1].toUpperCase();
+  };
+  const position = (): Position => {
+    positionPattern.lastIndex = i;
+    const match = positionPattern.exec(text);
+    if (!match) throw new Error(`Expected coordinates at ${i}`);
+    i = positionPattern.lastIndex;
+    return [Number(match[1]), Number(match[2])];
+  };
+  const list = <T>(item: () => T): T[] => {
+    expect('(');
+    const items = [item()];
+    while (peek() === ',') {
+      i++;
+      items.push(item());
+    }
+    expect(')');
+    return items;
+  };
+  const point = () => (peek() === '(' ? list(position)[0] : position()); // MULTIPOINT accepts "(1 2)" and "1 2"
+  const line = () => list(position);
+  const polygon = () => list(line);
+
+  const geometry = (): void => {
+    const type = word();
+    let modifier = peek() === '(' ? '' : word();
+    if (modifier === 'Z' || modifier === 'M' || modifier === 'ZM') modifier = peek() === '(' ? '' : word();
+    if (modifier === 'EMPTY') return;
+
+    switch (type) {
+      case 'POINT': shape.points.push(list(position)[0]); break;
+      case 'LINESTRING': shape.lines.push(line()); break;
+      case 'POLYGON': shape.polygons.push(polygon()); break;
+      case 'MULTIPOINT': shape.points.push(...list(point)); break;
+      case 'MULTILINESTRING': shape.lines.push(...list(line)); break;
+      case 'MULTIPOLYGON': shape.polygons.push(...list(polygon)); break;
+      case 'GEOMETRYCOLLECTION': list(geometry); break;
+      default: throw new Error(`Unsupported WKT type ${type}`);
+    }
+  };
+
+  geometry();
+};
+
+// --- WKB ---
+
+const WKB_HEX = /^(?:00|01)(?:[0-9a-f]{2}){8,}$/i;
+
+const hexBytes = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let b = 0; b < bytes.length; b++) bytes[b] = parseInt(hex.substr(b * 2, 2), 16);
+  return bytes;
+};
+
+// OGC WKB, including PostGIS EWKB flags for SRID, Z and M and the ISO 1000/2000/3000 type codes
+const addWKB = (shape: Shape, bytes: Uint8Array, start = 0) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = start;
+
+  const geometry = (): void => {
+    const little = view.getUint8(offset) === 1;
+    offset += 1;
+    let type = view.getUint32(offset, little);
+    offset += 4;
+
+    let dimensions = 2;
+    if (type & 0x80000000) dimensions++;
+    if (type & 0x40000000) dimensions++;
+    if (type & 0x20000000) offset += 4; // SRID
+    type &= 0x0fffffff;
+    if (type >= 1000) {
+      dimensions += type >= 3000 ? 2 : 1;
+      type %= 1000;
+    }
+
+    const count = () => {
+      const n = view.getUint32(offset, little);
+      offset += 4;
+      return n;
+    };
+    const position = (): Position => {
+      const p: Position = [view.getFloat64(offset, little), view.getFloat64(offset + 8, little)];
+      offset += dimensions * 8;
+      return p;
+    };
+    const positions = (): Position[] => Array.from({ length: count() }, position);
+
+    switch (type) {
+      case 1: {
+        const p = position();
+        if (!Number.isNaN(p[0])) shape.points.push(p); // POINT EMPTY is written as NaN coordinates
+        break;
+      }
+      case 2: shape.lines.push(positions()); break;
+      case 3: shape.polygons.push(Array.from({ length: count() }, positions)); break;
+      case 4: case 5: case 6: case 7: {
+        const n = count();
+        for (let k = 0; k < n; k++) geometry();
+        break;
+      }
+      default: throw new Error(`Unsupported WKB type ${type}`);
+    }
+  };
+
+  geometry();
+};
+
+// GeoPackage blobs are WKB behind a "GP" header holding the SRID and an optional envelope
+const GPKG_ENVELOPE_BYTES = [0, 32, 48, 48, 64];
+
+const addGeoPackageBinary = (shape: Shape, bytes: Uint8Array): boolean => {
+  if (bytes.length < 8 || bytes[0] !== 0x47 || bytes[1] !== 0x50) return false;
+  const flags = bytes[3];
+  if (flags & 0x10) return true; // Empty geometry
+  const envelope = GPKG_ENVELOPE_BYTES[(flags >> 1) & 0x07];
+  if (envelope === undefined) return false;
+  addWKB(shape, bytes, 8 + envelope);
+  return true;
+};
+
+// --- Parsing ---
+
+export const parseGeometry = (value: CellValue): Shape | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  const shape = emptyShape();
+  try {
+    if (text.startsWith('{')) addGeoJSON(shape, JSON.parse(text));
+    else if (WKT_PREFIX.test(text)) addWKT(shape, text);
+    else if (WKB_HEX.test(text)) addWKB(shape, hexBytes(text));
+    else return null;
+  } catch {
+    return null;
+  }
+  return finish(shape);
+};
+
+export const isGeometryValue = (value: CellValue): boolean => parseGeometry(value) !== null;
+
+export const parseGeoPackageGeometry = (bytes: Uint8Array): Shape | null => {
+  const shape = emptyShape();
+  try {
+    if (!addGeoPackageBinary(shape, bytes)) return null;
+  } catch {
+    return null;
+  }
+  return finish(shape);
+};
+
+// --- GeoJSON Output ---
+
+export type GeoJSONGeometry = { type: string; coordinates?: unknown; geometries?: GeoJSONGeometry[] };
+
+// Single parts keep their simple type; mixed shapes become a GeometryCollection
+export const shapeToGeoJSON = (shape: Shape): GeoJSONGeometry => {
+  const parts: GeoJSONGeometry[] = [];
+  const add = <T>(items: T[], single: string, multi: string) => {
+    if (items.length === 1) parts.push({ type: single, coordinates: items[0] });
+    else if (items.length > 1) parts.push({ type: multi, coordinates: items });
+  };
+  add(shape.points, 'Point', 'MultiPoint');
+  add(shape.lines, 'LineString', 'MultiLineString');
+  add(shape.polygons, 'Polygon', 'MultiPolygon');
+  return parts.length === 1 ? parts[0] : { type: 'GeometryCollection', geometries: parts };
+};
+
+// GeoJSON cells are passed through unchanged, keeping any Z values; other formats go via Shape
+export const toGeoJSONGeometry = (value: CellValue): GeoJSONGeometry | null => {
+  const shape = parseGeometry(value);
+  if (!shape) return null;
+  const text = String(value).trim();
+  if (text.startsWith('{')) {
+    const parsed = JSON.parse(text);
+    return parsed.type === 'Feature' ? parsed.geometry : parsed;
+  }
+  return shapeToGeoJSON(shape);
+};
+
+// --- Projection ---
+
+const EARTH_RADIUS = 6371008.8; // Mean radius in metres
+const METRES_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS;
+
+// Longitude/latitude data; anything outside these bounds is taken to be a projected CRS in metres
+export const isGeographic = (bbox: BBox): boolean =>
+  bbox.minX >= -180 && bbox.maxX <= 180 && bbox.minY >= -90 && bbox.maxY <= 90;
+
+const latitudeScale = (latitude: number) => Math.max(0.01, Math.cos((latitude * Math.PI) / 180));
+
+/**
+ * Distances are measured on a local equirectangular projection centred on the latitude
+ * of `origin`, which is accurate to well under 1% across a city or region.
+ */
+export interface Projection {
+  project: (p: Position) => Position;
+  bboxDistance: (a: BBox, b: BBox) => number; // Lower bound for the distance between shapes inside them
+  expand: (bbox: BBox, metres: number) => BBox; // Box holding every point within `metres` of `bbox`
+}
+
+// Projected coordinates are scaled by `metresPerUnit`, e.g. 0.3048 for a CRS in feet
+export const localProjection = (origin: BBox, geographic: boolean, metresPerUnit = 1): Projection => {
+  const xScale = geographic ? METRES_PER_DEGREE * latitudeScale((origin.minY + origin.maxY) / 2) : metresPerUnit;
+  const yScale = geographic ? METRES_PER_DEGREE : metresPerUnit;
+  return {
+    project: ([x, y]) => [x * xScale, y * yScale],
+    bboxDistance: (a, b) => Math.hypot(
+      Math.max(0, b.minX - a.maxX, a.minX - b.maxX) * xScale,
+      Math.max(0, b.minY - a.maxY, a.minY - b.maxY) * yScale
+    ),
+    expand: (bbox, metres) => {
+      // The x extent of a metre grows towards the poles, so the widest latitude in the box is used
+      const dx = geographic ? metres / (METRES_PER_DEGREE * latitudeScale(Math.max(Math.abs(bbox.minY), Math.abs(bbox.maxY)))) : metres / xScale;
+      const dy = metres / yScale;
+      return { minX: bbox.minX - dx, minY: bbox.minY - dy, maxX: bbox.maxX + dx, maxY: bbox.maxY + dy };
+    },
+  };
+};
+
+// --- Predicates ---
+
+type Segment = [Position, Position];
+
+// Points become zero-length segments so every pair of shapes can be compared segment by segment
+const segmentsOf = (shape: Shape, project: (p: Position) => Position = p => p): Segment[] => {
+  const segments: Segment[] = shape.points.map(p => {
+    const q = project(p);
+    return [q, q];
+  });
+  const addPath = (path: Position[], closed: boolean) => {
+    const projected = path.map(project);
+    for (let k = 1; k < projected.length; k++) segments.push([projected[k - 1], projected[k]]);
+    if (closed && projected.length > 2) segments.push([projected[projected.length - 1], projected[0]]);
+    if (projected.length === 1) segments.push([projected[0], projected[0]]);
+  };
+  shape.lines.forEach(line => addPath(line, false));
+  shape.polygons.forEach(rings => rings.forEach(ring => addPath(ring, true)));
+  return segments;
+};
+
+const cross = (o: Position, a: Position, b: Position) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+const onSegment = (p: Position, [a, b]: Segment) =>
+  Math.min(a[0], b[0]) <= p[0] && p[0] <= Math.max(a[0], b[0]) && Math.min(a[1], b[1]) <= p[1] && p[1] <= Math.max(a[1], b[1]);
+
+const segmentsIntersect = (s: Segment, t: Segment): boolean => {
+  const d1 = cross(t[0], t[1], s[0]);
+  const d2 = cross(t[0], t[1], s[1]);
+  const d3 = cross(s[0], s[1], t[0]);
+  const d4 = cross(s[0], s[1], t[1]);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true;
+  return (d1 === 0 && onSegment(s[0], t)) || (d2 === 0 && onSegment(s[1], t))
+    || (d3 === 0 && onSegment(t[0], s)) || (d4 === 0 && onSegment(t[1], s));
+};
+
+const pointSegmentDistance = (p: Position, [a, b]: Segment): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+};
+
+// Even-odd ray casting over all rings, so points in holes are outside
+const pointInPolygon = (p: Position, rings: Position[][]): boolean => {
+  let inside = false;
+  for (const ring of rings) {
+    for (let k = 0, j = ring.length - 1; k < ring.length; j = k++) {
+      const [xi, yi] = ring[k];
+      const [xj, yj] = ring[j];
+      if ((yi > p[1]) !== (yj > p[1]) && p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const pointInShape = (p: Position, shape: Shape): boolean => shape.polygons.some(rings => pointInPolygon(p, rings));
+
+export const bboxesOverlap = (a: BBox, b: BBox): boolean =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+export const intersects = (a: Shape, b: Shape): boolean => {
+  if (!bboxesOverlap(a.bbox, b.bbox)) return false;
+  const segmentsB = segmentsOf(b);
+  if (segmentsOf(a).some(s => segmentsB.some(t => segmentsIntersect(s, t)))) return true;
+  // No boundaries cross, so the shapes only meet if one lies inside the other
+  return positionsOf(a).some(p => pointInShape(p, b)) || positionsOf(b).some(p => pointInShape(p, a));
+};
+
+// Every vertex of `a` inside or on the boundary of a polygon of `b`; exact for points
+export const within = (a: Shape, b: Shape): boolean => {
+  if (b.polygons.length === 0 || !bboxesOverlap(a.bbox, b.bbox)) return false;
+  const boundary = segmentsOf({ ...b, points: [], lines: [] });
+  return positionsOf(a).every(p => pointInShape(p, b) || boundary.some(s => pointSegmentDistance(p, s) === 0));
+};
+
+// Shortest distance between the shapes in projection units (metres for `localProjection`); 0 when they intersect
+export const shapeDistance = (a: Shape, b: Shape, projection: Projection): number => {
+  if (intersects(a, b)) return 0;
+  const segmentsA = segmentsOf(a, projection.project);
+  const segmentsB = segmentsOf(b, projection.project);
+  let best = Infinity;
+  for (const s of segmentsA) {
+    for (const t of segmentsB) {
+      best = Math.min(best, pointSegmentDistance(s[0], t), pointSegmentDistance(s[1], t), pointSegmentDistance(t[0], s), pointSegmentDistance(t[1], s));
+    }
+  }
+  return best;
+};
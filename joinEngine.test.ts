@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest';
+import { BlockingStrategy, ColumnDef, Dataset, JoinConfig, MatchingAlgorithm } from './types';
+import { DEFAULT_BLOCKING } from './blocking';
+import { estimateLinkageParams, joinDatasets } from './joinEngine';
+
+// --- Fixtures ---
+
+const dataset = (name: string, records: Array<Record<string, string | number | null>>, columns?: ColumnDef[]): Dataset => ({
+  name,
+  type: 'csv',
+  columns: columns ?? Object.keys(records[0] ?? {}).map(col => ({ name: col, type: 'text' })),
+  data: records.map((record, i) => ({ ...record, _rowId: `${name}-${i}` })),
+  rowCount: records.length,
+});
+
+const config = (overrides: Partial<JoinConfig> = {}): JoinConfig => ({
+  joinKeys: [{ id: 'k1', left: 'name', right: 'name' }],
+  matchMode: 'hierarchical',
+  algorithms: [MatchingAlgorithm.LEVENSHTEIN],
+  threshold: 80,
+  weightedThreshold: 75,
+  probabilistic: { matchThreshold: 0.9 },
+  normalization: {
+    removeSpecialChars: true,
+    removeNumbers: false,
+    toLowerCase: true,
+    trimWhitespace: true,
+    foldDiacritics: true,
+    transliterate: false,
+    foldWidth: true,
+    rules: [],
+  },
+  phoneticEncoder: 'doubleMetaphone',
+  blocking: DEFAULT_BLOCKING,
+  joinType: 'left',
+  cardinality: 'manyToOne',
+  tieBreak: 'first',
+  alternativeCount: 0,
+  masterColumns: ['name'],
+  targetColumns: ['code'],
+  ...overrides,
+});
+
+// No AI fallback in tests
+const hooks = { isSemanticAvailable: () => false };
+
+const master = dataset('a', [{ name: 'Acme Corp' }, { name: 'Globex' }, { name: 'Initech' }]);
+const target = dataset('b', [
+  { name: 'ACME Corp.', code: 'T1' },
+  { name: 'Acme Corp', code: 'T2' },
+  { name: 'Globex', code: 'T3' },
+  { name: 'Umbrella', code: 'T4' },
+]);
+
+// --- Cardinality ---
+
+describe('cardinality', () => {
+  it('lets several Master rows take the same Target row in N:1 mode', async () => {
+    const a = dataset('a', [{ name: 'Globex' }, { name: 'Globex' }]);
+    const result = await joinDatasets(a, target, config(), hooks);
+    expect(result.rows.map(r => r.code)).toEqual(['T3', 'T3']);
+    expect(result.stats).toMatchObject({ matched: 2, unmatched: 0, outputRows: 2, fanOutRows: 0 });
+  });
+
+  it('emits one row per matching Target row in 1:N mode', async () => {
+    const result = await joinDatasets(master, target, config({ cardinality: 'oneToMany' }), hooks);
+    const acme = result.rows.filter(r => r.name === 'Acme Corp');
+    expect(acme.map(r => r.code).sort()).toEqual(['T1', 'T2']);
+    expect(acme.map(r => r._matchRank)).toEqual([1, 2]);
+    expect(result.stats.fanOutRows).toBe(1);
+  });
+
+  it('uses each Target row at most once in 1:1 mode', async () => {
+    const a = dataset('a', [{ name: 'Acme Corp' }, { name: 'Acme Corp' }]);
+    const result = await joinDatasets(a, target, config({ cardinality: 'oneToOne' }), hooks);
+    expect(result.rows.map(r => r.code)).toEqual(['T1', 'T2']);
+    expect(result.stats).toMatchObject({ matched: 2, unmatched: 0, outputRows: 2, fanOutRows: 0 });
+  });
+
+  it('keeps Master rows left without a Target row in 1:1 mode', async () => {
+    const a = dataset('a', [{ name: 'Globex' }, { name: 'Globex' }, { name: 'Initech' }]);
+    for (const joinType of ['left', 'fullOuter'] as const) {
+      const result = await joinDatasets(a, target, config({ cardinality: 'oneToOne', joinType }), hooks);
+      expect(result.rows.filter(r => r._side !== 'target').map(r => r.code)).toEqual(['T3', null, null]);
+      expect(result.unmatchedMasterRows).toHaveLength(2);
+      expect(result.stats).toMatchObject({ matched: 1, unmatched: 2, outputRows: 3, fanOutRows: 0 });
+    }
+  });
+});
+
+// --- Join Types ---
+
+describe('join types', () => {
+  const run = (joinType: JoinConfig['joinType']) => joinDatasets(master, target, config({ joinType }), hooks);
+
+  it('keeps unmatched Master rows in a left join', async () => {
+    const { rows, unmatchedMasterRows } = await run('left');
+    expect(rows.map(r => r.name)).toEqual(['Acme Corp', 'Globex', 'Initech']);
+    expect(unmatchedMasterRows.map(r => r.name)).toEqual(['Initech']);
+  });
+
+  it('drops unmatched Master rows in an inner join', async () => {
+    const { rows } = await run('inner');
+    expect(rows.map(r => r.name)).toEqual(['Acme Corp', 'Globex']);
+  });
+
+  it('lists every Target row in Target order in a right join', async () => {
+    const { rows } = await run('right');
+    expect(rows.map(r => r.code)).toEqual(['T1', 'T2', 'T3', 'T4']);
+    expect(rows.filter(r => r._side === 'target').map(r => r.code)).toEqual(['T2', 'T4']);
+  });
+
+  it('adds unused Target rows after the Master rows in a full outer join', async () => {
+    const { rows } = await run('fullOuter');
+    expect(rows.map(r => r._side)).toEqual(['both', 'both', 'master', 'target', 'target']);
+  });
+
+  it('keeps Target rows whose own "id" column repeats or is blank', async () => {
+    const b = dataset('b', [
+      { id: '7', name: 'Acme Corp', code: 'T1' },
+      { id: '7', name: 'Umbrella', code: 'T2' },
+      { id: '', name: 'Hooli', code: 'T3' },
+    ]);
+    const cfg = { targetColumns: ['id', 'code'] };
+    const right = await joinDatasets(master, b, config({ ...cfg, joinType: 'right' }), hooks);
+    expect(right.rows.map(r => r.code)).toEqual(['T1', 'T2', 'T3']);
+    expect(right.rows.map(r => r.id)).toEqual(['7', '7', '']);
+    const full = await joinDatasets(master, b, config({ ...cfg, joinType: 'fullOuter' }), hooks);
+    expect(full.rows.filter(r => r._side === 'target').map(r => r.code)).toEqual(['T2', 'T3']);
+  });
+
+  it('returns only the unmatched side in anti joins', async () => {
+    expect((await run('leftAnti')).rows.map(r => r.name)).toEqual(['Initech']);
+    expect((await run('rightAnti')).rows.map(r => r.code)).toEqual(['T2', 'T4']);
+  });
+});
+
+// --- Scores ---
+
+describe('scores', () => {
+  it('reports near-zero weighted scores as they are', async () => {
+    const a = dataset('a', [{ name: 'qqqq' }]);
+    const b = dataset('b', [{ name: 'wxyz', code: 'T1' }]);
+    const cfg = config({ matchMode: 'weighted', weightedThreshold: 0, blocking: { ...DEFAULT_BLOCKING, strategy: BlockingStrategy.NONE } });
+    const { rows } = await joinDatasets(a, b, cfg, hooks);
+    expect(rows[0]).toMatchObject({ _matchStatus: 'matched', _matchScore: 0 });
+  });
+});
+
+// --- Blocking ---
+
+describe('blocking', () => {
+  const a = dataset('a', [{ name: 'Jonathan Smith' }, { name: 'Maria Garcia' }, { name: 'Wei Zhang' }]);
+  const b = dataset('b', [
+    { name: 'Jonathon Smith', code: 'T1' },
+    { name: 'Maria Garcia', code: 'T2' },
+    { name: 'Wei Zhang', code: 'T3' },
+    { name: 'Peter Jones', code: 'T4' },
+  ]);
+
+  it.each([
+    BlockingStrategy.QGRAM,
+    BlockingStrategy.PHONETIC,
+    BlockingStrategy.SORTED_NEIGHBOURHOOD,
+    BlockingStrategy.PREFIX,
+  ])('finds the same matches as a full scan with %s blocking', async strategy => {
+    const full = await joinDatasets(a, b, config({ blocking: { ...DEFAULT_BLOCKING, strategy: BlockingStrategy.NONE } }), hooks);
+    const blocked = await joinDatasets(a, b, config({ blocking: { ...DEFAULT_BLOCKING, strategy } }), hooks);
+    expect(blocked.rows.map(r => r.code)).toEqual(full.rows.map(r => r.code));
+    expect(full.rows.map(r => r.code)).toEqual(['T1', 'T2', 'T3']);
+  });
+});
+
+// --- Probabilistic Matching ---
+
+describe('probabilistic matching', () => {
+  const people = ['Alice Brown', 'Bob Stone', 'Carol White', 'David Green', 'Erin Black', 'Frank Moore', 'Grace Hall', 'Henry Ford'];
+  const cities = ['Leeds', 'York', 'Bath', 'Hull', 'Ely', 'Wells', 'Derby', 'Ripon'];
+  const a = dataset('a', people.map((name, i) => ({ name, city: cities[i] })));
+  const b = dataset('b', people.map((name, i) => ({ name, city: cities[i], code: `T${i}` })));
+  const probabilistic = config({
+    matchMode: 'probabilistic',
+    probabilistic: { matchThreshold: 0.5 },
+    joinKeys: [{ id: 'name', left: 'name', right: 'name' }, { id: 'city', left: 'city', right: 'city' }],
+    blocking: { ...DEFAULT_BLOCKING, strategy: BlockingStrategy.NONE },
+  });
+
+  it('learns m above u for exact agreement on every key', async () => {
+    const params = await estimateLinkageParams(a, b, probabilistic);
+    expect(Object.keys(params.keys)).toEqual(['name', 'city']);
+    for (const key of Object.values(params.keys)) {
+      expect(key.m.exact).toBeGreaterThan(key.u.exact);
+      expect(key.u.disagree).toBeGreaterThan(key.m.disagree);
+    }
+    expect(params.lambda).toBeGreaterThan(0);
+    expect(params.lambda).toBeLessThan(1);
+  });
+
+  it('matches each row to its counterpart with estimated parameters', async () => {
+    const result = await joinDatasets(a, b, probabilistic, hooks);
+    expect(result.rows.map(r => r.code)).toEqual(people.map((_, i) => `T${i}`));
+    expect(result.rows.every(r => (r._matchProbability as number) >= 0.5)).toBe(true);
+    expect(result.linkageParams).toBeDefined();
+  });
+
+  it('stops EM between iterations when the run is cancelled', async () => {
+    let pauses = 0;
+    const result = await joinDatasets(a, b, probabilistic, { ...hooks, pause: async () => { pauses++; }, isCancelled: () => pauses >= 2 });
+    expect(result.cancelled).toBe(true);
+    expect(result.linkageParams).toMatchObject({ iterations: 1, converged: false });
+    expect(result.rows).toEqual([]);
+  });
+});
+
+// --- Typed Comparators ---
+
+describe('typed comparators', () => {
+  it('compares numeric keys by value within the tolerance', async () => {
+    const a = dataset('a', [{ amount: '1,000.00' }, { amount: '250' }], [{ name: 'amount', type: 'number' }]);
+    const b = dataset('b', [{ amount: '1000', code: 'T1' }, { amount: '262', code: 'T2' }], [{ name: 'amount', type: 'number' }, { name: 'code', type: 'text' }]);
+    const cfg = config({ joinKeys: [{ id: 'k1', left: 'amount', right: 'amount', tolerance: { absolute: 5, relative: 0, days: 0 } }], masterColumns: ['amount'] });
+    const result = await joinDatasets(a, b, cfg, hooks);
+    expect(result.rows.map(r => r.code)).toEqual(['T1', null]);
+    expect(result.rows[0]._matchMethod).toBe(MatchingAlgorithm.NUMERIC);
+  });
+
+  it('compares date keys across formats and day/month order', async () => {
+    const a = dataset('a', [{ day: '2023-12-25' }, { day: '2023-01-05' }], [{ name: 'day', type: 'date' }]);
+    const b = dataset('b', [{ day: '25/12/2023', code: 'T1' }, { day: '05/01/2023', code: 'T2' }], [{ name: 'day', type: 'date' }, { name: 'code', type: 'text' }]);
+    const cfg = config({ joinKeys: [{ id: 'k1', left: 'day', right: 'day' }], masterColumns: ['day'] });
+    const result = await joinDatasets(a, b, cfg, hooks);
+    expect(result.rows.map(r => r.code)).toEqual(['T1', 'T2']);
+    expect(result.rows[0]._matchMethod).toBe(MatchingAlgorithm.DATE);
+  });
+});
@@ -0,0 +1,944 @@
+import { CellValue, ComparisonLevel, Dataset, DomainNormalizer, FellegiSunterParams, JoinConfig, JoinHooks, JoinKeyPair, JoinResult, JoinType, KeyTolerance, MatchCandidate, MatchingAlgorithm, MatchMode, MatchResultRow, NormalizationConfig, PhoneticEncoder, Row, SpatialPredicate, TieBreakRule } from './types';
+import { normalizeString } from './utils';
+import { findSemanticMatches, isAIConfigured } from './geminiService';
+import { Blocker, buildBlocker, describeBlocking } from './blocking';
+import { phoneticTokens, phoneticTokensAgree } from './phonetic';
+import { normalizeDomain } from './domainNormalizers';
+import { TermWeights, buildTermWeights, isStringMetric, STRING_METRICS, stringSimilarity } from './similarity';
+import { DateOrder, DEFAULT_TOLERANCE, RangeIndex, TypedComparator, ValueRange, allowedDistance, buildRangeIndex, detectDateOrder, parseRange, rangeDistance, resolveComparator, typedLevel, typedScore } from './typedComparators';
+import { describeCrs, sameCrs } from './crs';
+import { Shape, intersects, isGeographic, localProjection, parseGeometry, shapeDistance, within } from './geometry';
+import { NearestItem, RTree, buildRTree } from './rtree';
+import { ComparisonPattern, EstimationControl, comparisonLevel, estimateParameters, estimateU, hasParamsFor, levelWeight, posteriorProbability } from './fellegiSunter';
+
+const PROGRESS_INTERVAL = 100;
+const LOG_INTERVAL = 500;
+
+interface TargetColumnIndex {
+  values: string[]; // Normalized value per Target row
+  exact: Map<string, number[]>;
+  blocker: Blocker;
+  phoneticEncoder: PhoneticEncoder;
+  phoneticCodes: Map<number, string[][]>; // Per-word codes, filled lazily while scoring
+  termWeights?: TermWeights; // Built on first TF-IDF comparison
+  typed?: TypedColumnIndex; // Numeric and date keys, compared by value instead of text
+  spatial?: SpatialColumnIndex; // Geometry keys
+}
+
+interface TypedColumnIndex {
+  comparator: TypedComparator;
+  tolerance: KeyTolerance;
+  masterDateOrder: DateOrder; // Day/month order of the Master column; the Target's is applied while indexing
+  ranges: RangeIndex;
+}
+
+interface SpatialColumnIndex {
+  predicate: SpatialPredicate;
+  distance?: number; // Metres
+  geographic: boolean; // Longitude/latitude rather than projected coordinates
+  metresPerUnit: number; // Projected coordinates only
+  shapes: Array<Shape | null>; // Parsed geometry per Target row
+  tree: RTree;
+}
+
+type TargetIndex = Record<string, TargetColumnIndex>; // Keyed by JoinKeyPair.id
+
+interface AICandidate {
+  drivingVal: string;
+  row: MatchResultRow;
+  keyIndex: number;
+}
+
+// --- Indexing ---
+
+// Typed values are parsed from the raw cells; text normalization would strip their separators
+const buildTypedIndex = (comparator: TypedComparator, kp: JoinKeyPair, tableA: Dataset, tableB: Dataset): TypedColumnIndex => {
+  const targetValues = tableB.data.map(row => row[kp.right]);
+  const targetDateOrder = detectDateOrder(targetValues);
+  return {
+    comparator,
+    tolerance: kp.tolerance ?? DEFAULT_TOLERANCE,
+    masterDateOrder: detectDateOrder(tableA.data.map(row => row[kp.left])),
+    ranges: buildRangeIndex(targetValues.map(value => parseRange(comparator, value, targetDateOrder))),
+  };
+};
+
+// The Target's CRS decides how coordinates become metres; without one, lon/lat is guessed from the extent
+const buildSpatialIndex = (kp: JoinKeyPair, tableB: Dataset): SpatialColumnIndex => {
+  const shapes = tableB.data.map(row => parseGeometry(row[kp.right]));
+  return {
+    predicate: kp.spatial ?? 'intersects',
+    distance: kp.distance,
+    geographic: tableB.crs?.geographic ?? shapes.every(shape => !shape || isGeographic(shape.bbox)),
+    metresPerUnit: tableB.crs?.metresPerUnit ?? 1,
+    shapes,
+    tree: buildRTree(shapes.map(shape => shape?.bbox ?? null)),
+  };
+};
+
+export const buildTargetIndices = (tableA: Dataset, tableB: Dataset, config: JoinConfig): TargetIndex => {
+  const lookupData = tableB.data;
+  const targetIndices: TargetIndex = {};
+
+  for (const kp of config.joinKeys) {
+    const comparator = resolveComparator(kp, tableA, tableB);
+    const rules = keyRules(kp, config);
+    // Typed and spatial keys are compared by parsed value, so their text index stays empty
+    const values = lookupData.map(row => (comparator === 'text' ? keyValue(row[kp.right], rules) : ''));
+    const exact = new Map<string, number[]>();
+    values.forEach((val, idx) => {
+      if (val) {
+        if (!exact.has(val)) exact.set(val, []);
+        exact.get(val)?.push(idx);
+      }
+    });
+    targetIndices[kp.id] = {
+      values,
+      exact,
+      blocker: buildBlocker(values, config.blocking, config.phoneticEncoder),
+      phoneticEncoder: config.phoneticEncoder,
+      phoneticCodes: new Map(),
+      typed: comparator === 'numeric' || comparator === 'date' ? buildTypedIndex(comparator, kp, tableA, tableB) : undefined,
+      spatial: comparator === 'spatial' ? buildSpatialIndex(kp, tableB) : undefined
+    };
+  }
+
+  return targetIndices;
+};
+
+const phoneticCodesAt = (index: TargetColumnIndex, idx: number): string[][] => {
+  let codes = index.phoneticCodes.get(idx);
+  if (codes === undefined) {
+    codes = phoneticTokens(index.values[idx], index.phoneticEncoder);
+    index.phoneticCodes.set(idx, codes);
+  }
+  return codes;
+};
+
+const termWeightsFor = (index: TargetColumnIndex): TermWeights => {
+  if (!index.termWeights) index.termWeights = buildTermWeights(index.values);
+  return index.termWeights;
+};
+
+// --- Scoring ---
+
+interface ScoredCandidate {
+  idx: number;
+  keyScores: number[]; // One score per join key processed so far
+  method: MatchingAlgorithm; // Weakest method used across the keys
+  score: number; // Combined score across all keys, set once every key is scored
+  weight?: number; // Probabilistic mode: total match weight
+  probability?: number; // Probabilistic mode: posterior match probability
+}
+
+interface KeyRules {
+  algorithms: MatchingAlgorithm[];
+  threshold: number;
+  normalization: NormalizationConfig;
+  domain: DomainNormalizer;
+  countryCode?: string;
+}
+
+// Per-key settings fall back to the global ones in JoinConfig
+export const keyRules = (kp: JoinKeyPair, config: JoinConfig): KeyRules => ({
+  algorithms: kp.algorithms && kp.algorithms.length > 0 ? kp.algorithms : config.algorithms,
+  threshold: kp.threshold ?? config.threshold,
+  normalization: kp.normalization ?? config.normalization,
+  domain: kp.domain ?? 'none',
+  countryCode: kp.countryCode,
+});
+
+// The comparable form of a cell: typed parsing first, then the generic normalization
+const keyValue = (value: CellValue, rules: KeyRules): string =>
+  normalizeString(normalizeDomain(value, rules.domain, rules.countryCode), rules.normalization);
+
+interface KeyInput {
+  kp: JoinKeyPair;
+  valA: string;
+  phoneticA: string[][];
+  rangeA: ValueRange | null; // Typed keys only
+  shapeA: Shape | null; // Spatial keys only
+  nearestA: NearestItem[]; // Spatial 'nearest' keys: closest Target rows, closest first
+  rules: KeyRules;
+  targetIndex: TargetColumnIndex;
+}
+
+const keyInput = (kp: JoinKeyPair, rowA: Row, targetIndices: TargetIndex, config: JoinConfig): KeyInput => {
+  const rules = keyRules(kp, config);
+  const targetIndex = targetIndices[kp.id];
+  const { typed, spatial } = targetIndex;
+  const valA = typed || spatial ? '' : keyValue(rowA[kp.left], rules);
+  const shapeA = spatial ? parseGeometry(rowA[kp.left]) : null;
+  return {
+    kp,
+    valA,
+    phoneticA: phoneticTokens(valA, config.phoneticEncoder),
+    rangeA: typed ? parseRange(typed.comparator, rowA[kp.left], typed.masterDateOrder) : null,
+    shapeA,
+    nearestA: spatial?.predicate === 'nearest' && shapeA ? nearestTargets(shapeA, spatial) : [],
+    rules,
+    targetIndex
+  };
+};
+
+const keyInputsFor = (rowA: Row, targetIndices: TargetIndex, config: JoinConfig): KeyInput[] =>
+  config.joinKeys.map(kp => keyInput(kp, rowA, targetIndices, config));
+
+const hasValue = (input: KeyInput) => {
+  if (input.targetIndex.typed) return input.rangeA !== null;
+  if (input.targetIndex.spatial) return input.shapeA !== null;
+  return input.valA !== '';
+};
+
+const hasFuzzy = (algorithms: MatchingAlgorithm[]) =>
+  algorithms.includes(MatchingAlgorithm.PHONETIC) || algorithms.some(isStringMetric);
+
+// Best score across the enabled string metrics; the reported method is the metric that produced it
+const bestSimilarity = (
+  valA: string,
+  idx: number,
+  targetIndex: TargetColumnIndex,
+  algorithms: MatchingAlgorithm[]
+): { similarity: number; method: MatchingAlgorithm } | null => {
+  const valB = targetIndex.values[idx];
+  let best: { similarity: number; method: MatchingAlgorithm } | null = null;
+  for (const algorithm of STRING_METRICS) {
+    if (!algorithms.includes(algorithm)) continue;
+    const termWeights = algorithm === MatchingAlgorithm.TFIDF_COSINE ? termWeightsFor(targetIndex) : undefined;
+    const similarity = stringSimilarity(algorithm, valA, valB, termWeights);
+    if (!best || similarity > best.similarity) best = { similarity, method: algorithm };
+  }
+  return best;
+};
+
+interface RowMatch {
+  ranked: ScoredCandidate[]; // Best first, after tie-breaking
+  ambiguous: boolean;
+  candidatesScored: number;
+}
+
+const SCORE_EPSILON = 1e-9;
+
+// Lower rank = weaker evidence; a candidate reports the weakest method it needed
+const METHOD_RANK: Partial<Record<MatchingAlgorithm, number>> = {
+  [MatchingAlgorithm.LEVENSHTEIN]: 0,
+  [MatchingAlgorithm.PHONETIC]: 1,
+  [MatchingAlgorithm.EXACT]: 2,
+};
+
+const weakerMethod = (a: MatchingAlgorithm, b: MatchingAlgorithm): MatchingAlgorithm =>
+  (METHOD_RANK[b] ?? 0) < (METHOD_RANK[a] ?? 0) ? b : a;
+
+// --- Typed Keys ---
+
+const typedMethod = (typed: TypedColumnIndex) =>
+  typed.comparator === 'numeric' ? MatchingAlgorithm.NUMERIC : MatchingAlgorithm.DATE;
+
+const typedGap = (input: KeyInput, typed: TypedColumnIndex, idx: number): { distance: number; allowed: number } | null => {
+  const rangeB = typed.ranges.ranges[idx];
+  if (!input.rangeA || !rangeB) return null;
+  return { distance: rangeDistance(input.rangeA, rangeB), allowed: allowedDistance(typed.comparator, typed.tolerance, input.rangeA) };
+};
+
+// Target rows within the key's tolerance of the Master value
+const typedCandidates = (input: KeyInput, typed: TypedColumnIndex): number[] =>
+  input.rangeA ? typed.ranges.candidates(input.rangeA, allowedDistance(typed.comparator, typed.tolerance, input.rangeA)) : [];
+
+// --- Spatial Keys ---
+
+const NEAREST_CANDIDATES = 5;
+
+const projectionFor = (shapeA: Shape, spatial: SpatialColumnIndex) => localProjection(shapeA.bbox, spatial.geographic, spatial.metresPerUnit);
+
+const nearestTargets = (shapeA: Shape, spatial: SpatialColumnIndex): NearestItem[] => {
+  const projection = projectionFor(shapeA, spatial);
+  return spatial.tree.nearest(
+    NEAREST_CANDIDATES,
+    bbox => projection.bboxDistance(shapeA.bbox, bbox),
+    idx => shapeDistance(shapeA, spatial.shapes[idx]!, projection),
+    spatial.distance
+  );
+};
+
+// Target rows whose bounding box can satisfy the predicate
+const spatialCandidates = (input: KeyInput, spatial: SpatialColumnIndex): number[] => {
+  const shapeA = input.shapeA;
+  if (!shapeA) return [];
+  switch (spatial.predicate) {
+    case 'nearest':
+      return input.nearestA.map(n => n.idx).sort((a, b) => a - b);
+    case 'withinDistance':
+      return spatial.tree.search(projectionFor(shapeA, spatial).expand(shapeA.bbox, spatial.distance ?? 0));
+    default:
+      return spatial.tree.search(shapeA.bbox);
+  }
+};
+
+/**
+ * Intersects and within score 100 when they hold. Within distance falls from 100 to 50
+ * at the limit. Nearest scores the closest Target 100, falling to 50 at the distance
+ * limit beyond it, or at the farthest of the nearest candidates when there is no limit.
+ */
+const spatialScore = (input: KeyInput, spatial: SpatialColumnIndex, idx: number): number | null => {
+  const shapeA = input.shapeA;
+  const shapeB = spatial.shapes[idx];
+  if (!shapeA || !shapeB) return null;
+  const distanceTo = () => shapeDistance(shapeA, shapeB, projectionFor(shapeA, spatial));
+
+  switch (spatial.predicate) {
+    case 'within':
+      return within(shapeA, shapeB) ? 100 : null;
+    case 'withinDistance':
+      return typedScore(distanceTo(), spatial.distance ?? 0);
+    case 'nearest': {
+      if (input.nearestA.length === 0) return null;
+      const closest = input.nearestA[0].distance;
+      const distance = input.nearestA.find(n => n.idx === idx)?.distance ?? distanceTo();
+      if (spatial.distance !== undefined && distance > spatial.distance) return null;
+      const span = spatial.distance !== undefined ? spatial.distance - closest : input.nearestA[input.nearestA.length - 1].distance - closest;
+      return typedScore(distance - closest, span);
+    }
+    default:
+      return intersects(shapeA, shapeB) ? 100 : null;
+  }
+};
+
+const spatialLevel = (score: number | null): ComparisonLevel => {
+  if (score === null) return 'disagree';
+  if (score >= 100 - SCORE_EPSILON) return 'exact';
+  return score >= 75 ? 'fuzzyHigh' : 'fuzzyLow';
+};
+
+// --- Key Scoring ---
+
+/**
+ * Typed and spatial keys ignore the string algorithms and threshold; the tolerance
+ * or predicate decides whether the values match.
+ */
+const scoreKey = (input: KeyInput, idx: number): { score: number; method: MatchingAlgorithm } | null => {
+  const { valA, phoneticA, rules, targetIndex } = input;
+  if (targetIndex.typed) {
+    const gap = typedGap(input, targetIndex.typed, idx);
+    const score = gap ? typedScore(gap.distance, gap.allowed) : null;
+    return score === null ? null : { score, method: typedMethod(targetIndex.typed) };
+  }
+  if (targetIndex.spatial) {
+    const score = spatialScore(input, targetIndex.spatial, idx);
+    return score === null ? null : { score, method: MatchingAlgorithm.SPATIAL };
+  }
+
+  const algorithms = rules.algorithms;
+  const valB = targetIndex.values[idx];
+
+  if (valA === valB && algorithms.includes(MatchingAlgorithm.EXACT)) {
+    return { score: 100, method: MatchingAlgorithm.EXACT };
+  }
+  if (algorithms.includes(MatchingAlgorithm.PHONETIC) && phoneticTokensAgree(phoneticA, phoneticCodesAt(targetIndex, idx))) {
+    return { score: 90, method: MatchingAlgorithm.PHONETIC };
+  }
+  const best = bestSimilarity(valA, idx, targetIndex, algorithms);
+  if (best && best.similarity * 100 >= rules.threshold) {
+    return { score: best.similarity * 100, method: best.method };
+  }
+  return null;
+};
+
+const meanScore = (keyScores: number[]) => keyScores.reduce((sum, s) => sum + s, 0) / keyScores.length;
+
+// Compares the keys after the first, in order; used to separate candidates with equal totals
+const compareSecondaryKeys = (a: ScoredCandidate, b: ScoredCandidate): number => {
+  for (let k = 1; k < a.keyScores.length; k++) {
+    const diff = b.keyScores[k] - a.keyScores[k];
+    if (Math.abs(diff) > SCORE_EPSILON) return diff;
+  }
+  return 0;
+};
+
+const rankCandidates = (candidates: ScoredCandidate[], config: JoinConfig): { ranked: ScoredCandidate[]; ambiguous: boolean } => {
+  const ranked = [...candidates].sort((a, b) => {
+    const diff = b.score - a.score;
+    if (Math.abs(diff) > SCORE_EPSILON) return diff;
+    if (config.tieBreak === 'secondaryKey') {
+      const secondary = compareSecondaryKeys(a, b);
+      if (secondary !== 0) return secondary;
+    }
+    return a.idx - b.idx; // First occurrence in the Target
+  });
+
+  const ambiguous = config.tieBreak === 'ambiguous'
+    && ranked.length > 1
+    && Math.abs(ranked[0].score - ranked[1].score) <= SCORE_EPSILON;
+
+  return { ranked, ambiguous };
+};
+
+// --- Hierarchical Matching ---
+
+// Narrows the Target candidates key by key; stops at the first key with no candidates.
+const matchRowHierarchical = (rowA: Row, targetIndices: TargetIndex, config: JoinConfig): RowMatch => {
+  const keyPairs = config.joinKeys;
+  let candidates: ScoredCandidate[] | null = null;
+  let candidatesScored = 0;
+
+  for (let k = 0; k < keyPairs.length; k++) {
+    const input = keyInput(keyPairs[k], rowA, targetIndices, config);
+    const { valA, rules, targetIndex } = input;
+    let pool: ScoredCandidate[];
+
+    if (candidates === null && (targetIndex.typed || targetIndex.spatial)) {
+      const proposed = targetIndex.typed ? typedCandidates(input, targetIndex.typed) : spatialCandidates(input, targetIndex.spatial!);
+      pool = proposed.map(idx => ({ idx, keyScores: [], method: MatchingAlgorithm.EXACT, score: 0 }));
+    } else if (candidates === null) {
+      const exactMatches = targetIndex.exact.get(valA);
+      if (exactMatches && (rules.algorithms.includes(MatchingAlgorithm.EXACT) || rules.algorithms.some(isStringMetric))) {
+        candidates = exactMatches.map(idx => ({ idx, keyScores: [100], method: MatchingAlgorithm.EXACT, score: 0 }));
+        continue;
+      }
+      if (!hasFuzzy(rules.algorithms)) {
+        candidates = [];
+        break;
+      }
+      pool = targetIndex.blocker.candidates(valA).map(idx => ({ idx, keyScores: [], method: MatchingAlgorithm.EXACT, score: 0 }));
+    } else {
+      pool = candidates;
+    }
+
+    candidatesScored += pool.length;
+    const next: ScoredCandidate[] = [];
+    for (const candidate of pool) {
+      const result = scoreKey(input, candidate.idx);
+      if (result) {
+        next.push({
+          idx: candidate.idx,
+          keyScores: [...candidate.keyScores, result.score],
+          method: weakerMethod(candidate.method, result.method),
+          score: 0
+        });
+      }
+    }
+
+    candidates = next;
+    if (candidates.length === 0) break;
+  }
+
+  if (!candidates || candidates.length === 0) {
+    return { ranked: [], ambiguous: false, candidatesScored };
+  }
+
+  candidates.forEach(c => c.score = meanScore(c.keyScores));
+  return { ...rankCandidates(candidates, config), candidatesScored };
+};
+
+// --- Weighted Matching ---
+
+// Any key can propose candidates, so a poor value in one column does not hide the row
+const candidatePool = (keyInputs: KeyInput[]): number[] => {
+  const pool = new Set<number>();
+  for (const input of keyInputs) {
+    const { valA, rules, targetIndex } = input;
+    if (targetIndex.typed) {
+      typedCandidates(input, targetIndex.typed).forEach(idx => pool.add(idx));
+      continue;
+    }
+    if (targetIndex.spatial) {
+      spatialCandidates(input, targetIndex.spatial).forEach(idx => pool.add(idx));
+      continue;
+    }
+    if (!valA) continue;
+    targetIndex.exact.get(valA)?.forEach(idx => pool.add(idx));
+    if (hasFuzzy(rules.algorithms)) targetIndex.blocker.candidates(valA).forEach(idx => pool.add(idx));
+  }
+  return Array.from(pool).sort((a, b) => a - b);
+};
+
+const keyWeight = (kp: JoinKeyPair) => Math.max(0, kp.weight ?? 1);
+
+/**
+ * Scores every key for each candidate and combines them as a weighted average.
+ * A key below its own threshold contributes 0; the candidate matches when the
+ * combined score reaches `weightedThreshold`.
+ */
+const matchRowWeighted = (rowA: Row, targetIndices: TargetIndex, config: JoinConfig): RowMatch => {
+  const totalWeight = config.joinKeys.reduce((sum, kp) => sum + keyWeight(kp), 0) || 1;
+  const keyInputs = keyInputsFor(rowA, targetIndices, config);
+  const pool = candidatePool(keyInputs);
+
+  const candidates: ScoredCandidate[] = [];
+  for (const idx of pool) {
+    const keyScores: number[] = [];
+    let method = MatchingAlgorithm.EXACT;
+    let weighted = 0;
+
+    keyInputs.forEach(input => {
+      const result = hasValue(input) ? scoreKey(input, idx) : null;
+      keyScores.push(result ? result.score : 0);
+      if (result) {
+        weighted += result.score * keyWeight(input.kp);
+        method = weakerMethod(method, result.method);
+      }
+    });
+
+    const score = weighted / totalWeight;
+    if (score >= config.weightedThreshold) candidates.push({ idx, keyScores, method, score });
+  }
+
+  return { ...rankCandidates(candidates, config), candidatesScored: pool.length };
+};
+
+// --- Probabilistic Matching ---
+
+const EM_SAMPLE_ROWS = 2000;
+const U_SAMPLE_PAIRS = 20000;
+
+// Levels use the best enabled string metric, or Levenshtein when the key has none; typed and spatial keys use their own scale
+const compareKey = (input: KeyInput, idx: number): { level: ComparisonLevel; method: MatchingAlgorithm } => {
+  const { typed, spatial } = input.targetIndex;
+  if (typed) {
+    const gap = typedGap(input, typed, idx);
+    return { level: gap ? typedLevel(gap.distance, gap.allowed) : 'disagree', method: typedMethod(typed) };
+  }
+  if (spatial) return { level: spatialLevel(spatialScore(input, spatial, idx)), method: MatchingAlgorithm.SPATIAL };
+
+  const valB = input.targetIndex.values[idx];
+  if (!input.valA || !valB) return { level: 'disagree', method: MatchingAlgorithm.EXACT };
+  if (input.valA === valB) return { level: 'exact', method: MatchingAlgorithm.EXACT };
+
+  const phoneticAgrees = input.rules.algorithms.includes(MatchingAlgorithm.PHONETIC)
+    && phoneticTokensAgree(input.phoneticA, phoneticCodesAt(input.targetIndex, idx));
+  const algorithms = input.rules.algorithms.some(isStringMetric) ? input.rules.algorithms : [MatchingAlgorithm.LEVENSHTEIN];
+  const best = bestSimilarity(input.valA, idx, input.targetIndex, algorithms);
+  const level = comparisonLevel(input.valA, valB, best?.similarity ?? 0, phoneticAgrees);
+  const method = phoneticAgrees && (!best || best.similarity < 0.9) ? MatchingAlgorithm.PHONETIC : best?.method ?? MatchingAlgorithm.LEVENSHTEIN;
+  return { level, method };
+};
+
+// Deterministic LCG so repeated estimates on the same data agree
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+/**
+ * Learns u from random Master x Target pairs, then m and the match prior with EM over
+ * the blocked candidate pairs of an evenly spaced sample of Master rows.
+ */
+export const estimateLinkageParams = async (
+  tableA: Dataset,
+  tableB: Dataset,
+  config: JoinConfig,
+  control: EstimationControl = {},
+  targetIndices: TargetIndex = buildTargetIndices(tableA, tableB, config)
+): Promise<FellegiSunterParams> => {
+  const drivingData = tableA.data;
+  const keyIds = config.joinKeys.map(kp => kp.id);
+  const step = Math.max(1, Math.floor(drivingData.length / EM_SAMPLE_ROWS));
+
+  const patternCounts = new Map<string, ComparisonPattern>();
+  for (let i = 0; i < drivingData.length; i += step) {
+    const keyInputs = keyInputsFor(drivingData[i], targetIndices, config);
+    for (const idx of candidatePool(keyInputs)) {
+      const levels = keyInputs.map(input => compareKey(input, idx).level);
+      const patternKey = levels.join('|');
+      const pattern = patternCounts.get(patternKey);
+      if (pattern) pattern.count++;
+      else patternCounts.set(patternKey, { levels, count: 1 });
+    }
+  }
+  const patterns = Array.from(patternCounts.values());
+
+  // u is fixed from random pairs, which are almost all non-matches; EM then only fits m and the prior
+  const random = seededRandom(42);
+  const randomPairs: ComparisonLevel[][] = [];
+  if (drivingData.length > 0 && tableB.data.length > 0) {
+    for (let p = 0; p < U_SAMPLE_PAIRS; p++) {
+      const keyInputs = keyInputsFor(drivingData[Math.floor(random() * drivingData.length)], targetIndices, config);
+      const idx = Math.floor(random() * tableB.data.length);
+      randomPairs.push(keyInputs.map(input => compareKey(input, idx).level));
+    }
+  }
+  const u = randomPairs.length > 0 ? estimateU(randomPairs, keyIds.length) : undefined;
+
+  return estimateParameters(patterns, keyIds, { u }, control);
+};
+
+const matchRowProbabilistic = (rowA: Row, targetIndices: TargetIndex, config: JoinConfig, params: FellegiSunterParams): RowMatch => {
+  const keyInputs = keyInputsFor(rowA, targetIndices, config);
+  const pool = candidatePool(keyInputs);
+
+  const candidates: ScoredCandidate[] = [];
+  for (const idx of pool) {
+    const keyScores: number[] = [];
+    let method = MatchingAlgorithm.EXACT;
+    let weight = 0;
+
+    keyInputs.forEach(input => {
+      const { level, method: keyMethod } = compareKey(input, idx);
+      const w = levelWeight(params.keys[input.kp.id], level);
+      keyScores.push(w);
+      weight += w;
+      if (level !== 'disagree') method = weakerMethod(method, keyMethod);
+    });
+
+    const probability = posteriorProbability(params, weight);
+    if (probability >= config.probabilistic.matchThreshold) {
+      candidates.push({ idx, keyScores, method, score: probability * 100, weight, probability });
+    }
+  }
+
+  return { ...rankCandidates(candidates, config), candidatesScored: pool.length };
+};
+
+const matchRow = (rowA: Row, targetIndices: TargetIndex, config: JoinConfig, params?: FellegiSunterParams): RowMatch => {
+  if (config.matchMode === 'probabilistic' && params) return matchRowProbabilistic(rowA, targetIndices, config, params);
+  if (config.matchMode === 'weighted') return matchRowWeighted(rowA, targetIndices, config);
+  return matchRowHierarchical(rowA, targetIndices, config);
+};
+
+const roundScore = (score: number): number => Math.min(Math.round(score), 100);
+
+const toMatchCandidate = (c: ScoredCandidate, lookupData: Row[]): MatchCandidate => ({
+  targetId: lookupData[c.idx]._rowId,
+  targetIndex: c.idx,
+  score: roundScore(c.score),
+  method: c.method
+});
+
+const buildOutputRow = (
+  rowA: Row,
+  best: ScoredCandidate | undefined,
+  alternatives: ScoredCandidate[],
+  ambiguous: boolean,
+  lookupData: Row[],
+  config: JoinConfig
+): MatchResultRow => {
+  const matchFound = best ? lookupData[best.idx] : null;
+
+  const newRow: any = {
+    _rowId: rowA._rowId,
+    _matchStatus: matchFound ? 'matched' : 'unmatched',
+    _side: matchFound ? 'both' : 'master',
+    _targetId: matchFound ? matchFound._rowId : undefined,
+    _matchScore: best ? roundScore(best.score) : 0,
+    _matchMethod: best ? best.method : MatchingAlgorithm.EXACT,
+    _originalValue: matchFound ? 'Multiple Keys' : 'No Match'
+  };
+  if (best && config.alternativeCount > 0) {
+    newRow._alternatives = alternatives.slice(0, config.alternativeCount).map(c => toMatchCandidate(c, lookupData));
+  }
+  if (ambiguous) newRow._ambiguous = true;
+  if (best?.weight !== undefined) newRow._matchWeight = Math.round(best.weight * 100) / 100;
+  if (best?.probability !== undefined) newRow._matchProbability = best.probability;
+
+  config.masterColumns.forEach(col => newRow[col] = rowA[col]);
+  config.targetColumns.forEach(col => newRow[col] = matchFound ? matchFound[col] : null);
+
+  return newRow;
+};
+
+// --- Cardinality ---
+
+/**
+ * Greedy global assignment for one-to-one joins: all (Master, Target) pairs are taken
+ * best score first, skipping pairs whose Master or Target row is already assigned.
+ */
+const assignOneToOne = (matches: RowMatch[]): Array<ScoredCandidate | undefined> => {
+  const pairs: Array<{ row: number; candidate: ScoredCandidate; score: number }> = [];
+  matches.forEach((m, row) => m.ranked.forEach(candidate => pairs.push({ row, candidate, score: candidate.score })));
+  pairs.sort((a, b) => (Math.abs(b.score - a.score) > SCORE_EPSILON ? b.score - a.score : a.row - b.row || a.candidate.idx - b.candidate.idx));
+
+  // Dense, so the map in selectMatches also visits Master rows that get no Target row
+  const assigned: Array<ScoredCandidate | undefined> = Array.from({ length: matches.length }, () => undefined);
+  const usedTargets = new Set<number>();
+  for (const pair of pairs) {
+    if (assigned[pair.row] || usedTargets.has(pair.candidate.idx)) continue;
+    assigned[pair.row] = pair.candidate;
+    usedTargets.add(pair.candidate.idx);
+  }
+  return assigned;
+};
+
+// Chosen Target candidates per Master row; more than one only for oneToMany
+const selectMatches = (matches: RowMatch[], config: JoinConfig): ScoredCandidate[][] => {
+  switch (config.cardinality) {
+    case 'oneToMany':
+      return matches.map(m => m.ranked);
+    case 'oneToOne':
+      return assignOneToOne(matches).map(c => (c ? [c] : []));
+    default:
+      return matches.map(m => m.ranked.slice(0, 1));
+  }
+};
+
+export const CARDINALITY_LABELS: Record<JoinConfig['cardinality'], string> = {
+  oneToOne: '1:1',
+  oneToMany: '1:N',
+  manyToOne: 'N:1',
+};
+
+export const TIE_BREAK_LABELS: Record<TieBreakRule, string> = {
+  first: 'First occurrence',
+  secondaryKey: 'Best later key',
+  ambiguous: 'Flag as ambiguous',
+};
+
+export const MATCH_MODE_LABELS: Record<MatchMode, string> = {
+  hierarchical: 'Hierarchical',
+  weighted: 'Weighted',
+  probabilistic: 'Probabilistic',
+};
+
+// --- Join Types ---
+
+export const JOIN_TYPE_LABELS: Record<JoinType, string> = {
+  left: 'Left Join',
+  inner: 'Inner Join',
+  right: 'Right Join',
+  fullOuter: 'Full Outer Join',
+  leftAnti: 'Left Anti Join',
+  rightAnti: 'Right Anti Join',
+};
+
+// Columns that carry values for the join type; anti joins only have one side
+export const joinOutputColumns = (config: JoinConfig): string[] => {
+  switch (config.joinType) {
+    case 'leftAnti': return config.masterColumns;
+    case 'rightAnti': return config.targetColumns;
+    default: return [...config.masterColumns, ...config.targetColumns];
+  }
+};
+
+const targetOnlyRow = (rowB: Row, config: JoinConfig): MatchResultRow => {
+  const newRow: any = {
+    _rowId: rowB._rowId,
+    _matchStatus: 'unmatched',
+    _side: 'target',
+    _matchScore: 0,
+    _originalValue: 'No Match'
+  };
+  config.masterColumns.forEach(col => newRow[col] = null);
+  config.targetColumns.forEach(col => newRow[col] = rowB[col]);
+  return newRow;
+};
+
+// Right-side joins list Target rows in Target order, each followed by its matched Master rows
+const inTargetOrder = (matchedRows: MatchResultRow[], lookupData: Row[], usedTargetIndices: Set<number>, config: JoinConfig): MatchResultRow[] => {
+  const byTarget = new Map<string, MatchResultRow[]>();
+  matchedRows.forEach(row => {
+    const key = row._targetId as string;
+    if (!byTarget.has(key)) byTarget.set(key, []);
+    byTarget.get(key)?.push(row);
+  });
+
+  const ordered: MatchResultRow[] = [];
+  lookupData.forEach((rowB, idx) => {
+    const matched = byTarget.get(rowB._rowId);
+    if (matched) ordered.push(...matched);
+    else if (!usedTargetIndices.has(idx)) ordered.push(targetOnlyRow(rowB, config));
+  });
+  return ordered;
+};
+
+const shapeByJoinType = (
+  leftRows: MatchResultRow[],
+  lookupData: Row[],
+  usedTargetIndices: Set<number>,
+  config: JoinConfig
+): MatchResultRow[] => {
+  const matchedRows = leftRows.filter(r => r._matchStatus === 'matched');
+  const unusedTargetRows = () => lookupData
+    .filter((_, idx) => !usedTargetIndices.has(idx))
+    .map(rowB => targetOnlyRow(rowB, config));
+
+  switch (config.joinType) {
+    case 'inner': return matchedRows;
+    case 'right': return inTargetOrder(matchedRows, lookupData, usedTargetIndices, config);
+    case 'fullOuter': return [...leftRows, ...unusedTargetRows()];
+    case 'leftAnti': return leftRows.filter(r => r._matchStatus === 'unmatched');
+    case 'rightAnti': return unusedTargetRows();
+    default: return leftRows;
+  }
+};
+
+// --- AI Fallback ---
+
+const applySemanticMatches = async (
+  aiCandidates: AICandidate[],
+  lookupData: Row[],
+  usedTargetIndices: Set<number>,
+  config: JoinConfig,
+  hooks: JoinHooks
+) => {
+  const matcher = hooks.semanticMatcher || findSemanticMatches;
+  const uniqueDrivingVals = Array.from(new Set(aiCandidates.map(c => c.drivingVal)));
+  // AI only supports single-key joins, so the reference list is the first Target key column
+  const targetKeyCol = config.joinKeys[0].right;
+  const rules = keyRules(config.joinKeys[0], config);
+  const lookupRefVals = lookupData.map(l => keyValue(l[targetKeyCol], rules));
+
+  const aiMatches = await matcher(lookupRefVals, uniqueDrivingVals);
+
+  aiCandidates.forEach(c => {
+    const match = aiMatches.find(m => m.target === c.drivingVal);
+    if (!match || !match.match) return;
+
+    // First Target row with the matched value wins; one-to-one joins skip rows already assigned
+    const oneToOne = config.cardinality === 'oneToOne';
+    const lookupIndex = lookupData.findIndex((l, idx) =>
+      (!oneToOne || !usedTargetIndices.has(idx)) && keyValue(l[targetKeyCol], rules) === match.match
+    );
+    if (lookupIndex === -1) return;
+    const lookupMatch = lookupData[lookupIndex];
+    usedTargetIndices.add(lookupIndex);
+
+    const row = c.row;
+    row._matchStatus = 'matched';
+    row._side = 'both';
+    row._targetId = lookupMatch._rowId;
+    row._matchScore = match.confidence === 'High' ? 95 : 85;
+    row._matchMethod = MatchingAlgorithm.AI_SEMANTIC;
+    config.targetColumns.forEach(col => {
+      row[col] = lookupMatch[col];
+    });
+  });
+};
+
+// --- Public API ---
+
+/**
+ * Joins every Master (tableA) row onto the Target (tableB) using the configured keys.
+ * Pure apart from the optional AI call; progress is reported through `hooks`.
+ */
+export const joinDatasets = async (
+  tableA: Dataset,
+  tableB: Dataset,
+  config: JoinConfig,
+  hooks: JoinHooks = {}
+): Promise<JoinResult> => {
+  const log = async (msg: string) => { await hooks.onLog?.(msg); };
+  const aiAvailable = hooks.isSemanticAvailable || (hooks.semanticMatcher ? () => true : isAIConfigured);
+
+  const modeLabel = MATCH_MODE_LABELS[config.matchMode];
+  await log(`Initializing ${modeLabel} Join (Master -> Target)...`);
+
+  const drivingData = tableA.data;
+  const lookupData = tableB.data;
+
+  await log(`Indexing Target Data columns for fast retrieval...`);
+  await log(`Candidate blocking: ${describeBlocking(config.blocking)}`);
+  const targetIndices = buildTargetIndices(tableA, tableB, config);
+  const describeValueKey = (kp: JoinKeyPair) => {
+    const { typed, spatial } = targetIndices[kp.id];
+    return typed ? `${kp.left} (${typed.comparator})` : spatial ? `${kp.left} (spatial, ${spatial.predicate})` : null;
+  };
+  const valueKeys = config.joinKeys.map(describeValueKey).filter(Boolean);
+  if (valueKeys.length > 0) await log(`Comparing by value: ${valueKeys.join(', ')}.`);
+  const hasSpatialKey = config.joinKeys.some(kp => targetIndices[kp.id].spatial);
+  if (hasSpatialKey && tableA.crs && tableB.crs && !sameCrs(tableA.crs, tableB.crs)) {
+    await log(`Warning: Master uses ${describeCrs(tableA.crs)} but Target uses ${describeCrs(tableB.crs)}. Reproject both to WGS84 for spatial keys to line up.`);
+  }
+
+  let linkageParams: FellegiSunterParams | undefined;
+  if (config.matchMode === 'probabilistic') {
+    const keyIds = config.joinKeys.map(kp => kp.id);
+    if (hasParamsFor(config.probabilistic.params, keyIds)) {
+      linkageParams = config.probabilistic.params;
+      await log("Using supplied Fellegi-Sunter parameters.");
+    } else {
+      await log("Estimating m/u probabilities with expectation-maximisation...");
+      linkageParams = await estimateLinkageParams(tableA, tableB, config, hooks, targetIndices);
+      await log(`EM ${linkageParams.converged ? 'converged' : 'stopped'} after ${linkageParams.iterations} iterations on ${linkageParams.pairCount} pairs (match prior ${(linkageParams.lambda * 100).toFixed(2)}%).`);
+    }
+  }
+
+  const matches: RowMatch[] = [];
+  const startedAt = Date.now();
+  let matchedSoFar = 0;
+  let candidatesScored = 0;
+  let cancelled = false;
+
+  const reportProgress = async (processed: number) => {
+    const elapsedMs = Date.now() - startedAt;
+    const etaMs = processed > 0 ? Math.round((elapsedMs / processed) * (drivingData.length - processed)) : null;
+    await hooks.onProgress?.({ processed, total: drivingData.length, matched: matchedSoFar, elapsedMs, etaMs });
+  };
+  const useAI = config.algorithms.includes(MatchingAlgorithm.AI_SEMANTIC) && config.joinKeys.length === 1 && aiAvailable();
+
+  await log(`Starting ${modeLabel} Matching on ${drivingData.length} Master rows (${CARDINALITY_LABELS[config.cardinality]})...`);
+
+  for (let i = 0; i < drivingData.length; i++) {
+    if (i > 0 && i % PROGRESS_INTERVAL === 0) {
+      if (i % LOG_INTERVAL === 0) await log(`Processed ${i} / ${drivingData.length} rows...`);
+      await reportProgress(i);
+    }
+    if (hooks.isCancelled?.()) {
+      cancelled = true;
+      await log(`Cancelled after ${i} / ${drivingData.length} rows. Keeping partial results.`);
+      break;
+    }
+
+    const match = matchRow(drivingData[i], targetIndices, config, linkageParams);
+    candidatesScored += match.candidatesScored;
+    if (match.ranked.length > 0) matchedSoFar++;
+    matches.push(match);
+  }
+  await reportProgress(matches.length);
+  if (matches.length > 0) {
+    await log(`Blocking scored ${(candidatesScored / matches.length).toFixed(1)} Target candidates per Master row on average (${lookupData.length} Target rows).`);
+  }
+
+  if (config.cardinality === 'oneToOne') await log("Assigning Target rows one-to-one by best global score...");
+  const selected = selectMatches(matches, config);
+
+  const outputRows: MatchResultRow[] = [];
+  const usedTargetIndices = new Set<number>();
+  const aiCandidates: AICandidate[] = [];
+
+  selected.forEach((chosen, i) => {
+    const rowA = drivingData[i];
+    const match = matches[i];
+
+    if (chosen.length === 0) {
+      const row = buildOutputRow(rowA, undefined, [], false, lookupData, config);
+      if (useAI) {
+        const firstKey = config.joinKeys[0];
+        aiCandidates.push({ drivingVal: keyValue(rowA[firstKey.left], keyRules(firstKey, config)), row, keyIndex: 0 });
+      }
+      outputRows.push(row);
+      return;
+    }
+
+    chosen.forEach((candidate, rank) => {
+      usedTargetIndices.add(candidate.idx);
+      const alternatives = config.cardinality === 'oneToMany' ? [] : match.ranked.filter(c => c !== candidate);
+      const row = buildOutputRow(rowA, candidate, alternatives, match.ambiguous, lookupData, config);
+      if (config.cardinality === 'oneToMany') row._matchRank = rank + 1;
+      outputRows.push(row);
+    });
+  });
+
+  if (aiCandidates.length > 0 && !cancelled) {
+    await log(`Performing AI Semantic Analysis on ${aiCandidates.length} unmatched items...`);
+    await applySemanticMatches(aiCandidates, lookupData, usedTargetIndices, config, hooks);
+  }
+
+  await log("Analyzing Unmatched Target Data...");
+  const unmatchedTargetRows = lookupData.filter((_, idx) => !usedTargetIndices.has(idx));
+
+  await log(`Building ${JOIN_TYPE_LABELS[config.joinType]} output...`);
+  const rows = shapeByJoinType(outputRows, lookupData, usedTargetIndices, config);
+
+  await log("Calculating Final Statistics...");
+  const matchedMasterIds = new Set(outputRows.filter(r => r._matchStatus === 'matched').map(r => r._rowId));
+  const matched = matchedMasterIds.size;
+  const fanOutRows = outputRows.length - matches.length;
+  if (fanOutRows > 0) await log(`One-to-many fan-out added ${fanOutRows} extra rows.`);
+
+  return {
+    rows,
+    unmatchedMasterRows: outputRows.filter(r => r._matchStatus === 'unmatched'),
+    unmatchedTargetRows,
+    stats: { matched, unmatched: matches.length - matched, outputRows: outputRows.length, fanOutRows },
+    cancelled,
+    linkageParams
+  };
+};
@@ -0,0 +1,104 @@
+import { Dataset, FellegiSunterParams, JoinConfig, JoinProgress, JoinResult } from './types';
+import type { JoinWorkerRequest, JoinWorkerResponse } from './joinWorker';
+
+export interface JoinRunHandlers {
+  onLog?: (message: string) => void;
+  onProgress?: (progress: JoinProgress) => void;
+}
+
+// `terminate()` stops the worker at once and rejects `result`; used when the page unmounts or a newer run replaces this one
+export interface WorkerTask<T> {
+  result: Promise<T>;
+  terminate: () => void;
+}
+
+export interface JoinRun extends WorkerTask<JoinResult> {
+  cancel: () => void;
+}
+
+const stopWorker = (worker: Worker, reject: (reason: Error) => void) => {
+  worker.terminate();
+  reject(new Error('Join worker stopped'));
+};
+
+/**
+ * Runs `joinDatasets` off the main thread. `cancel()` stops the run after the current
+ * batch of rows; the returned result then holds the partial output with `cancelled: true`.
+ */
+const createJoinWorker = () => new Worker(new URL('./joinWorker.ts', import.meta.url), { type: 'module' });
+
+export const runJoinInWorker = (
+  tableA: Dataset,
+  tableB: Dataset,
+  config: JoinConfig,
+  handlers: JoinRunHandlers = {}
+): JoinRun => {
+  const worker = createJoinWorker();
+  const send = (msg: JoinWorkerRequest) => worker.postMessage(msg);
+  let rejectResult!: (reason: Error) => void;
+
+  const result = new Promise<JoinResult>((resolve, reject) => {
+    rejectResult = reject;
+    worker.onmessage = (e: MessageEvent<JoinWorkerResponse>) => {
+      const msg = e.data;
+      switch (msg.type) {
+        case 'log':
+          handlers.onLog?.(msg.message);
+          break;
+        case 'progress':
+          handlers.onProgress?.(msg.progress);
+          break;
+        case 'done':
+          worker.terminate();
+          resolve(msg.result);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(msg.message));
+          break;
+        default:
+          break;
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Join worker failed'));
+    };
+  });
+
+  send({ type: 'start', tableA, tableB, config });
+
+  return {
+    result,
+    cancel: () => send({ type: 'cancel' }),
+    terminate: () => stopWorker(worker, rejectResult)
+  };
+};
+
+// Runs the Fellegi-Sunter EM estimation off the main thread so the parameters can be reviewed before joining
+export const estimateLinkageInWorker = (tableA: Dataset, tableB: Dataset, config: JoinConfig): WorkerTask<FellegiSunterParams> => {
+  const worker = createJoinWorker();
+  let rejectResult!: (reason: Error) => void;
+
+  const result = new Promise<FellegiSunterParams>((resolve, reject) => {
+    rejectResult = reject;
+    worker.onmessage = (e: MessageEvent<JoinWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'estimated') {
+        worker.terminate();
+        resolve(msg.params);
+      } else if (msg.type === 'error') {
+        worker.terminate();
+        reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Join worker failed'));
+    };
+    const request: JoinWorkerRequest = { type: 'estimate', tableA, tableB, config };
+    worker.postMessage(request);
+  });
+
+  return { result, terminate: () => stopWorker(worker, rejectResult) };
+};
@@ -0,0 +1,59 @@
+/// <reference lib="webworker" />
+import { Dataset, FellegiSunterParams, JoinConfig, JoinProgress, JoinResult } from './types';
+import { estimateLinkageParams, joinDatasets } from './joinEngine';
+
+// Messages exchanged between the main thread (joinService.ts) and this worker
+export type JoinWorkerRequest =
+  | { type: 'start'; tableA: Dataset; tableB: Dataset; config: JoinConfig }
+  | { type: 'estimate'; tableA: Dataset; tableB: Dataset; config: JoinConfig }
+  | { type: 'cancel' };
+
+export type JoinWorkerResponse =
+  | { type: 'log'; message: string }
+  | { type: 'progress'; progress: JoinProgress }
+  | { type: 'done'; result: JoinResult }
+  | { type: 'estimated'; params: FellegiSunterParams }
+  | { type: 'error'; message: string };
+
+declare const self: DedicatedWorkerGlobalScope;
+
+let cancelRequested = false;
+
+const post = (msg: JoinWorkerResponse) => self.postMessage(msg);
+
+// Gives the worker's event loop a turn so a pending 'cancel' message can be handled
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+self.onmessage = async (e: MessageEvent<JoinWorkerRequest>) => {
+  const msg = e.data;
+
+  if (msg.type === 'cancel') {
+    cancelRequested = true;
+    return;
+  }
+
+  if (msg.type === 'estimate') {
+    try {
+      post({ type: 'estimated', params: await estimateLinkageParams(msg.tableA, msg.tableB, msg.config) });
+    } catch (err: any) {
+      post({ type: 'error', message: err?.message || String(err) });
+    }
+    return;
+  }
+
+  cancelRequested = false;
+  try {
+    const result = await joinDatasets(msg.tableA, msg.tableB, msg.config, {
+      onLog: message => post({ type: 'log', message }),
+      onProgress: async progress => {
+        post({ type: 'progress', progress });
+        await yieldToEventLoop();
+      },
+      isCancelled: () => cancelRequested,
+      pause: yieldToEventLoop
+    });
+    post({ type: 'done', result });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || String(err) });
+  }
+};
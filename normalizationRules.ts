@@ -0,0 +1,111 @@
+import { NormalizationFlag, NormalizationRule, NormalizationRuleType } from './types';
+
+// The fixed on/off steps, in the order normalizeString applies them
+export const NORMALIZATION_FLAGS: NormalizationFlag[] = [
+  'foldWidth', 'transliterate', 'foldDiacritics', 'toLowerCase', 'trimWhitespace', 'removeSpecialChars', 'removeNumbers',
+];
+
+export const RULE_LABELS: Record<NormalizationRuleType, string> = {
+  regexReplace: 'Regex replace',
+  stopWords: 'Remove stop words',
+  abbreviations: 'Expand abbreviations',
+  sortTokens: 'Sort words',
+  punctuationToSpace: 'Punctuation to space',
+};
+
+const DEFAULT_STOP_WORDS = ['the', 'ltd', 'inc', 'gmbh', 'llc', 'co', 'corp', 'limited'];
+
+const DEFAULT_ABBREVIATIONS: Record<string, string> = {
+  st: 'street',
+  rd: 'road',
+  ave: 'avenue',
+  intl: 'international',
+};
+
+export const createRule = (type: NormalizationRuleType): NormalizationRule => {
+  const id = Math.random().toString(36).substr(2, 9);
+  switch (type) {
+    case 'regexReplace': return { id, type, pattern: '', replacement: '', flags: 'g' };
+    case 'stopWords': return { id, type, words: [...DEFAULT_STOP_WORDS] };
+    case 'abbreviations': return { id, type, dictionary: { ...DEFAULT_ABBREVIATIONS } };
+    default: return { id, type };
+  }
+};
+
+// --- Regex ---
+
+// Patterns are compiled once; normalization runs for every row of both tables
+const regexCache = new Map<string, RegExp | null>();
+
+export const compileRegex = (pattern: string, flags: string): RegExp | null => {
+  const cacheKey = `${flags}/${pattern}`;
+  if (!regexCache.has(cacheKey)) {
+    let regex: RegExp | null = null;
+    try {
+      regex = pattern ? new RegExp(pattern, flags) : null;
+    } catch {
+      regex = null;
+    }
+    regexCache.set(cacheKey, regex);
+  }
+  return regexCache.get(cacheKey) ?? null;
+};
+
+export const regexError = (pattern: string, flags: string): string | null => {
+  if (!pattern) return null;
+  try {
+    new RegExp(pattern, flags);
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+// --- Words ---
+
+const splitWords = (value: string): string[] => value.split(/\s+/).filter(Boolean);
+
+const stopWordSets = new WeakMap<string[], Set<string>>();
+
+const stopWordSet = (words: string[]): Set<string> => {
+  let set = stopWordSets.get(words);
+  if (!set) {
+    set = new Set(words.map(w => w.toLowerCase()));
+    stopWordSets.set(words, set);
+  }
+  return set;
+};
+
+// Dictionary lookups ignore case and surrounding punctuation, so "Ltd." matches "ltd"
+const wordKey = (word: string): string => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '').toLowerCase();
+
+/**
+ * Applies one rule. Rules that cannot run (an empty or invalid regex) leave the
+ * value unchanged rather than failing the join.
+ */
+export const applyRule = (value: string, rule: NormalizationRule): string => {
+  switch (rule.type) {
+    case 'regexReplace': {
+      const regex = compileRegex(rule.pattern, rule.flags);
+      return regex ? value.replace(regex, rule.replacement) : value;
+    }
+    case 'stopWords': {
+      const stopWords = stopWordSet(rule.words);
+      return splitWords(value).filter(word => !stopWords.has(wordKey(word))).join(' ');
+    }
+    case 'abbreviations':
+      return splitWords(value).map(word => {
+        const key = wordKey(word);
+        return Object.prototype.hasOwnProperty.call(rule.dictionary, key) ? rule.dictionary[key] : word;
+      }).join(' ');
+    case 'sortTokens':
+      return splitWords(value).sort().join(' ');
+    case 'punctuationToSpace':
+      return value.replace(/[^\p{L}\p{M}\p{N}\s|]/gu, ' '); // | is kept for composite keys
+    default:
+      return value;
+  }
+};
+
+export const applyRules = (value: string, rules: NormalizationRule[]): string =>
+  rules.reduce(applyRule, value);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Bool, DateDay, Dictionary, Field, Float64, Int32, Int64, Struct, Table, TimestampMillisecond, Utf8, tableToIPC, vectorFromArray } from 'apache-arrow';
+import { Compression, Table as WasmTable, WriterPropertiesBuilder, writeParquet } from 'parquet-wasm';
+import { readParquet } from './parquet';
+
+// --- Fixtures ---
+
+// Written by the reference implementation, so the reader is checked against real files
+const parquet = (table: Table, compression: Compression, dictionary = true): ArrayBuffer => {
+  const props = new WriterPropertiesBuilder().setCompression(compression).setDictionaryEnabled(dictionary).build();
+  return writeParquet(WasmTable.fromIPCStream(tableToIPC(table, 'stream')), props).slice().buffer;
+};
+
+// Typed, nested and dictionary columns, each with a null
+const customers = () => new Table({
+  id: vectorFromArray([BigInt(1), BigInt(2), null], new Int64()),
+  active: vectorFromArray([true, null, false], new Bool()),
+  joined: vectorFromArray([new Date(Date.UTC(2023, 0, 15)), new Date(Date.UTC(2024, 1, 29)), null], new DateDay()),
+  seen: vectorFromArray([Date.UTC(2024, 5, 1, 9, 30), null, Date.UTC(2024, 5, 2)], new TimestampMillisecond()),
+  segment: vectorFromArray(['retail', 'retail', null], new Dictionary(new Utf8(), new Int32())),
+  address: vectorFromArray(
+    [{ city: 'Leeds', geo: { lat: 53.8 } }, { city: null, geo: { lat: 51.5 } }, null],
+    new Struct([Field.new('city', new Utf8(), true), Field.new('geo', new Struct([Field.new('lat', new Float64(), true)]), true)])
+  ),
+});
+
+// --- Files ---
+
+describe('readParquet', () => {
+  it.each([
+    ['uncompressed', Compression.UNCOMPRESSED],
+    ['Snappy', Compression.SNAPPY],
+    ['gzip', Compression.GZIP],
+  ])('reads types, nulls and nested fields from a %s file', async (_, compression) => {
+    const { columns, records } = await readParquet(parquet(customers(), compression));
+    expect(columns).toEqual([
+      { name: 'id', type: 'number' },
+      { name: 'active', type: 'boolean' },
+      { name: 'joined', type: 'date' },
+      { name: 'seen', type: 'date' },
+      { name: 'segment', type: 'text' },
+      { name: 'address.city', type: 'text' },
+      { name: 'address.geo.lat', type: 'number' },
+    ]);
+    expect(records).toEqual([
+      { id: 1, active: true, joined: '2023-01-15', seen: '2024-06-01 09:30:00', segment: 'retail', 'address.city': 'Leeds', 'address.geo.lat': 53.8 },
+      { id: 2, active: null, joined: '2024-02-29', seen: null, segment: 'retail', 'address.city': null, 'address.geo.lat': 51.5 },
+      { id: null, active: false, joined: null, seen: '2024-06-02', segment: null, 'address.city': null, 'address.geo.lat': null },
+    ]);
+  });
+
+  it('reads plain-encoded pages the same as dictionary-encoded ones', async () => {
+    const plain = await readParquet(parquet(customers(), Compression.SNAPPY, false));
+    const dictionary = await readParquet(parquet(customers(), Compression.SNAPPY, true));
+    expect(plain).toEqual(dictionary);
+  });
+
+  it('names the codec when the compression is not supported', async () => {
+    await expect(readParquet(parquet(customers(), Compression.ZSTD))).rejects.toThrow('Parquet Zstandard compression is not supported');
+  });
+
+  it('rejects files that are not Parquet', async () => {
+    await expect(readParquet(new TextEncoder().encode('name,qty\napple,1\n').buffer)).rejects.toThrow('Not a Parquet file.');
+  });
+});
@@ -0,0 +1,677 @@
+import { CellValue, ColumnDef, CoordinateSystem, DataType } from './types';
+import { ColumnarTable, bigEndianInteger, binaryValue, decimalValue, halfFloat, hexBytes, int64Value, isoDate, isoDateTime, lz4Block, projJsonCrs, timeOfDay, uuid, wkbGeometry } from './columnar';
+
+/**
+ * Parquet reader for files compressed with Snappy, gzip or LZ4, or not at all. Nested
+ * groups become dotted column names and repeated fields are kept as JSON arrays.
+ * See https://parquet.apache.org/docs/file-format/ for the layout.
+ */
+
+const MAGIC = 'PAR1';
+
+// --- Thrift ---
+
+// The file metadata and page headers use Thrift's compact protocol; structs are read by field id
+type ThriftValue = number | boolean | Uint8Array | ThriftValue[] | ThriftStruct;
+type ThriftStruct = Map<number, ThriftValue>;
+
+const readThrift = (bytes: Uint8Array, start: number): { struct: ThriftStruct; end: number } => {
+  let pos = start;
+
+  const varint = (): number => {
+    let value = 0;
+    for (let scale = 1; ; scale *= 128) {
+      const b = bytes[pos++];
+      value += (b & 0x7f) * scale;
+      if (b < 0x80) return value;
+    }
+  };
+  const zigzag = () => {
+    const n = varint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  };
+
+  const value = (type: number): ThriftValue => {
+    switch (type) {
+      case 1: return true;
+      case 2: return false;
+      case 3: return (bytes[pos++] << 24) >> 24;
+      case 4:
+      case 5:
+      case 6: return zigzag();
+      case 7: {
+        const v = new DataView(bytes.buffer, bytes.byteOffset + pos, 8).getFloat64(0, true);
+        pos += 8;
+        return v;
+      }
+      case 8: {
+        const length = varint();
+        pos += length;
+        return bytes.subarray(pos - length, pos);
+      }
+      case 9:
+      case 10: {
+        const header = bytes[pos++];
+        const size = header >> 4 === 15 ? varint() : header >> 4;
+        const elementType = header & 0x0f;
+        const list: ThriftValue[] = [];
+        for (let i = 0; i < size; i++) list.push(elementType === 1 || elementType === 2 ? bytes[pos++] === 1 : value(elementType));
+        return list;
+      }
+      case 11: {
+        // Maps do not occur in the fields read here; their entries are kept as [key, value] pairs
+        const size = varint();
+        const types = size > 0 ? bytes[pos++] : 0;
+        const entries: ThriftValue[] = [];
+        for (let i = 0; i < size; i++) entries.push([value(types >> 4), value(types & 0x0f)]);
+        return entries;
+      }
+      case 12: return struct();
+      default: throw new Error(`Corrupt Parquet metadata (Thrift type ${type}).`);
+    }
+  };
+
+  const struct = (): ThriftStruct => {
+    const fields: ThriftStruct = new Map();
+    let id = 0;
+    for (;;) {
+      const header = bytes[pos++];
+      if (header === 0 || header === undefined) return fields;
+      id = header >> 4 === 0 ? zigzag() : id + (header >> 4);
+      fields.set(id, value(header & 0x0f));
+    }
+  };
+
+  return { struct: struct(), end: pos };
+};
+
+const text = new TextDecoder();
+
+const field = {
+  num: (s: ThriftStruct | undefined, id: number): number | undefined => {
+    const v = s?.get(id);
+    return typeof v === 'number' ? v : undefined;
+  },
+  str: (s: ThriftStruct | undefined, id: number): string | undefined => {
+    const v = s?.get(id);
+    return v instanceof Uint8Array ? text.decode(v) : undefined;
+  },
+  struct: (s: ThriftStruct | undefined, id: number): ThriftStruct | undefined => {
+    const v = s?.get(id);
+    return v instanceof Map ? v : undefined;
+  },
+  list: (s: ThriftStruct | undefined, id: number): ThriftValue[] => {
+    const v = s?.get(id);
+    return Array.isArray(v) ? v : [];
+  },
+};
+
+// --- Schema ---
+
+// Physical types
+const BOOLEAN = 0;
+const INT32 = 1;
+const INT64 = 2;
+const INT96 = 3;
+const FLOAT = 4;
+const DOUBLE = 5;
+const BYTE_ARRAY = 6;
+const FIXED_LEN_BYTE_ARRAY = 7;
+
+const REQUIRED = 0;
+const REPEATED = 2;
+
+// Converted types (the annotations written by older tools)
+const CONVERTED = { UTF8: 0, MAP: 1, LIST: 3, ENUM: 4, DECIMAL: 5, DATE: 6, TIME_MILLIS: 7, TIME_MICROS: 8, TIMESTAMP_MILLIS: 9, TIMESTAMP_MICROS: 10, UINT_8: 11, UINT_16: 12, UINT_32: 13, UINT_64: 14, JSON: 19 };
+
+// Logical type union members
+const LOGICAL = { STRING: 1, MAP: 2, LIST: 3, ENUM: 4, DECIMAL: 5, DATE: 6, TIME: 7, TIMESTAMP: 8, INTEGER: 10, JSON: 12, UUID: 14, FLOAT16: 15 };
+
+interface SchemaNode {
+  name: string;
+  physical?: number; // Leaves only
+  typeLength: number;
+  repetition: number;
+  converted?: number;
+  scale: number;
+  logical?: ThriftStruct;
+  children: SchemaNode[];
+}
+
+interface Leaf {
+  path: string[];
+  node: SchemaNode;
+  maxDef: number;
+  maxRep: number;
+  listAt: number; // Path length up to the first repeated or LIST/MAP group; the column is named after it
+}
+
+// The schema is stored as a depth-first list in which groups give their number of children
+const schemaTree = (elements: ThriftValue[]): SchemaNode => {
+  let index = 0;
+  const next = (): SchemaNode => {
+    const e = elements[index++] as ThriftStruct;
+    const node: SchemaNode = {
+      name: field.str(e, 4) ?? '',
+      physical: field.num(e, 1),
+      typeLength: field.num(e, 2) ?? 0,
+      repetition: field.num(e, 3) ?? REQUIRED,
+      converted: field.num(e, 6),
+      scale: field.num(e, 7) ?? 0,
+      logical: field.struct(e, 10),
+      children: [],
+    };
+    const count = field.num(e, 5) ?? 0;
+    for (let i = 0; i < count && index < elements.length; i++) node.children.push(next());
+    return node;
+  };
+  return next();
+};
+
+const isLogical = (node: SchemaNode, member: number) => node.logical?.has(member) ?? false;
+
+const schemaLeaves = (root: SchemaNode): Leaf[] => {
+  const leaves: Leaf[] = [];
+  const visit = (node: SchemaNode, path: string[], def: number, rep: number, listAt: number) => {
+    const nodePath = [...path, node.name];
+    const nodeDef = def + (node.repetition === REQUIRED ? 0 : 1);
+    const nodeRep = rep + (node.repetition === REPEATED ? 1 : 0);
+    const isList = node.repetition === REPEATED || node.converted === CONVERTED.LIST || node.converted === CONVERTED.MAP
+      || isLogical(node, LOGICAL.LIST) || isLogical(node, LOGICAL.MAP);
+    const nodeListAt = listAt || (isList ? nodePath.length : 0);
+    if (node.children.length === 0) leaves.push({ path: nodePath, node, maxDef: nodeDef, maxRep: nodeRep, listAt: nodeListAt });
+    node.children.forEach(child => visit(child, nodePath, nodeDef, nodeRep, nodeListAt));
+  };
+  root.children.forEach(child => visit(child, [], 0, 0, 0));
+  return leaves;
+};
+
+// Repeated fields are named after their list; where two leaves would share a name, the full path is used
+const leafNames = (leaves: Leaf[]): string[] => {
+  const short = leaves.map(l => l.path.slice(0, l.listAt || l.path.length).join('.'));
+  return short.map((name, i) => (short.indexOf(name) !== short.lastIndexOf(name) ? leaves[i].path.join('.') : name));
+};
+
+// --- Values ---
+
+type RawValue = number | bigint | boolean | Uint8Array;
+
+const UNIX_EPOCH_JULIAN_DAY = 2440588;
+
+/** Converts a leaf's stored values to cells, using the logical type over the converted type. */
+const leafConverter = (node: SchemaNode, geometry: boolean): { type: DataType; convert: (raw: RawValue) => CellValue } => {
+  const logical = node.logical;
+  const decimal = isLogical(node, LOGICAL.DECIMAL) || node.converted === CONVERTED.DECIMAL;
+  const scale = field.num(field.struct(logical, LOGICAL.DECIMAL), 1) ?? node.scale;
+  const unit = field.struct(field.struct(logical, LOGICAL.TIMESTAMP) ?? field.struct(logical, LOGICAL.TIME), 2);
+  const perMs = unit?.has(3) ? BigInt(1000000) : unit?.has(2) ? BigInt(1000) : BigInt(1); // NANOS, MICROS, MILLIS
+  const integer = field.struct(logical, LOGICAL.INTEGER);
+  const unsigned = (integer?.get(2) === false) || [CONVERTED.UINT_8, CONVERTED.UINT_16, CONVERTED.UINT_32, CONVERTED.UINT_64].includes(node.converted ?? -1);
+
+  switch (node.physical) {
+    case BOOLEAN:
+      return { type: 'boolean', convert: raw => Boolean(raw) };
+    case INT32:
+      if (isLogical(node, LOGICAL.DATE) || node.converted === CONVERTED.DATE) return { type: 'date', convert: raw => isoDate(Number(raw)) };
+      if (isLogical(node, LOGICAL.TIME) || node.converted === CONVERTED.TIME_MILLIS) return { type: 'text', convert: raw => timeOfDay(Number(raw)) };
+      if (decimal) return { type: 'number', convert: raw => decimalValue(BigInt(raw as number), scale) };
+      return { type: 'number', convert: raw => (unsigned ? (raw as number) >>> 0 : (raw as number)) };
+    case INT64: {
+      if (isLogical(node, LOGICAL.TIMESTAMP) || node.converted === CONVERTED.TIMESTAMP_MILLIS || node.converted === CONVERTED.TIMESTAMP_MICROS) {
+        const divisor = node.converted === CONVERTED.TIMESTAMP_MICROS && !unit ? BigInt(1000) : perMs;
+        return { type: 'date', convert: raw => isoDateTime(Number((raw as bigint) / divisor)) };
+      }
+      if (isLogical(node, LOGICAL.TIME) || node.converted === CONVERTED.TIME_MICROS) {
+        const divisor = node.converted === CONVERTED.TIME_MICROS && !unit ? BigInt(1000) : perMs;
+        return { type: 'text', convert: raw => timeOfDay(Number((raw as bigint) / divisor)) };
+      }
+      if (decimal) return { type: 'number', convert: raw => decimalValue(raw as bigint, scale) };
+      return { type: 'number', convert: raw => int64Value(unsigned ? BigInt.asUintN(64, raw as bigint) : (raw as bigint)) };
+    }
+    case INT96:
+      return { type: 'date', convert: raw => isoDateTime(raw as number) };
+    case FLOAT:
+    case DOUBLE:
+      return { type: 'number', convert: raw => raw as number };
+    case BYTE_ARRAY:
+    case FIXED_LEN_BYTE_ARRAY:
+      if (geometry) return { type: 'geometry', convert: raw => wkbGeometry(raw as Uint8Array) };
+      if (decimal) return { type: 'number', convert: raw => decimalValue(bigEndianInteger(raw as Uint8Array), scale) };
+      if (isLogical(node, LOGICAL.UUID)) return { type: 'text', convert: raw => uuid(raw as Uint8Array) };
+      if (isLogical(node, LOGICAL.FLOAT16)) return { type: 'number', convert: raw => halfFloat((raw as Uint8Array)[0] | ((raw as Uint8Array)[1] << 8)) };
+      if ([LOGICAL.STRING, LOGICAL.ENUM, LOGICAL.JSON].some(m => isLogical(node, m)) || [CONVERTED.UTF8, CONVERTED.ENUM, CONVERTED.JSON].includes(node.converted ?? -1)) {
+        return { type: 'text', convert: raw => text.decode(raw as Uint8Array) };
+      }
+      return { type: 'text', convert: raw => (node.physical === BYTE_ARRAY ? binaryValue(raw as Uint8Array) : hexBytes(raw as Uint8Array)) };
+    default:
+      return { type: 'text', convert: raw => String(raw) };
+  }
+};
+
+// --- Encodings ---
+
+const PLAIN = 0;
+const PLAIN_DICTIONARY = 2;
+const RLE = 3;
+const DELTA_BINARY_PACKED = 5;
+const DELTA_LENGTH_BYTE_ARRAY = 6;
+const DELTA_BYTE_ARRAY = 7;
+const RLE_DICTIONARY = 8;
+const BYTE_STREAM_SPLIT = 9;
+
+const bitWidth = (max: number) => (max === 0 ? 0 : 32 - Math.clz32(max));
+
+const readVarint = (data: Uint8Array, start: number): [number, number] => {
+  let value = 0;
+  let pos = start;
+  for (let scale = 1; ; scale *= 128) {
+    const b = data[pos++];
+    value += (b & 0x7f) * scale;
+    if (b < 0x80) return [value, pos];
+  }
+};
+
+// Runs of one repeated value alternate with groups of 8 values packed `width` bits each, LSB first
+const readHybrid = (data: Uint8Array, start: number, end: number, width: number, count: number): number[] => {
+  const out: number[] = [];
+  const byteWidth = Math.ceil(width / 8);
+  let pos = start;
+  while (out.length < count && pos < end) {
+    const [header, next] = readVarint(data, pos);
+    pos = next;
+    if (header % 2 === 0) {
+      let value = 0;
+      for (let i = 0; i < byteWidth; i++) value += data[pos++] * 2 ** (8 * i);
+      for (let i = 0; i < header / 2 && out.length < count; i++) out.push(value);
+    } else {
+      const values = ((header - 1) / 2) * 8;
+      for (let i = 0, bit = pos * 8; i < values; i++) {
+        let value = 0;
+        for (let b = 0; b < width; b++, bit++) value += ((data[bit >> 3] >> (bit & 7)) & 1) * 2 ** b;
+        if (out.length < count) out.push(value);
+      }
+      pos += ((header - 1) / 2) * width;
+    }
+  }
+  return out;
+};
+
+// Levels in data page v1 carry a 4-byte length; returns the levels and the offset after them
+const readLevels = (data: Uint8Array, pos: number, max: number, count: number): [number[], number] => {
+  if (max === 0) return [new Array(count).fill(0), pos];
+  const length = new DataView(data.buffer, data.byteOffset + pos, 4).getUint32(0, true);
+  return [readHybrid(data, pos + 4, pos + 4 + length, bitWidth(max), count), pos + 4 + length];
+};
+
+const readPlain = (data: Uint8Array, start: number, physical: number, typeLength: number, count: number): RawValue[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const out: RawValue[] = [];
+  let pos = start;
+  for (let i = 0; i < count && pos < data.length; i++) {
+    switch (physical) {
+      case BOOLEAN: out.push(((data[start + (i >> 3)] >> (i & 7)) & 1) === 1); break;
+      case INT32: out.push(view.getInt32(pos, true)); pos += 4; break;
+      case INT64: out.push(view.getBigInt64(pos, true)); pos += 8; break;
+      case INT96: {
+        // Nanoseconds of the day, then the Julian day
+        const nanos = view.getBigInt64(pos, true);
+        const day = view.getInt32(pos + 8, true);
+        out.push((day - UNIX_EPOCH_JULIAN_DAY) * 86400000 + Number(nanos / BigInt(1000000)));
+        pos += 12;
+        break;
+      }
+      case FLOAT: out.push(view.getFloat32(pos, true)); pos += 4; break;
+      case DOUBLE: out.push(view.getFloat64(pos, true)); pos += 8; break;
+      case BYTE_ARRAY: {
+        const length = view.getUint32(pos, true);
+        out.push(data.subarray(pos + 4, pos + 4 + length));
+        pos += 4 + length;
+        break;
+      }
+      default: out.push(data.subarray(pos, pos + typeLength)); pos += typeLength;
+    }
+  }
+  return out;
+};
+
+const zigzag64 = (n: bigint) => (n >> BigInt(1)) ^ -(n & BigInt(1));
+
+const readVarint64 = (data: Uint8Array, start: number): [bigint, number] => {
+  let value = BigInt(0);
+  let shift = BigInt(0);
+  let pos = start;
+  for (;;) {
+    const b = data[pos++];
+    value |= BigInt(b & 0x7f) << shift;
+    if (b < 0x80) return [value, pos];
+    shift += BigInt(7);
+  }
+};
+
+// Blocks of miniblocks holding bit-packed deltas from a minimum; returns the values and the end offset
+const readDeltaBinaryPacked = (data: Uint8Array, start: number): [bigint[], number] => {
+  let pos = start;
+  let blockSize: number;
+  let miniblocks: number;
+  let total: number;
+  let first: bigint;
+  [blockSize, pos] = readVarint(data, pos);
+  [miniblocks, pos] = readVarint(data, pos);
+  [total, pos] = readVarint(data, pos);
+  [first, pos] = readVarint64(data, pos);
+
+  const out: bigint[] = total > 0 ? [zigzag64(first)] : [];
+  const perMiniblock = blockSize / miniblocks;
+  while (out.length < total) {
+    let minDelta: bigint;
+    [minDelta, pos] = readVarint64(data, pos);
+    minDelta = zigzag64(minDelta);
+    const widths = data.subarray(pos, pos + miniblocks);
+    pos += miniblocks;
+    for (let m = 0; m < miniblocks; m++) {
+      const width = widths[m];
+      if (out.length >= total) {
+        // Miniblocks after the last value are not stored
+        continue;
+      }
+      for (let i = 0, bit = pos * 8; i < perMiniblock; i++) {
+        let delta = BigInt(0);
+        for (let b = 0; b < width; b++, bit++) if ((data[bit >> 3] >> (bit & 7)) & 1) delta |= BigInt(1) << BigInt(b);
+        if (out.length < total) out.push(out[out.length - 1] + minDelta + delta);
+      }
+      pos += (perMiniblock * width) / 8;
+    }
+  }
+  return [out, pos];
+};
+
+const readDeltaLengths = (data: Uint8Array, start: number): [Uint8Array[], number] => {
+  const [lengths, after] = readDeltaBinaryPacked(data, start);
+  let pos = after;
+  const values = lengths.map(length => {
+    const n = Number(length);
+    pos += n;
+    return data.subarray(pos - n, pos);
+  });
+  return [values, pos];
+};
+
+// Each value shares a prefix with the one before and stores the rest
+const readDeltaStrings = (data: Uint8Array, start: number): Uint8Array[] => {
+  const [prefixes, after] = readDeltaBinaryPacked(data, start);
+  const [suffixes] = readDeltaLengths(data, after);
+  const out: Uint8Array[] = [];
+  suffixes.forEach((suffix, i) => {
+    const prefix = Number(prefixes[i]);
+    const value = new Uint8Array(prefix + suffix.length);
+    if (prefix > 0) value.set(out[i - 1].subarray(0, prefix));
+    value.set(suffix, prefix);
+    out.push(value);
+  });
+  return out;
+};
+
+// The k-th byte of every value is stored together; read back by gathering the bytes
+const readByteStreamSplit = (data: Uint8Array, start: number, physical: number, typeLength: number, count: number): RawValue[] => {
+  const width = physical === FLOAT || physical === INT32 ? 4 : physical === FIXED_LEN_BYTE_ARRAY ? typeLength : 8;
+  const joined = new Uint8Array(count * width);
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < width; k++) joined[i * width + k] = data[start + k * count + i];
+  }
+  return readPlain(joined, 0, physical, typeLength, count);
+};
+
+const readValues = (
+  data: Uint8Array,
+  pos: number,
+  encoding: number,
+  leaf: Leaf,
+  count: number,
+  dictionary: RawValue[] | null
+): RawValue[] => {
+  const { physical = BYTE_ARRAY, typeLength } = leaf.node;
+  switch (encoding) {
+    case PLAIN:
+      return readPlain(data, pos, physical, typeLength, count);
+    case PLAIN_DICTIONARY:
+    case RLE_DICTIONARY: {
+      if (!dictionary) throw new Error('Parquet dictionary page is missing.');
+      return readHybrid(data, pos + 1, data.length, data[pos], count).map(i => dictionary[i]);
+    }
+    case RLE: {
+      const length = new DataView(data.buffer, data.byteOffset + pos, 4).getUint32(0, true);
+      return readHybrid(data, pos + 4, pos + 4 + length, 1, count).map(v => v === 1);
+    }
+    case DELTA_BINARY_PACKED:
+      return readDeltaBinaryPacked(data, pos)[0].map(v => (physical === INT32 ? Number(v) : v));
+    case DELTA_LENGTH_BYTE_ARRAY:
+      return readDeltaLengths(data, pos)[0];
+    case DELTA_BYTE_ARRAY:
+      return readDeltaStrings(data, pos);
+    case BYTE_STREAM_SPLIT:
+      return readByteStreamSplit(data, pos, physical, typeLength, count);
+    default:
+      throw new Error(`Parquet encoding ${encoding} is not supported.`);
+  }
+};
+
+// --- Compression ---
+
+const CODEC_NAMES = ['uncompressed', 'Snappy', 'gzip', 'LZO', 'Brotli', 'LZ4', 'Zstandard', 'LZ4'];
+
+const snappy = (input: Uint8Array): Uint8Array => {
+  let [length, pos] = readVarint(input, 0);
+  const out = new Uint8Array(length);
+  let o = 0;
+  while (pos < input.length && o < length) {
+    const tag = input[pos++];
+    let size: number;
+    let offset: number;
+    switch (tag & 3) {
+      case 0: {
+        size = tag >> 2;
+        if (size >= 60) {
+          const bytes = size - 59;
+          size = 0;
+          for (let i = 0; i < bytes; i++) size += input[pos++] * 2 ** (8 * i);
+        }
+        size += 1;
+        out.set(input.subarray(pos, pos + size), o);
+        pos += size;
+        o += size;
+        continue;
+      }
+      case 1:
+        size = ((tag >> 2) & 7) + 4;
+        offset = ((tag >> 5) << 8) | input[pos++];
+        break;
+      case 2:
+        size = (tag >> 2) + 1;
+        offset = input[pos] | (input[pos + 1] << 8);
+        pos += 2;
+        break;
+      default:
+        size = (tag >> 2) + 1;
+        offset = (input[pos] | (input[pos + 1] << 8) | (input[pos + 2] << 16) | (input[pos + 3] << 24)) >>> 0;
+        pos += 4;
+    }
+    for (let i = 0; i < size; i++, o++) out[o] = out[o - offset];
+  }
+  return out;
+};
+
+// Codec 5 is the Hadoop framing of LZ4: big-endian sizes before each block
+const lz4 = (input: Uint8Array, size: number, hadoop: boolean): Uint8Array => {
+  const out = new Uint8Array(size);
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  if (hadoop && input.length >= 8 && view.getUint32(0) <= size && view.getUint32(4) + 8 <= input.length) {
+    let pos = 0;
+    let o = 0;
+    while (pos + 8 <= input.length && o < size) {
+      const compressed = view.getUint32(pos + 4);
+      o = lz4Block(input.subarray(pos + 8, pos + 8 + compressed), out, o);
+      pos += 8 + compressed;
+    }
+    return out;
+  }
+  lz4Block(input, out, 0);
+  return out;
+};
+
+const gunzip = async (input: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([input.slice()]).stream().pipeThrough(new DecompressionStream('gzip'))).arrayBuffer());
+
+const decompress = async (data: Uint8Array, codec: number, size: number): Promise<Uint8Array> => {
+  switch (codec) {
+    case 0: return data;
+    case 1: return snappy(data);
+    case 2: return gunzip(data);
+    case 5: return lz4(data, size, true);
+    case 7: return lz4(data, size, false);
+    default: throw new Error(`Parquet ${CODEC_NAMES[codec] ?? `codec ${codec}`} compression is not supported; export with Snappy, gzip or no compression.`);
+  }
+};
+
+// --- Column Chunks ---
+
+const DATA_PAGE = 0;
+const DICTIONARY_PAGE = 2;
+const DATA_PAGE_V2 = 3;
+
+interface ChunkValues {
+  values: RawValue[]; // Non-null values only
+  defs: number[];
+  reps: number[];
+}
+
+const readColumnChunk = async (bytes: Uint8Array, meta: ThriftStruct, leaf: Leaf): Promise<ChunkValues> => {
+  const codec = field.num(meta, 4) ?? 0;
+  const total = field.num(meta, 5) ?? 0;
+  const dataOffset = field.num(meta, 9) ?? 0;
+  const dictionaryOffset = field.num(meta, 11);
+  let pos = dictionaryOffset && dictionaryOffset < dataOffset ? dictionaryOffset : dataOffset;
+  const end = pos + (field.num(meta, 7) ?? bytes.length - pos);
+
+  const result: ChunkValues = { values: [], defs: [], reps: [] };
+  let dictionary: RawValue[] | null = null;
+  while (result.defs.length < total && pos < end) {
+    const { struct: header, end: dataStart } = readThrift(bytes, pos);
+    const compressedSize = field.num(header, 3) ?? 0;
+    const uncompressedSize = field.num(header, 2) ?? 0;
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    pos = dataStart + compressedSize;
+
+    switch (field.num(header, 1)) {
+      case DICTIONARY_PAGE: {
+        const page = await decompress(raw, codec, uncompressedSize);
+        const count = field.num(field.struct(header, 7), 1) ?? 0;
+        dictionary = readPlain(page, 0, leaf.node.physical ?? BYTE_ARRAY, leaf.node.typeLength, count);
+        break;
+      }
+      case DATA_PAGE: {
+        const info = field.struct(header, 5);
+        const count = field.num(info, 1) ?? 0;
+        const page = await decompress(raw, codec, uncompressedSize);
+        const [reps, afterReps] = readLevels(page, 0, leaf.maxRep, count);
+        const [defs, afterDefs] = readLevels(page, afterReps, leaf.maxDef, count);
+        const present = defs.filter(d => d === leaf.maxDef).length;
+        result.values.push(...readValues(page, afterDefs, field.num(info, 2) ?? PLAIN, leaf, present, dictionary));
+        result.defs.push(...defs);
+        result.reps.push(...reps);
+        break;
+      }
+      case DATA_PAGE_V2: {
+        // Levels come first and are never compressed, nor prefixed with their length
+        const info = field.struct(header, 8);
+        const count = field.num(info, 1) ?? 0;
+        const defLength = field.num(info, 5) ?? 0;
+        const repLength = field.num(info, 6) ?? 0;
+        const reps = leaf.maxRep > 0 ? readHybrid(raw, 0, repLength, bitWidth(leaf.maxRep), count) : new Array(count).fill(0);
+        const defs = leaf.maxDef > 0 ? readHybrid(raw, repLength, repLength + defLength, bitWidth(leaf.maxDef), count) : new Array(count).fill(0);
+        const body = raw.subarray(repLength + defLength);
+        const page = info?.get(7) === false ? body : await decompress(body, codec, uncompressedSize - repLength - defLength);
+        const present = defs.filter(d => d === leaf.maxDef).length;
+        result.values.push(...readValues(page, 0, field.num(info, 4) ?? PLAIN, leaf, present, dictionary));
+        result.defs.push(...defs);
+        result.reps.push(...reps);
+        break;
+      }
+    }
+  }
+  return result;
+};
+
+// One cell per row: the value, null, or for repeated fields a JSON array of the row's values
+const chunkCells = (chunk: ChunkValues, leaf: Leaf, convert: (raw: RawValue) => CellValue): CellValue[] => {
+  let next = 0;
+  const value = () => convert(chunk.values[next++]);
+  if (leaf.maxRep === 0) return chunk.defs.map(def => (def === leaf.maxDef ? value() : null));
+
+  const lists: CellValue[][] = [];
+  const elementOptional = leaf.node.repetition !== REQUIRED && leaf.node.repetition !== REPEATED;
+  chunk.defs.forEach((def, i) => {
+    if (chunk.reps[i] === 0) lists.push([]);
+    const list = lists[lists.length - 1];
+    if (def === leaf.maxDef) list.push(value());
+    else if (elementOptional && def === leaf.maxDef - 1) list.push(null);
+  });
+  return lists.map(list => (list.length > 0 ? JSON.stringify(list) : null));
+};
+
+// --- File ---
+
+interface GeoMetadata {
+  columns: Record<string, { encoding?: string; crs?: unknown }>;
+  primary_column?: string;
+}
+
+export const readParquet = async (buffer: ArrayBuffer): Promise<ColumnarTable> => {
+  const bytes = new Uint8Array(buffer);
+  const tail = text.decode(bytes.subarray(bytes.length - 4));
+  if (bytes.length < 12 || text.decode(bytes.subarray(0, 4)) !== MAGIC || tail !== MAGIC) {
+    throw new Error(tail === 'PARE' ? 'Encrypted Parquet files are not supported.' : 'Not a Parquet file.');
+  }
+  const footerLength = new DataView(buffer).getUint32(bytes.length - 8, true);
+  const { struct: metadata } = readThrift(bytes, bytes.length - 8 - footerLength);
+
+  // GeoParquet lists its WKB geometry columns and their CRS in the "geo" key
+  let geo: GeoMetadata | null = null;
+  for (const entry of field.list(metadata, 5)) {
+    if (entry instanceof Map && field.str(entry, 1) === 'geo') {
+      try {
+        geo = JSON.parse(field.str(entry, 2) ?? '');
+      } catch {
+        geo = null;
+      }
+    }
+  }
+  const isGeometry = (name: string) => /^wkb$/i.test(geo?.columns?.[name]?.encoding ?? '');
+
+  const leaves = schemaLeaves(schemaTree(field.list(metadata, 2)));
+  const names = leafNames(leaves);
+  const converters = leaves.map((leaf, i) => {
+    const converter = leafConverter(leaf.node, leaf.maxRep === 0 && isGeometry(names[i]));
+    return leaf.maxRep > 0 ? { ...converter, type: 'text' as DataType } : converter;
+  });
+
+  const records: Array<Record<string, CellValue>> = [];
+  for (const rowGroup of field.list(metadata, 4)) {
+    if (!(rowGroup instanceof Map)) continue;
+    const rowCount = field.num(rowGroup, 3) ?? 0;
+    const start = records.length;
+    for (let r = 0; r < rowCount; r++) records.push({});
+
+    const chunks = field.list(rowGroup, 1);
+    for (let c = 0; c < leaves.length && c < chunks.length; c++) {
+      const meta = field.struct(chunks[c] as ThriftStruct, 3);
+      if (!meta) throw new Error('Parquet column data in separate files is not supported.');
+      const cells = chunkCells(await readColumnChunk(bytes, meta, leaves[c]), leaves[c], converters[c].convert);
+      for (let r = 0; r < rowCount; r++) records[start + r][names[c]] = cells[r] ?? null;
+    }
+  }
+
+  const columns: ColumnDef[] = names.map((name, i) => ({ name, type: converters[i].type }));
+  const primary = geo?.primary_column ?? Object.keys(geo?.columns ?? {})[0];
+  const crs: CoordinateSystem | undefined = primary && isGeometry(primary) ? projJsonCrs(geo?.columns[primary].crs) : undefined;
+  return { columns, records, crs };
+};
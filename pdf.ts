@@ -0,0 +1,924 @@
+/**
+ * Text extraction from PDF files, and the layout analysis that turns positioned text back
+ * into table rows. Only text drawn with fonts is read; scanned pages need OCR first.
+ * See ISO 32000-1, sections 7 (syntax) and 9 (text), for the structures read here.
+ */
+
+export interface PdfRun {
+  text: string;
+  x: number; // Left edge, in points from the page's left
+  right: number;
+  y: number; // Baseline, in points from the page's top
+  size: number; // Font size as drawn
+}
+
+export interface PdfLine {
+  y: number;
+  runs: PdfRun[]; // Left to right; each run is a stretch of text without a wide gap
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  lines: PdfLine[]; // Top to bottom
+}
+
+// --- Objects ---
+
+type PdfRef = { kind: 'ref'; num: number };
+type PdfStream = { kind: 'stream'; dict: PdfDict; data: Uint8Array };
+type PdfOperator = { kind: 'op'; name: string }; // Content stream operators such as Tj
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | string | Uint8Array | PdfValue[] | PdfDict | PdfRef | PdfStream | PdfOperator;
+
+const isRef = (value: PdfValue): value is PdfRef => typeof value === 'object' && value !== null && (value as PdfRef).kind === 'ref';
+const isStream = (value: PdfValue): value is PdfStream => typeof value === 'object' && value !== null && (value as PdfStream).kind === 'stream';
+const isOperator = (value: PdfValue): value is PdfOperator => typeof value === 'object' && value !== null && (value as PdfOperator).kind === 'op';
+
+// --- Lexer ---
+
+const REGULAR = 0;
+const WHITESPACE = 1;
+const DELIMITER = 2;
+
+const CHAR_CLASS = new Uint8Array(256);
+[0, 9, 10, 12, 13, 32].forEach(b => { CHAR_CLASS[b] = WHITESPACE; });
+[...'()<>[]{}/%'].forEach(c => { CHAR_CLASS[c.charCodeAt(0)] = DELIMITER; });
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+const INTEGER = /^\d+$/;
+
+const hexValue = (b: number) => (b <= 57 ? b - 48 : (b | 0x20) - 87);
+const isHexDigit = (b: number) => (b >= 48 && b <= 57) || ((b | 0x20) >= 97 && (b | 0x20) <= 102);
+
+/**
+ * Reads values one at a time from `data`. Words that are not numbers or keywords come back
+ * as operators; `refs` makes "12 0 R" read as a reference, which only objects contain.
+ */
+const createLexer = (data: Uint8Array, start: number, refs: boolean) => {
+  let pos = start;
+
+  const skipSpace = () => {
+    while (pos < data.length) {
+      const b = data[pos];
+      if (CHAR_CLASS[b] === WHITESPACE) {
+        pos++;
+      } else if (b === 0x25) { // % comment
+        while (pos < data.length && data[pos] !== 10 && data[pos] !== 13) pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const word = (): string => {
+    const begin = pos;
+    while (pos < data.length && CHAR_CLASS[data[pos]] === REGULAR) pos++;
+    let text = '';
+    for (let i = begin; i < pos; i++) text += String.fromCharCode(data[i]);
+    return text;
+  };
+
+  const literalString = (): Uint8Array => {
+    const out: number[] = [];
+    let depth = 1;
+    pos++;
+    while (pos < data.length) {
+      const b = data[pos++];
+      if (b === 0x5c) { // backslash
+        const e = data[pos++];
+        if (e >= 48 && e <= 55) {
+          let code = e - 48;
+          for (let i = 0; i < 2 && data[pos] >= 48 && data[pos] <= 55; i++) code = code * 8 + data[pos++] - 48;
+          out.push(code & 0xff);
+        } else if (e === 13) {
+          if (data[pos] === 10) pos++; // Line continuation
+        } else if (e !== 10) {
+          out.push({ 110: 10, 114: 13, 116: 9, 98: 8, 102: 12 }[e] ?? e);
+        }
+      } else if (b === 0x28) {
+        depth++;
+        out.push(b);
+      } else if (b === 0x29) {
+        if (--depth === 0) break;
+        out.push(b);
+      } else {
+        out.push(b);
+      }
+    }
+    return Uint8Array.from(out);
+  };
+
+  const hexString = (): Uint8Array => {
+    const out: number[] = [];
+    let high = -1;
+    pos++;
+    while (pos < data.length && data[pos] !== 0x3e) {
+      const b = data[pos++];
+      if (!isHexDigit(b)) continue;
+      if (high < 0) high = hexValue(b);
+      else {
+        out.push(high * 16 + hexValue(b));
+        high = -1;
+      }
+    }
+    pos++;
+    if (high >= 0) out.push(high * 16);
+    return Uint8Array.from(out);
+  };
+
+  const name = (): string => {
+    pos++;
+    return word().replace(/#([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  };
+
+  // "n g R" is only recognised after an integer, so the lookahead is undone otherwise
+  const tryRef = (num: number): PdfRef | null => {
+    const saved = pos;
+    skipSpace();
+    if (INTEGER.test(word())) {
+      skipSpace();
+      if (data[pos] === 0x52 && (pos + 1 >= data.length || CHAR_CLASS[data[pos + 1]] !== REGULAR)) {
+        pos++;
+        return { kind: 'ref', num };
+      }
+    }
+    pos = saved;
+    return null;
+  };
+
+  // undefined at the end of the data
+  const read = (): PdfValue | undefined => {
+    skipSpace();
+    if (pos >= data.length) return undefined;
+    const b = data[pos];
+
+    if (b === 0x2f) return name();
+    if (b === 0x28) return literalString();
+    if (b === 0x3c) {
+      if (data[pos + 1] !== 0x3c) return hexString();
+      pos += 2;
+      const dict: PdfDict = new Map();
+      for (;;) {
+        skipSpace();
+        if (pos >= data.length) break;
+        if (data[pos] === 0x3e) {
+          pos += 2;
+          break;
+        }
+        const key = read();
+        const value = read();
+        if (typeof key === 'string' && value !== undefined) dict.set(key, value);
+      }
+      return dict;
+    }
+    if (b === 0x5b) {
+      pos++;
+      const array: PdfValue[] = [];
+      for (;;) {
+        skipSpace();
+        if (pos >= data.length) break;
+        if (data[pos] === 0x5d) {
+          pos++;
+          break;
+        }
+        const value = read();
+        if (value !== undefined) array.push(value);
+      }
+      return array;
+    }
+    if (CHAR_CLASS[b] === DELIMITER) {
+      pos++; // Stray closers and PostScript braces
+      return read();
+    }
+
+    const token = word();
+    if (NUMBER.test(token)) {
+      const num = parseFloat(token);
+      return refs && INTEGER.test(token) ? tryRef(num) ?? num : num;
+    }
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    return { kind: 'op', name: token };
+  };
+
+  return {
+    read,
+    skipSpace,
+    get pos() { return pos; },
+    set pos(value: number) { pos = value; },
+  };
+};
+
+// --- Filters ---
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  chunks.forEach(c => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  return out;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const reader = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Streams with a bad checksum or trailing bytes still give what was inflated before the error
+  }
+  return concat(chunks);
+};
+
+const asciiHex = (data: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let high = -1;
+  for (const b of data) {
+    if (b === 0x3e) break;
+    if (!isHexDigit(b)) continue;
+    if (high < 0) high = hexValue(b);
+    else {
+      out.push(high * 16 + hexValue(b));
+      high = -1;
+    }
+  }
+  if (high >= 0) out.push(high * 16);
+  return Uint8Array.from(out);
+};
+
+const ascii85 = (data: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let group: number[] = [];
+  const flush = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < 5; i++) value = value * 85 + (group[i] ?? 84);
+    for (let i = 0; i < count - 1; i++) out.push((value >>> (24 - i * 8)) & 0xff);
+    group = [];
+  };
+  let start = data[0] === 0x3c && data[1] === 0x7e ? 2 : 0; // Optional <~
+  for (; start < data.length; start++) {
+    const b = data[start];
+    if (b === 0x7e) break; // ~> ends the data
+    if (b === 0x7a && group.length === 0) {
+      out.push(0, 0, 0, 0);
+    } else if (b >= 33 && b <= 117) {
+      group.push(b - 33);
+      if (group.length === 5) flush(5);
+    }
+  }
+  if (group.length > 1) flush(group.length);
+  return Uint8Array.from(out);
+};
+
+// --- Document ---
+
+const OBJECT_HEADER = /(\d+)\s+\d+\s+obj\b/g;
+const MAX_NESTING = 16;
+
+interface PdfDocument {
+  resolve: (value: PdfValue | undefined) => PdfValue;
+  decode: (stream: PdfStream) => Promise<Uint8Array>;
+  root: PdfDict | null;
+}
+
+/**
+ * Objects are found by scanning for "n g obj" rather than through the cross-reference
+ * table, which is often damaged in generated files. Later definitions win, as they do
+ * with incremental updates; objects packed in object streams are unpacked afterwards.
+ */
+const openDocument = async (bytes: Uint8Array): Promise<PdfDocument> => {
+  const text = new TextDecoder('latin1').decode(bytes); // One character per byte, so offsets match
+  if (!text.slice(0, 1024).includes('%PDF-')) throw new Error('Not a PDF file.');
+  if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(text)) throw new Error('Encrypted PDFs are not supported; save an unprotected copy first.');
+
+  const objects = new Map<number, { pos: number; value: PdfValue }>();
+  const streams: Array<{ pos: number; stream: PdfStream }> = [];
+
+  for (let match = OBJECT_HEADER.exec(text); match; match = OBJECT_HEADER.exec(text)) {
+    const lexer = createLexer(bytes, match.index + match[0].length, true);
+    let value = lexer.read() ?? null;
+    lexer.skipSpace();
+    if (value instanceof Map && text.startsWith('stream', lexer.pos)) {
+      let start = lexer.pos + 6;
+      if (bytes[start] === 13) start++;
+      if (bytes[start] === 10) start++;
+      const length = value.get('Length');
+      let end = typeof length === 'number' && /^\s*endstream/.test(text.slice(start + length, start + length + 20))
+        ? start + length
+        : text.indexOf('endstream', start);
+      if (end < 0) end = bytes.length;
+      const stream: PdfStream = { kind: 'stream', dict: value, data: bytes.subarray(start, end) };
+      value = stream;
+      streams.push({ pos: match.index, stream });
+      OBJECT_HEADER.lastIndex = end; // Stream data is not scanned for headers
+    } else {
+      OBJECT_HEADER.lastIndex = Math.max(OBJECT_HEADER.lastIndex, lexer.pos);
+    }
+    objects.set(parseInt(match[1], 10), { pos: match.index, value });
+  }
+
+  const resolve = (value: PdfValue | undefined, depth = 0): PdfValue => {
+    if (value === undefined) return null;
+    if (!isRef(value) || depth > MAX_NESTING) return value;
+    return resolve(objects.get(value.num)?.value, depth + 1);
+  };
+
+  const decode = async (stream: PdfStream): Promise<Uint8Array> => {
+    const filter = resolve(stream.dict.get('Filter'));
+    const filters = (Array.isArray(filter) ? filter : [filter]).map(f => resolve(f)).filter((f): f is string => typeof f === 'string');
+    let data = stream.data;
+    for (const f of filters) {
+      if (f === 'FlateDecode' || f === 'Fl') data = await inflate(data);
+      else if (f === 'ASCIIHexDecode' || f === 'AHx') data = asciiHex(data);
+      else if (f === 'ASCII85Decode' || f === 'A85') data = ascii85(data);
+      else throw new Error(`Unsupported PDF stream filter ${f}.`);
+    }
+    return data;
+  };
+
+  // Object streams hold "num offset" pairs, then the objects themselves from /First on
+  for (const { pos, stream } of streams) {
+    if (resolve(stream.dict.get('Type')) !== 'ObjStm') continue;
+    let data: Uint8Array;
+    try {
+      data = await decode(stream);
+    } catch {
+      continue;
+    }
+    const count = Number(resolve(stream.dict.get('N')));
+    const first = Number(resolve(stream.dict.get('First')));
+    const index = createLexer(data, 0, false);
+    for (let i = 0; i < count; i++) {
+      const num = index.read();
+      const offset = index.read();
+      if (typeof num !== 'number' || typeof offset !== 'number') break;
+      const existing = objects.get(num);
+      if (existing && existing.pos > pos) continue;
+      objects.set(num, { pos, value: createLexer(data, first + offset, true).read() ?? null });
+    }
+  }
+
+  // The trailer names the catalog; without a usable trailer the first catalog object is taken
+  let root: PdfDict | null = null;
+  const trailerRoot = [...text.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)].pop();
+  if (trailerRoot) {
+    const value = resolve({ kind: 'ref', num: parseInt(trailerRoot[1], 10) });
+    if (value instanceof Map) root = value;
+  }
+  if (!root) {
+    for (const { value } of objects.values()) {
+      if (value instanceof Map && value.get('Type') === 'Catalog') {
+        root = value;
+        break;
+      }
+    }
+  }
+
+  return { resolve, decode, root };
+};
+
+// --- Fonts ---
+
+interface PdfFont {
+  codeBytes: 1 | 2;
+  text: (code: number) => string;
+  width: (code: number) => number; // In text space units, before the font size is applied
+}
+
+// Simple fonts without an /Encoding use WinAnsi here; the differences from StandardEncoding are mostly quotes
+const WIN_ANSI = [...new TextDecoder('windows-1252').decode(Uint8Array.from({ length: 256 }, (_, i) => i))];
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', nbspace: ' ', nonbreakingspace: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$',
+  percent: '%', ampersand: '&', quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*', plus: '+',
+  comma: ',', hyphen: '-', minus: '−', period: '.', slash: '/', colon: ':', semicolon: ';', less: '<', equal: '=',
+  greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', asciicircum: '^',
+  underscore: '_', grave: '`', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~', quoteleft: '‘',
+  quoteright: '’', quotedblleft: '“', quotedblright: '”', quotesinglbase: '‚', quotedblbase: '„', endash: '–',
+  emdash: '—', bullet: '•', ellipsis: '…', dagger: '†', daggerdbl: '‡', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi',
+  ffl: 'ffl', Euro: '€', sterling: '£', yen: '¥', cent: '¢', currency: '¤', section: '§', paragraph: '¶',
+  degree: '°', copyright: '©', registered: '®', trademark: '™', periodcentered: '·', multiply: '×', divide: '÷',
+  plusminus: '±', germandbls: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', oslash: 'ø', Oslash: 'Ø', dotlessi: 'ı',
+  eth: 'ð', Eth: 'Ð', thorn: 'þ', Thorn: 'Þ', lslash: 'ł', Lslash: 'Ł', exclamdown: '¡', questiondown: '¿',
+  guillemotleft: '«', guillemotright: '»', ordfeminine: 'ª', ordmasculine: 'º', mu: 'µ', onehalf: '½',
+  onequarter: '¼', threequarters: '¾', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9',
+};
+
+const ACCENTS: Record<string, string> = {
+  acute: '́', grave: '̀', circumflex: '̂', dieresis: '̈', tilde: '̃', ring: '̊',
+  cedilla: '̧', caron: '̌', macron: '̄', breve: '̆', ogonek: '̨', dotaccent: '̇',
+};
+
+const glyphText = (glyph: string): string => {
+  if (GLYPH_NAMES[glyph] !== undefined) return GLYPH_NAMES[glyph];
+  if (/^[A-Za-z]$/.test(glyph)) return glyph;
+  let match: RegExpMatchArray | null;
+  if ((match = glyph.match(/^uni((?:[0-9A-F]{4})+)$/))) return String.fromCharCode(...match[1].match(/.{4}/g)!.map(h => parseInt(h, 16)));
+  if ((match = glyph.match(/^u([0-9A-F]{4,6})$/))) return String.fromCodePoint(parseInt(match[1], 16));
+  if ((match = glyph.match(/^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron|macron|breve|ogonek|dotaccent)$/))) {
+    return (match[1] + ACCENTS[match[2]]).normalize('NFC');
+  }
+  if (glyph.includes('.')) return glyphText(glyph.slice(0, glyph.indexOf('.'))); // Variants such as "a.sc"
+  if (glyph.includes('_')) return glyph.split('_').map(glyphText).join(''); // Ligatures such as "T_h"
+  return '';
+};
+
+const utf16 = (hex: string): string => {
+  let text = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  if (hex.length === 2) text = String.fromCharCode(parseInt(hex, 16));
+  return text;
+};
+
+// ToUnicode CMaps map character codes to UTF-16BE strings through bfchar and bfrange entries
+const parseToUnicode = (data: Uint8Array): { map: Map<number, string>; codeBytes: number } => {
+  const text = new TextDecoder('latin1').decode(data);
+  const map = new Map<number, string>();
+  for (const block of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) map.set(parseInt(m[1], 16), utf16(m[2]));
+  }
+  for (const block of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const lo = parseInt(m[1], 16);
+      const hi = Math.min(parseInt(m[2], 16), lo + 0xffff);
+      if (m[3].startsWith('[')) {
+        [...m[3].matchAll(/<([0-9a-f]*)>/gi)].forEach((d, i) => { if (lo + i <= hi) map.set(lo + i, utf16(d[1])); });
+      } else {
+        const base = utf16(m[3].slice(1, -1));
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = lo; code <= hi; code++) map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - lo));
+      }
+    }
+  }
+  const space = text.match(/begincodespacerange\s*<([0-9a-f]+)>/i);
+  return { map, codeBytes: space ? Math.ceil(space[1].length / 2) : 0 };
+};
+
+const DEFAULT_WIDTH = 500;
+
+const loadFont = async (doc: PdfDocument, fontValue: PdfValue): Promise<PdfFont> => {
+  const font = doc.resolve(fontValue);
+  const dict: PdfDict = font instanceof Map ? font : new Map();
+  const get = (d: PdfDict, key: string) => doc.resolve(d.get(key));
+  const subtype = get(dict, 'Subtype');
+
+  let toUnicode: { map: Map<number, string>; codeBytes: number } | null = null;
+  const cmap = get(dict, 'ToUnicode');
+  if (isStream(cmap)) {
+    try {
+      toUnicode = parseToUnicode(await doc.decode(cmap));
+    } catch {
+      toUnicode = null;
+    }
+  }
+
+  if (subtype === 'Type0') {
+    // Composite fonts: two-byte codes with widths from the descendant CIDFont's /W array
+    const descendants = get(dict, 'DescendantFonts');
+    const cidFont = doc.resolve(Array.isArray(descendants) ? descendants[0] : null);
+    const cid: PdfDict = cidFont instanceof Map ? cidFont : new Map();
+    const defaultWidth = Number(get(cid, 'DW') ?? 1000);
+    const widths = new Map<number, number>();
+    const w = get(cid, 'W');
+    if (Array.isArray(w)) {
+      for (let i = 0; i < w.length;) {
+        const first = Number(doc.resolve(w[i]));
+        const next = doc.resolve(w[i + 1]);
+        if (Array.isArray(next)) {
+          next.forEach((width, j) => widths.set(first + j, Number(doc.resolve(width))));
+          i += 2;
+        } else {
+          const last = Number(next);
+          const width = Number(doc.resolve(w[i + 2]));
+          for (let code = first; code <= last && code - first < 0x10000; code++) widths.set(code, width);
+          i += 3;
+        }
+      }
+    }
+    return {
+      codeBytes: toUnicode?.codeBytes === 1 ? 1 : 2,
+      text: code => toUnicode?.map.get(code) ?? '',
+      width: code => (widths.get(code) ?? defaultWidth) / 1000,
+    };
+  }
+
+  // Simple fonts: one-byte codes; Type3 glyph widths are in the font's own matrix units
+  const encoding = [...WIN_ANSI];
+  const encodingValue = get(dict, 'Encoding');
+  if (encodingValue instanceof Map) {
+    const differences = get(encodingValue, 'Differences');
+    if (Array.isArray(differences)) {
+      let code = 0;
+      differences.forEach(entry => {
+        const item = doc.resolve(entry);
+        if (typeof item === 'number') code = item;
+        else if (typeof item === 'string') encoding[code++] = glyphText(item);
+      });
+    }
+  }
+
+  const matrix = get(dict, 'FontMatrix');
+  const scale = subtype === 'Type3' && Array.isArray(matrix) ? Number(doc.resolve(matrix[0])) : 0.001;
+  const firstChar = Number(get(dict, 'FirstChar') ?? 0);
+  const widthsValue = get(dict, 'Widths');
+  const widths = Array.isArray(widthsValue) ? widthsValue.map(v => Number(doc.resolve(v))) : [];
+  const descriptor = get(dict, 'FontDescriptor');
+  const missing = Number((descriptor instanceof Map ? get(descriptor, 'MissingWidth') : null) ?? 0);
+  // The standard 14 fonts may come without widths; Courier is monospaced at 600
+  const fallback = missing || (/Courier/i.test(String(get(dict, 'BaseFont') ?? '')) ? 600 : DEFAULT_WIDTH);
+
+  return {
+    codeBytes: 1,
+    text: code => toUnicode?.map.get(code) ?? encoding[code] ?? '',
+    width: code => (widths[code - firstChar] || fallback) * scale,
+  };
+};
+
+// --- Content Streams ---
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+interface Glyph {
+  text: string;
+  x: number;
+  right: number;
+  y: number;
+  size: number;
+  spaceWidth: number; // Width of a space in the glyph's font, for telling word gaps from column gaps
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: PdfFont | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  scale: number; // Horizontal scaling, 1 = 100%
+  leading: number;
+  rise: number;
+}
+
+// Runs the text and graphics state operators of a content stream, collecting every glyph drawn
+const readContent = async (
+  doc: PdfDocument,
+  content: Uint8Array,
+  resources: PdfDict,
+  ctm: Matrix,
+  pageHeight: number,
+  glyphs: Glyph[],
+  depth = 0
+): Promise<void> => {
+  const get = (d: PdfDict, key: string) => doc.resolve(d.get(key));
+  const fontCache = new Map<string, PdfFont>();
+  const fontResources = get(resources, 'Font');
+  const xObjects = get(resources, 'XObject');
+
+  let state: GraphicsState = { ctm, font: null, fontSize: 0, charSpacing: 0, wordSpacing: 0, scale: 1, leading: 0, rise: 0 };
+  const saved: GraphicsState[] = [];
+  let tm: Matrix = IDENTITY;
+  let tlm: Matrix = IDENTITY;
+
+  const moveLine = (tx: number, ty: number) => {
+    tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+    tm = tlm;
+  };
+
+  const show = (bytes: Uint8Array) => {
+    const { font, fontSize, charSpacing, wordSpacing, scale, rise } = state;
+    if (!font) return;
+    const spaceAdvance = font.width(32) || DEFAULT_WIDTH / 1000;
+    for (let i = 0; i + font.codeBytes <= bytes.length; i += font.codeBytes) {
+      const code = font.codeBytes === 2 ? bytes[i] * 256 + bytes[i + 1] : bytes[i];
+      const width = font.width(code);
+      const trm = multiply([fontSize * scale, 0, 0, fontSize, 0, rise], multiply(tm, state.ctm));
+      // Only horizontal, upright text takes part in the table layout
+      if (trm[0] > 0 && Math.abs(trm[1]) < trm[0] * 0.01) {
+        glyphs.push({
+          text: font.text(code),
+          x: trm[4],
+          right: trm[4] + width * trm[0],
+          y: pageHeight - trm[5],
+          size: Math.abs(trm[3]),
+          spaceWidth: spaceAdvance * trm[0],
+        });
+      }
+      const advance = (width * fontSize + charSpacing + (font.codeBytes === 1 && code === 32 ? wordSpacing : 0)) * scale;
+      tm = multiply([1, 0, 0, 1, advance, 0], tm);
+    }
+  };
+
+  const lexer = createLexer(content, 0, false);
+  let operands: PdfValue[] = [];
+  for (let value = lexer.read(); value !== undefined; value = lexer.read()) {
+    if (!isOperator(value)) {
+      operands.push(value);
+      continue;
+    }
+    const args = operands;
+    operands = [];
+    const num = (i: number) => (typeof args[i] === 'number' ? (args[i] as number) : 0);
+    const matrixArgs = (): Matrix => [num(0), num(1), num(2), num(3), num(4), num(5)];
+
+    switch (value.name) {
+      case 'q': saved.push({ ...state }); break;
+      case 'Q': state = saved.pop() ?? state; break;
+      case 'cm': state.ctm = multiply(matrixArgs(), state.ctm); break;
+      case 'BT': tm = tlm = IDENTITY; break;
+      case 'Tf': {
+        const name = String(args[0]);
+        if (!fontCache.has(name)) {
+          fontCache.set(name, await loadFont(doc, fontResources instanceof Map ? fontResources.get(name) ?? null : null));
+        }
+        state.font = fontCache.get(name) ?? null;
+        state.fontSize = num(1);
+        break;
+      }
+      case 'Tc': state.charSpacing = num(0); break;
+      case 'Tw': state.wordSpacing = num(0); break;
+      case 'Tz': state.scale = num(0) / 100; break;
+      case 'TL': state.leading = num(0); break;
+      case 'Ts': state.rise = num(0); break;
+      case 'Td': moveLine(num(0), num(1)); break;
+      case 'TD': state.leading = -num(1); moveLine(num(0), num(1)); break;
+      case 'Tm': tm = tlm = matrixArgs(); break;
+      case 'T*': moveLine(0, -state.leading); break;
+      case 'Tj': if (args[0] instanceof Uint8Array) show(args[0]); break;
+      case "'":
+        moveLine(0, -state.leading);
+        if (args[0] instanceof Uint8Array) show(args[0]);
+        break;
+      case '"':
+        state.wordSpacing = num(0);
+        state.charSpacing = num(1);
+        moveLine(0, -state.leading);
+        if (args[2] instanceof Uint8Array) show(args[2]);
+        break;
+      case 'TJ':
+        if (Array.isArray(args[0])) {
+          for (const item of args[0]) {
+            if (item instanceof Uint8Array) show(item);
+            else if (typeof item === 'number') tm = multiply([1, 0, 0, 1, (-item / 1000) * state.fontSize * state.scale, 0], tm);
+          }
+        }
+        break;
+      case 'Do': {
+        // Form XObjects are content streams of their own, often used for repeated headers
+        const xObject = xObjects instanceof Map ? doc.resolve(xObjects.get(String(args[0]))) : null;
+        if (!isStream(xObject) || get(xObject.dict, 'Subtype') !== 'Form' || depth >= MAX_NESTING) break;
+        const matrix = get(xObject.dict, 'Matrix');
+        const formMatrix = Array.isArray(matrix) ? (matrix.map(v => Number(doc.resolve(v))) as Matrix) : IDENTITY;
+        const formResources = get(xObject.dict, 'Resources');
+        try {
+          const data = await doc.decode(xObject);
+          await readContent(doc, data, formResources instanceof Map ? formResources : resources, multiply(formMatrix, state.ctm), pageHeight, glyphs, depth + 1);
+        } catch {
+          // An unreadable form only loses its own text
+        }
+        break;
+      }
+      case 'BI': {
+        // Inline image data runs from ID to an EI surrounded by whitespace
+        let op: PdfValue | undefined;
+        do {
+          op = lexer.read();
+        } while (op !== undefined && !(isOperator(op) && op.name === 'ID'));
+        let p = lexer.pos + 1;
+        while (p < content.length && !(content[p] === 0x45 && content[p + 1] === 0x49 && CHAR_CLASS[content[p - 1]] === WHITESPACE
+          && (p + 2 >= content.length || CHAR_CLASS[content[p + 2]] !== REGULAR))) p++;
+        lexer.pos = p + 2;
+        break;
+      }
+    }
+  }
+};
+
+// --- Pages ---
+
+// Inherited page attributes are looked up through the /Parent chain
+const collectPages = (doc: PdfDocument): PdfDict[] => {
+  const pages: PdfDict[] = [];
+  const visit = (node: PdfValue, depth: number) => {
+    const dict = doc.resolve(node);
+    if (!(dict instanceof Map) || depth > 64) return;
+    const kids = doc.resolve(dict.get('Kids'));
+    if (Array.isArray(kids)) kids.forEach(kid => visit(kid, depth + 1));
+    else if (dict.get('Type') === 'Page' || dict.has('Contents')) pages.push(dict);
+  };
+  if (doc.root) visit(doc.root.get('Pages') ?? null, 0);
+  return pages;
+};
+
+const inherited = (doc: PdfDocument, page: PdfDict, key: string): PdfValue => {
+  let node: PdfValue = page;
+  for (let depth = 0; node instanceof Map && depth < 64; depth++) {
+    if (node.has(key)) return doc.resolve(node.get(key));
+    node = doc.resolve(node.get('Parent'));
+  }
+  return null;
+};
+
+// Maps page space to an upright page with its origin at the bottom left, honouring /Rotate
+const pageTransform = (box: number[], rotate: number): { matrix: Matrix; width: number; height: number } => {
+  const [x0, y0, x1, y1] = [Math.min(box[0], box[2]), Math.min(box[1], box[3]), Math.max(box[0], box[2]), Math.max(box[1], box[3])];
+  const [w, h] = [x1 - x0, y1 - y0];
+  switch (((rotate % 360) + 360) % 360) {
+    case 90: return { matrix: [0, -1, 1, 0, -y0, x1], width: h, height: w };
+    case 180: return { matrix: [-1, 0, 0, -1, x1, y1], width: w, height: h };
+    case 270: return { matrix: [0, 1, -1, 0, y1, -x0], width: h, height: w };
+    default: return { matrix: [1, 0, 0, 1, -x0, -y0], width: w, height: h };
+  }
+};
+
+const LINE_TOLERANCE = 0.4; // Baselines closer than this fraction of the font size share a line
+const WORD_GAP = 0.1; // Gaps wider than this fraction of the font size become a space
+
+/**
+ * Sorts glyphs into lines and joins each line's glyphs into runs. A run ends at a gap wider
+ * than one and a half spaces, which separates columns but not the words of a cell.
+ */
+const layoutLines = (glyphs: Glyph[]): PdfLine[] => {
+  const sorted = [...glyphs].sort((a, b) => a.y - b.y);
+  const groups: Glyph[][] = [];
+  for (const glyph of sorted) {
+    const current = groups[groups.length - 1];
+    if (current && glyph.y - current[0].y <= LINE_TOLERANCE * Math.max(glyph.size, current[0].size)) current.push(glyph);
+    else groups.push([glyph]);
+  }
+
+  return groups.map(group => {
+    const runs: PdfRun[] = [];
+    let run: PdfRun | null = null;
+    let last: Glyph | null = null;
+    let spaced = false;
+    for (const glyph of group.sort((a, b) => a.x - b.x)) {
+      if (!glyph.text.trim()) {
+        spaced = true;
+        continue;
+      }
+      // Bold is sometimes faked by drawing the same glyph twice with a small offset
+      if (last && last.text === glyph.text && Math.abs(last.x - glyph.x) < glyph.size * 0.1) continue;
+      const gap = run ? glyph.x - run.right : Infinity;
+      if (run && gap <= Math.max(glyph.spaceWidth * 1.5, glyph.size * 0.3)) {
+        run.text += (spaced || gap > glyph.size * WORD_GAP ? ' ' : '') + glyph.text;
+        run.right = Math.max(run.right, glyph.right);
+        run.size = Math.max(run.size, glyph.size);
+      } else {
+        run = { text: glyph.text, x: glyph.x, right: glyph.right, y: glyph.y, size: glyph.size };
+        runs.push(run);
+      }
+      last = glyph;
+      spaced = false;
+    }
+    return { y: group[0].y, runs };
+  }).filter(line => line.runs.length > 0);
+};
+
+export const readPdf = async (buffer: ArrayBuffer): Promise<PdfPage[]> => {
+  const doc = await openDocument(new Uint8Array(buffer));
+  const pageDicts = collectPages(doc);
+  if (pageDicts.length === 0) throw new Error('No pages found in the PDF.');
+
+  const pages: PdfPage[] = [];
+  for (const page of pageDicts) {
+    const boxValue = inherited(doc, page, 'CropBox') ?? inherited(doc, page, 'MediaBox');
+    const box = Array.isArray(boxValue) && boxValue.length === 4 ? boxValue.map(v => Number(doc.resolve(v))) : [0, 0, 612, 792];
+    const { matrix, width, height } = pageTransform(box, Number(inherited(doc, page, 'Rotate') ?? 0));
+    const resources = inherited(doc, page, 'Resources');
+
+    const contents = doc.resolve(page.get('Contents'));
+    const parts = (Array.isArray(contents) ? contents.map(c => doc.resolve(c)) : [contents]).filter(isStream);
+    // Content may be split across streams at any token boundary, so the parts are joined first
+    const decoded: Uint8Array[] = [];
+    for (const part of parts) {
+      try {
+        decoded.push(await doc.decode(part), Uint8Array.of(10));
+      } catch {
+        // A stream with an unsupported filter loses its own text only
+      }
+    }
+
+    const glyphs: Glyph[] = [];
+    await readContent(doc, concat(decoded), resources instanceof Map ? resources : new Map(), matrix, height, glyphs);
+    pages.push({ width, height, lines: layoutLines(glyphs) });
+  }
+  return pages;
+};
+
+// --- Tables ---
+
+const COLUMN_GAP_TOLERANCE = 0.05; // Share of table lines allowed to cross a column gap
+const MIN_COLUMN_GAP = 2; // Points
+
+// Lines with at least half the usual number of runs; titles and page footers have fewer
+const tableLines = (pages: PdfPage[]): PdfLine[] => {
+  const lines = pages.flatMap(p => p.lines).filter(l => l.runs.length >= 2);
+  if (lines.length === 0) return [];
+  const counts = lines.map(l => l.runs.length).sort((a, b) => a - b);
+  const median = counts[Math.floor(counts.length / 2)];
+  return lines.filter(l => l.runs.length >= Math.max(2, Math.floor(median / 2)));
+};
+
+/**
+ * Column boundaries, in points from the left edge: the middle of each vertical strip that
+ * no more than a few table lines have text in. Returns [] for text in a single column.
+ */
+export const detectPdfColumns = (pages: PdfPage[]): number[] => {
+  const lines = tableLines(pages);
+  if (lines.length === 0) return [];
+  const width = Math.ceil(Math.max(...pages.map(p => p.width), ...lines.flatMap(l => l.runs.map(r => r.right)))) + 1;
+  const coverage = new Uint32Array(width);
+  let left = Infinity;
+  let right = -Infinity;
+  for (const line of lines) {
+    for (const run of line.runs) {
+      for (let x = Math.max(0, Math.floor(run.x)); x < Math.min(width, Math.ceil(run.right)); x++) coverage[x]++;
+      left = Math.min(left, run.x);
+      right = Math.max(right, run.right);
+    }
+  }
+
+  const allowed = Math.floor(lines.length * COLUMN_GAP_TOLERANCE);
+  const boundaries: number[] = [];
+  let gapStart = -1;
+  for (let x = Math.max(0, Math.floor(left)); x <= Math.ceil(right) && x < width; x++) {
+    if (coverage[x] <= allowed) {
+      if (gapStart < 0) gapStart = x;
+    } else {
+      if (gapStart >= 0 && x - gapStart >= MIN_COLUMN_GAP && gapStart > left) boundaries.push((gapStart + x) / 2);
+      gapStart = -1;
+    }
+  }
+  return boundaries;
+};
+
+// Each run goes to the column its middle falls in
+const lineCells = (line: PdfLine, boundaries: number[]): string[] => {
+  const cells: string[] = new Array(boundaries.length + 1).fill('');
+  for (const run of line.runs) {
+    const middle = (run.x + run.right) / 2;
+    let column = 0;
+    while (column < boundaries.length && boundaries[column] < middle) column++;
+    cells[column] = cells[column] ? `${cells[column]} ${run.text}` : run.text;
+  }
+  return cells;
+};
+
+const sameCells = (a: string[], b: string[]) => a.every((cell, i) => cell.trim().toLowerCase() === (b[i] ?? '').trim().toLowerCase());
+
+/**
+ * Rows of the table split at `boundaries`, header first when `hasHeader`. On every page
+ * the table runs from its first to its last line with two or more cells, which drops page
+ * titles and footers; repeats of the header are skipped, and a line that only fills cells
+ * after an empty first column continues the row above, as wrapped cell text does.
+ */
+export const extractPdfTable = (pages: PdfPage[], boundaries: number[], hasHeader: boolean): string[][] => {
+  const minFilled = boundaries.length === 0 ? 1 : 2;
+  const filled = (cells: string[]) => cells.filter(Boolean).length;
+  const rows: string[][] = [];
+  let header: string[] | null = null;
+
+  for (const page of pages) {
+    const cells = page.lines.map(line => lineCells(line, boundaries));
+    const first = cells.findIndex(c => filled(c) >= minFilled);
+    if (first < 0) continue;
+    let last = cells.length - 1;
+    while (filled(cells[last]) < minFilled) last--;
+
+    for (let i = first; i <= last; i++) {
+      const row = cells[i];
+      if (hasHeader && !header) {
+        header = row;
+        rows.push(row);
+        continue;
+      }
+      if (header && sameCells(row, header)) continue;
+      const previous = rows[rows.length - 1];
+      if (filled(row) < minFilled && !row[0] && previous && previous !== header) {
+        row.forEach((cell, c) => { if (cell) previous[c] = previous[c] ? `${previous[c]} ${cell}` : cell; });
+      } else {
+        rows.push(row);
+      }
+    }
+  }
+  return rows;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { colognePhonetic, doubleMetaphone, nysiis, phoneticTokens, phoneticTokensAgree, soundex } from './phonetic';
+
+// --- Soundex ---
+
+describe('soundex', () => {
+  // Examples from the US National Archives description of the coding rules
+  it.each([
+    ['Robert', 'R163'],
+    ['Rupert', 'R163'],
+    ['Rubin', 'R150'],
+    ['Ashcraft', 'A261'],
+    ['Ashcroft', 'A261'],
+    ['Tymczak', 'T522'],
+    ['Pfister', 'P236'],
+    ['Honeyman', 'H555'],
+    ['Gutierrez', 'G362'],
+    ['Jackson', 'J250'],
+    ['Lee', 'L000'],
+  ])('encodes %s as %s', (word, code) => {
+    expect(soundex(word)).toBe(code);
+  });
+});
+
+// --- NYSIIS ---
+
+describe('nysiis', () => {
+  it.each([
+    ['Brian', 'BRAN'], ['Brown', 'BRAN'], ['Brun', 'BRAN'],
+    ['Capp', 'CAP'], ['Cope', 'CAP'], ['Copp', 'CAP'], ['Kipp', 'CAP'],
+    ['Dane', 'DAN'], ['Dean', 'DAN'], ['Dionne', 'DAN'], ['Dent', 'DAD'],
+    ['Smith', 'SNAT'], ['Schmit', 'SNAT'], ['Schmidt', 'SNAD'],
+    ['Trueman', 'TRANAN'], ['Truman', 'TRANAN'],
+    ['Knight', 'NAGT'], ['Mitchell', 'MATCAL'], ['Bishop', 'BASAP'], ['MacIntosh', 'MCANT'],
+  ])('encodes %s as %s', (word, code) => {
+    expect(nysiis(word)).toBe(code);
+  });
+
+  it('truncates codes to six characters', () => {
+    expect(nysiis('Kirschner')).toBe('CARSNA');
+  });
+});
+
+// --- Kölner Phonetik ---
+
+describe('colognePhonetic', () => {
+  it.each([
+    ['Müller-Lüdenscheidt', '65752682'],
+    ['Wikipedia', '3412'],
+    ['Breschnew', '17863'],
+    ['Christoph', '47823'],
+    ['Xaver', '4837'],
+    ['Meier', '67'], ['Mayer', '67'], ['Maier', '67'],
+    ['Müller', '657'], ['Mueller', '657'],
+  ])('encodes %s as %s', (word, code) => {
+    expect(colognePhonetic(word)).toBe(code);
+  });
+});
+
+// --- Double Metaphone ---
+
+describe('doubleMetaphone', () => {
+  // Primary and alternate codes from Philips' reference implementation
+  it.each([
+    ['Smith', 'SM0', 'XMT'],
+    ['Schmidt', 'XMT', 'SMT'],
+    ['Catherine', 'K0RN', 'KTRN'],
+    ['Michael', 'MKL', 'MXL'],
+    ['Jankelowicz', 'JNKL', 'ANKL'],
+    ['Thumbail', '0MPL', 'TMPL'],
+    ['Cabrillo', 'KPRL', 'KPR'],
+    ['Gallegos', 'KLKS', 'KKS'],
+    ['Jose', 'HS', 'HS'],
+    ['Caesar', 'SSR', 'SSR'],
+    ['Chianti', 'KNT', 'KNT'],
+    ['Gnome', 'NM', 'NM'],
+    ['Knight', 'NT', 'NT'],
+    ['Edge', 'AJ', 'AJ'],
+  ])('encodes %s as %s / %s', (word, primary, alternate) => {
+    expect(doubleMetaphone(word)).toEqual([primary, alternate]);
+  });
+});
+
+// --- Token Comparison ---
+
+describe('phoneticTokensAgree', () => {
+  it('requires every word on each side to sound like a word on the other', () => {
+    const tokens = (value: string) => phoneticTokens(value, 'doubleMetaphone');
+    expect(phoneticTokensAgree(tokens('Jon Smyth'), tokens('Smith John'))).toBe(true);
+    expect(phoneticTokensAgree(tokens('Jon Smyth'), tokens('John'))).toBe(false);
+  });
+});
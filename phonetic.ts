@@ -0,0 +1,598 @@
+import { PhoneticEncoder } from './types';
+
+/**
+ * Phonetic encoders. Each one encodes a single word; multi-word values are
+ * encoded token by token with `phoneticTokens` and compared word by word.
+ */
+
+export const PHONETIC_ENCODER_LABELS: Record<PhoneticEncoder, string> = {
+  soundex: 'Soundex',
+  doubleMetaphone: 'Double Metaphone',
+  nysiis: 'NYSIIS',
+  cologne: 'Kölner Phonetik',
+};
+
+// Latin letters only, accents removed
+const lettersOf = (word: string): string =>
+  word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().replace(/[^A-Z]/g, '');
+
+// --- Soundex ---
+
+const SOUNDEX_CODES: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6',
+};
+
+/**
+ * American Soundex as specified by the US National Archives: vowels separate
+ * equal codes, while H and W do not ("Ashcraft" is A261, not A226).
+ */
+export const soundex = (word: string): string => {
+  const s = lettersOf(word);
+  if (!s) return '';
+
+  let code = s[0];
+  let last = SOUNDEX_CODES[s[0]] || '';
+  for (let i = 1; i < s.length && code.length < 4; i++) {
+    const digit = SOUNDEX_CODES[s[i]];
+    if (digit) {
+      if (digit !== last) code += digit;
+      last = digit;
+    } else if (s[i] !== 'H' && s[i] !== 'W') {
+      last = '';
+    }
+  }
+  return code.padEnd(4, '0');
+};
+
+// --- NYSIIS ---
+
+const NYSIIS_VOWELS = new Set(['A', 'E', 'I', 'O', 'U']);
+const NYSIIS_MAX_LENGTH = 6;
+
+// New York State Identification and Intelligence System, original algorithm truncated to 6 characters
+export const nysiis = (word: string): string => {
+  let s = lettersOf(word);
+  if (!s) return '';
+
+  s = s.replace(/^MAC/, 'MCC').replace(/^KN/, 'NN').replace(/^K/, 'C').replace(/^(PH|PF)/, 'FF').replace(/^SCH/, 'SSS');
+  s = s.replace(/(EE|IE)$/, 'Y').replace(/(DT|RT|RD|NT|ND)$/, 'D');
+
+  const chars = s.split('');
+  let key = chars[0];
+  for (let i = 1; i < chars.length; i++) {
+    const prev = chars[i - 1];
+    const next = chars[i + 1];
+    const cur = chars[i];
+
+    if (cur === 'E' && next === 'V') {
+      chars[i] = 'A';
+      chars[i + 1] = 'F';
+    } else if (NYSIIS_VOWELS.has(cur)) {
+      chars[i] = 'A';
+    } else if (cur === 'Q') {
+      chars[i] = 'G';
+    } else if (cur === 'Z') {
+      chars[i] = 'S';
+    } else if (cur === 'M') {
+      chars[i] = 'N';
+    } else if (cur === 'K') {
+      chars[i] = next === 'N' ? 'N' : 'C';
+    } else if (cur === 'S' && next === 'C' && chars[i + 2] === 'H') {
+      chars[i + 1] = chars[i + 2] = 'S';
+    } else if (cur === 'P' && next === 'H') {
+      chars[i] = chars[i + 1] = 'F';
+    } else if (cur === 'H' && (!NYSIIS_VOWELS.has(prev) || next === undefined || !NYSIIS_VOWELS.has(next))) {
+      chars[i] = prev;
+    } else if (cur === 'W' && NYSIIS_VOWELS.has(prev)) {
+      chars[i] = prev;
+    }
+
+    if (chars[i] !== key[key.length - 1]) key += chars[i];
+  }
+
+  if (key.length > 1 && key.endsWith('S')) key = key.slice(0, -1);
+  if (key.length > 1 && key.endsWith('AY')) key = key.slice(0, -2) + 'Y';
+  if (key.length > 1 && key.endsWith('A')) key = key.slice(0, -1);
+  return key.substring(0, NYSIIS_MAX_LENGTH);
+};
+
+// --- Kölner Phonetik ---
+
+const COLOGNE_SIMPLE: Record<string, string> = {
+  A: '0', E: '0', I: '0', J: '0', O: '0', U: '0', Y: '0',
+  B: '1',
+  F: '3', V: '3', W: '3',
+  G: '4', K: '4', Q: '4',
+  L: '5',
+  M: '6', N: '6',
+  R: '7',
+  S: '8', Z: '8',
+};
+
+// Cologne phonetics for German names: "Müller" and "Mueller" both encode to 657
+export const colognePhonetic = (word: string): string => {
+  const s = lettersOf(word.toUpperCase().replace(/Ä/g, 'A').replace(/Ö/g, 'O').replace(/Ü/g, 'U').replace(/ß/g, 'S'));
+  let digits = '';
+
+  for (let i = 0; i < s.length; i++) {
+    const prev = s[i - 1] || '';
+    const next = s[i + 1] || '';
+    const c = s[i];
+
+    if (c === 'H') continue;
+    if (c === 'P') {
+      digits += next === 'H' ? '3' : '1';
+    } else if (c === 'D' || c === 'T') {
+      digits += next && 'CSZ'.includes(next) ? '8' : '2';
+    } else if (c === 'C') {
+      if (i === 0) digits += next && 'AHKLOQRUX'.includes(next) ? '4' : '8';
+      else digits += next && 'AHKOQUX'.includes(next) && !(prev && 'SZ'.includes(prev)) ? '4' : '8';
+    } else if (c === 'X') {
+      digits += prev && 'CKQ'.includes(prev) ? '8' : '48';
+    } else {
+      digits += COLOGNE_SIMPLE[c] || '';
+    }
+  }
+
+  const collapsed = digits.replace(/(.)\1+/g, '$1');
+  return collapsed.charAt(0) + collapsed.substring(1).replace(/0/g, '');
+};
+
+// --- Double Metaphone ---
+
+const DM_VOWELS = 'AEIOUY';
+const DM_MAX_LENGTH = 4;
+
+/**
+ * Lawrence Philips' Double Metaphone. Returns the primary and alternate codes;
+ * the alternate covers a second plausible pronunciation ("Schmidt" is XMT or SMT).
+ */
+export const doubleMetaphone = (word: string): [string, string] => {
+  const input = word.toUpperCase().replace(/[^A-ZÇÑ]/g, '');
+  const length = input.length;
+  if (length === 0) return ['', ''];
+
+  const value = input + '     '; // Padding so lookahead never runs off the end
+  const last = length - 1;
+  let primary = '';
+  let secondary = '';
+  let index = 0;
+
+  const at = (i: number) => (i < 0 ? '' : value.charAt(i));
+  const isVowel = (i: number) => i >= 0 && i < length && DM_VOWELS.includes(value.charAt(i));
+  const stringAt = (start: number, len: number, ...options: string[]) =>
+    start >= 0 && options.includes(value.substring(start, start + len));
+  const add = (main: string, alternate: string = main) => {
+    primary += main;
+    secondary += alternate;
+  };
+
+  const isSlavoGermanic = /W|K|CZ|WITZ/.test(input);
+  const isGermanic = stringAt(0, 4, 'VAN ', 'VON ') || stringAt(0, 3, 'SCH');
+
+  // Silent first letters
+  if (stringAt(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) index++;
+  // Initial X is pronounced Z ("Xavier")
+  if (at(0) === 'X') {
+    add('S');
+    index++;
+  }
+
+  while (index < length) {
+    const c = at(index);
+    switch (c) {
+      case 'A': case 'E': case 'I': case 'O': case 'U': case 'Y':
+        if (index === 0) add('A'); // Only initial vowels are encoded
+        index++;
+        break;
+
+      case 'B':
+        add('P');
+        index += at(index + 1) === 'B' ? 2 : 1;
+        break;
+
+      case 'Ç':
+        add('S');
+        index++;
+        break;
+
+      case 'C':
+        // Germanic "ach" ("bacher", "macher")
+        if (index > 1 && !isVowel(index - 2) && stringAt(index - 1, 3, 'ACH')
+          && at(index + 2) !== 'I' && (at(index + 2) !== 'E' || stringAt(index - 2, 6, 'BACHER', 'MACHER'))) {
+          add('K');
+          index += 2;
+          break;
+        }
+        if (index === 0 && stringAt(index, 6, 'CAESAR')) {
+          add('S');
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 4, 'CHIA')) {
+          add('K');
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 2, 'CH')) {
+          if (index > 0 && stringAt(index, 4, 'CHAE')) { // "Michael"
+            add('K', 'X');
+            index += 2;
+            break;
+          }
+          // Greek roots ("chemistry", "chorus")
+          if (index === 0 && (stringAt(index + 1, 5, 'HARAC', 'HARIS') || stringAt(index + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) && !stringAt(0, 5, 'CHORE')) {
+            add('K');
+            index += 2;
+            break;
+          }
+          if (isGermanic || stringAt(index - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') || stringAt(index + 2, 1, 'T', 'S')
+            || ((index === 0 || stringAt(index - 1, 1, 'A', 'O', 'U', 'E')) && stringAt(index + 2, 1, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' '))) {
+            add('K');
+          } else if (index > 0) {
+            if (stringAt(0, 2, 'MC')) add('K');
+            else add('X', 'K');
+          } else {
+            add('X');
+          }
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 2, 'CZ') && !stringAt(index - 2, 4, 'WICZ')) { // "Czerny"
+          add('S', 'X');
+          index += 2;
+          break;
+        }
+        if (stringAt(index + 1, 3, 'CIA')) { // "focaccia"
+          add('X');
+          index += 3;
+          break;
+        }
+        if (stringAt(index, 2, 'CC') && !(index === 1 && at(0) === 'M')) {
+          if (stringAt(index + 2, 1, 'I', 'E', 'H') && !stringAt(index + 2, 2, 'HU')) {
+            if ((index === 1 && at(index - 1) === 'A') || stringAt(index - 1, 5, 'UCCEE', 'UCCES')) add('KS'); // "accident", "succeed"
+            else add('X'); // "bacci", "bertucci"
+            index += 3;
+            break;
+          }
+          add('K');
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 2, 'CK', 'CG', 'CQ')) {
+          add('K');
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 2, 'CI', 'CE', 'CY')) {
+          if (stringAt(index, 3, 'CIO', 'CIE', 'CIA')) add('S', 'X');
+          else add('S');
+          index += 2;
+          break;
+        }
+        add('K');
+        if (stringAt(index + 1, 2, ' C', ' Q', ' G')) index += 3;
+        else if (stringAt(index + 1, 1, 'C', 'K', 'Q') && !stringAt(index + 1, 2, 'CE', 'CI')) index += 2;
+        else index++;
+        break;
+
+      case 'D':
+        if (stringAt(index, 2, 'DG')) {
+          if (stringAt(index + 2, 1, 'I', 'E', 'Y')) { // "edge"
+            add('J');
+            index += 3;
+          } else { // "edgar"
+            add('TK');
+            index += 2;
+          }
+          break;
+        }
+        add('T');
+        index += stringAt(index, 2, 'DT', 'DD') ? 2 : 1;
+        break;
+
+      case 'F':
+        add('F');
+        index += at(index + 1) === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (at(index + 1) === 'H') {
+          if (index > 0 && !isVowel(index - 1)) {
+            add('K');
+            index += 2;
+            break;
+          }
+          if (index === 0) { // "Ghislane", "Ghiradelli"
+            add(at(index + 2) === 'I' ? 'J' : 'K');
+            index += 2;
+            break;
+          }
+          // Silent in "hugh", "bough", "broughton"
+          if ((index > 1 && stringAt(index - 2, 1, 'B', 'H', 'D')) || (index > 2 && stringAt(index - 3, 1, 'B', 'H', 'D'))
+            || (index > 3 && stringAt(index - 4, 1, 'B', 'H'))) {
+            index += 2;
+            break;
+          }
+          if (index > 2 && at(index - 1) === 'U' && stringAt(index - 3, 1, 'C', 'G', 'L', 'R', 'T')) add('F'); // "laugh", "tough"
+          else if (index > 0 && at(index - 1) !== 'I') add('K');
+          index += 2;
+          break;
+        }
+        if (at(index + 1) === 'N') {
+          if (index === 1 && isVowel(0) && !isSlavoGermanic) add('KN', 'N');
+          else if (!stringAt(index + 2, 2, 'EY') && at(index + 1) !== 'Y' && !isSlavoGermanic) add('N', 'KN');
+          else add('KN');
+          index += 2;
+          break;
+        }
+        if (stringAt(index + 1, 2, 'LI') && !isSlavoGermanic) { // "tagliaro"
+          add('KL', 'L');
+          index += 2;
+          break;
+        }
+        if (index === 0 && (at(index + 1) === 'Y' || stringAt(index + 1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+        if ((stringAt(index + 1, 2, 'ER') || at(index + 1) === 'Y') && !stringAt(0, 6, 'DANGER', 'RANGER', 'MANGER')
+          && !stringAt(index - 1, 1, 'E', 'I') && !stringAt(index - 1, 3, 'RGY', 'OGY')) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+        if (stringAt(index + 1, 1, 'E', 'I', 'Y') || stringAt(index - 1, 4, 'AGGI', 'OGGI')) { // Italian "biaggi"
+          if (isGermanic || stringAt(index + 1, 2, 'ET')) add('K');
+          else if (stringAt(index + 1, 4, 'IER ')) add('J');
+          else add('J', 'K');
+          index += 2;
+          break;
+        }
+        add('K');
+        index += at(index + 1) === 'G' ? 2 : 1;
+        break;
+
+      case 'H':
+        // Kept only when first or between vowels
+        if ((index === 0 || isVowel(index - 1)) && isVowel(index + 1)) {
+          add('H');
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'J':
+        if (stringAt(index, 4, 'JOSE') || stringAt(0, 4, 'SAN ')) { // Spanish "Jose", "San Jacinto"
+          if ((index === 0 && at(index + 4) === ' ') || stringAt(0, 4, 'SAN ')) add('H');
+          else add('J', 'H');
+          index++;
+          break;
+        }
+        if (index === 0) {
+          add('J', 'A'); // "Yankelovich" / "Jankelowicz"
+        } else if (isVowel(index - 1) && !isSlavoGermanic && (at(index + 1) === 'A' || at(index + 1) === 'O')) {
+          add('J', 'H'); // "bajador"
+        } else if (index === last) {
+          add('J', '');
+        } else if (!stringAt(index + 1, 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') && !stringAt(index - 1, 1, 'S', 'K', 'L')) {
+          add('J');
+        }
+        index += at(index + 1) === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        index += at(index + 1) === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (at(index + 1) === 'L') {
+          // Spanish "cabrillo", "gallegos"
+          if ((index === length - 3 && stringAt(index - 1, 4, 'ILLO', 'ILLA', 'ALLE'))
+            || ((stringAt(last - 1, 2, 'AS', 'OS') || stringAt(last, 1, 'A', 'O')) && stringAt(index - 1, 4, 'ALLE'))) {
+            add('L', '');
+            index += 2;
+            break;
+          }
+          index += 2;
+        } else {
+          index++;
+        }
+        add('L');
+        break;
+
+      case 'M':
+        if ((stringAt(index - 1, 3, 'UMB') && (index + 1 === last || stringAt(index + 2, 2, 'ER'))) || at(index + 1) === 'M') index += 2;
+        else index++;
+        add('M');
+        break;
+
+      case 'N':
+        add('N');
+        index += at(index + 1) === 'N' ? 2 : 1;
+        break;
+
+      case 'Ñ':
+        add('N');
+        index++;
+        break;
+
+      case 'P':
+        if (at(index + 1) === 'H') {
+          add('F');
+          index += 2;
+          break;
+        }
+        add('P');
+        index += stringAt(index + 1, 1, 'P', 'B') ? 2 : 1;
+        break;
+
+      case 'Q':
+        add('K');
+        index += at(index + 1) === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French "Rogier", but not "Hochmeier"
+        if (index === last && !isSlavoGermanic && stringAt(index - 2, 2, 'IE') && !stringAt(index - 4, 2, 'ME', 'MA')) add('', 'R');
+        else add('R');
+        index += at(index + 1) === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        if (stringAt(index - 1, 3, 'ISL', 'YSL')) { // "island", "carlisle"
+          index++;
+          break;
+        }
+        if (index === 0 && stringAt(index, 5, 'SUGAR')) {
+          add('X', 'S');
+          index++;
+          break;
+        }
+        if (stringAt(index, 2, 'SH')) {
+          if (stringAt(index + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ')) add('S'); // Germanic
+          else add('X');
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 3, 'SIO', 'SIA') || stringAt(index, 4, 'SIAN')) { // Italian and Armenian
+          if (!isSlavoGermanic) add('S', 'X');
+          else add('S');
+          index += 3;
+          break;
+        }
+        // "Smith" matches "Schmidt", "Snider" matches "Schneider"
+        if ((index === 0 && stringAt(index + 1, 1, 'M', 'N', 'L', 'W')) || stringAt(index + 1, 1, 'Z')) {
+          add('S', 'X');
+          index += stringAt(index + 1, 1, 'Z') ? 2 : 1;
+          break;
+        }
+        if (stringAt(index, 2, 'SC')) {
+          if (at(index + 2) === 'H') {
+            if (stringAt(index + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) { // Dutch "school", "schooner"
+              if (stringAt(index + 3, 2, 'ER', 'EN')) add('X', 'SK');
+              else add('SK');
+              index += 3;
+              break;
+            }
+            if (index === 0 && !isVowel(3) && at(3) !== 'W') add('X', 'S');
+            else add('X');
+            index += 3;
+            break;
+          }
+          if (stringAt(index + 2, 1, 'I', 'E', 'Y')) add('S');
+          else add('SK');
+          index += 3;
+          break;
+        }
+        // French "resnais", "artois"
+        if (index === last && stringAt(index - 2, 2, 'AI', 'OI')) add('', 'S');
+        else add('S');
+        index += stringAt(index + 1, 1, 'S', 'Z') ? 2 : 1;
+        break;
+
+      case 'T':
+        if (stringAt(index, 4, 'TION') || stringAt(index, 3, 'TIA', 'TCH')) {
+          add('X');
+          index += 3;
+          break;
+        }
+        if (stringAt(index, 2, 'TH') || stringAt(index, 3, 'TTH')) {
+          if (stringAt(index + 2, 2, 'OM', 'AM') || isGermanic) add('T'); // "Thomas", "Thames"
+          else add('0', 'T');
+          index += 2;
+          break;
+        }
+        add('T');
+        index += stringAt(index + 1, 1, 'T', 'D') ? 2 : 1;
+        break;
+
+      case 'V':
+        add('F');
+        index += at(index + 1) === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        if (stringAt(index, 2, 'WR')) {
+          add('R');
+          index += 2;
+          break;
+        }
+        if (index === 0 && (isVowel(index + 1) || stringAt(index, 2, 'WH'))) {
+          if (isVowel(index + 1)) add('A', 'F'); // "Wasserman" matches "Vasserman"
+          else add('A');
+        }
+        // "Arnow" matches "Arnoff"
+        if ((index === last && isVowel(index - 1)) || stringAt(index - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') || stringAt(0, 3, 'SCH')) {
+          add('', 'F');
+          index++;
+          break;
+        }
+        if (stringAt(index, 4, 'WICZ', 'WITZ')) { // Polish "Filipowicz"
+          add('TS', 'FX');
+          index += 4;
+          break;
+        }
+        index++;
+        break;
+
+      case 'X':
+        // French "breaux"
+        if (!(index === last && (stringAt(index - 3, 3, 'IAU', 'EAU') || stringAt(index - 2, 2, 'AU', 'OU')))) add('KS');
+        index += stringAt(index + 1, 1, 'C', 'X') ? 2 : 1;
+        break;
+
+      case 'Z':
+        if (at(index + 1) === 'H') { // Chinese pinyin "Zhao"
+          add('J');
+          index += 2;
+          break;
+        }
+        if (stringAt(index + 1, 2, 'ZO', 'ZI', 'ZA') || (isSlavoGermanic && index > 0 && at(index - 1) !== 'T')) add('S', 'TS');
+        else add('S');
+        index += at(index + 1) === 'Z' ? 2 : 1;
+        break;
+
+      default:
+        index++;
+    }
+  }
+
+  return [primary.substring(0, DM_MAX_LENGTH), secondary.substring(0, DM_MAX_LENGTH)];
+};
+
+// --- Token Comparison ---
+
+export const encodeWord = (word: string, encoder: PhoneticEncoder): string[] => {
+  switch (encoder) {
+    case 'doubleMetaphone': {
+      const [primary, alternate] = doubleMetaphone(word);
+      return Array.from(new Set([primary, alternate].filter(Boolean)));
+    }
+    case 'nysiis': return [nysiis(word)].filter(Boolean);
+    case 'cologne': return [colognePhonetic(word)].filter(Boolean);
+    default: return [soundex(word)].filter(Boolean);
+  }
+};
+
+// One list of codes per word; words that produce no code (digits, punctuation) are dropped
+export const phoneticTokens = (value: string, encoder: PhoneticEncoder): string[][] =>
+  value.split(/[\s|,;-]+/).map(word => encodeWord(word, encoder)).filter(codes => codes.length > 0);
+
+const sharesCode = (a: string[], b: string[]) => a.some(code => b.includes(code));
+
+/**
+ * Word-by-word agreement: every word on each side must sound like some word on
+ * the other, so "Jon Smyth" agrees with "Smith John" but not with "John".
+ */
+export const phoneticTokensAgree = (a: string[][], b: string[][]): boolean =>
+  a.length > 0 && b.length > 0
+  && a.every(codes => b.some(other => sharesCode(codes, other)))
+  && b.every(codes => a.some(other => sharesCode(codes, other)));
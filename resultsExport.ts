@@ -0,0 +1,223 @@
+import { CellValue, Dataset, DataType, JoinConfig, JoinStats, MatchResultRow, Row } from './types';
+import { CARDINALITY_LABELS, JOIN_TYPE_LABELS, MATCH_MODE_LABELS, TIE_BREAK_LABELS, joinOutputColumns } from './joinEngine';
+import { ALGORITHM_LABELS } from './similarity';
+import { describeBlocking } from './blocking';
+import { DOMAIN_LABELS } from './domainNormalizers';
+import { COMPARATOR_LABELS, DateOrder, detectDateOrder, parseDate, resolveComparator } from './typedComparators';
+import { XlsxCell, XlsxSheet, buildXlsx } from './xlsxWriter';
+
+/**
+ * Excel workbook of a join run: the joined rows, unmatched Master rows and unused Target
+ * rows on their own sheets, plus a summary of the settings and counts. Values keep the
+ * column types detected on import, so numbers and dates stay sortable in Excel.
+ */
+
+export interface JoinExport {
+  config: JoinConfig;
+  stats: JoinStats;
+  tableA: Dataset;
+  tableB: Dataset;
+  rows: MatchResultRow[];
+  unmatchedMasterRows: MatchResultRow[];
+  unmatchedTargetRows: Row[];
+}
+
+// Matched rows are coloured by the band their score falls in, best first
+export const SCORE_BANDS = [
+  { min: 90, label: 'Strong', fill: 'C6EFCE' },
+  { min: 75, label: 'Good', fill: 'E2EFDA' },
+  { min: 0, label: 'Weak', fill: 'FFEB9C' },
+];
+
+const FILLS = {
+  header: 'D9E1F2',
+  unmatched: 'FFC7CE',
+  targetOnly: 'FCE4D6',
+};
+
+const EXCEL_EPOCH_DAYS = 25569; // Excel serial of 1970-01-01
+const TIME_OF_DAY = /[T\s](\d{1,2}):(\d{2})(?::(\d{2}))?/;
+const PLAIN_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const MAX_COLUMN_WIDTH = 50;
+
+// --- Cells ---
+
+type ColumnTyper = (value: CellValue) => XlsxCell['value'] | XlsxCell;
+
+// Text that does not parse as the column's type is written as it is
+const columnTyper = (type: DataType | undefined, values: CellValue[]): ColumnTyper => {
+  switch (type) {
+    case 'number':
+      return value => {
+        if (typeof value !== 'string') return value;
+        const text = value.trim();
+        // Leading zeros mark codes such as "00123", which a number cell would drop
+        return PLAIN_NUMBER.test(text) && !/^[+-]?0\d/.test(text) ? Number(text) : value;
+      };
+    case 'date': {
+      const order: DateOrder = detectDateOrder(values);
+      return value => {
+        const days = parseDate(value, order);
+        if (days === null) return value;
+        const time = typeof value === 'string' ? value.match(TIME_OF_DAY) : null;
+        const fraction = time ? (+time[1] * 3600 + +time[2] * 60 + +(time[3] ?? 0)) / 86400 : 0;
+        return { value: days + EXCEL_EPOCH_DAYS + fraction, date: true };
+      };
+    }
+    case 'boolean':
+      return value => {
+        const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+        return text === 'true' ? true : text === 'false' ? false : value;
+      };
+    default:
+      return value => value;
+  }
+};
+
+const textWidth = (value: XlsxCell['value'] | XlsxCell): number => {
+  const raw = value !== null && typeof value === 'object' ? (value.date ? 19 : value.value) : value;
+  return typeof raw === 'number' ? 19 : raw === null || raw === undefined ? 0 : String(raw).length;
+};
+
+const header = (columns: string[]): XlsxCell[] => columns.map(value => ({ value, bold: true, fill: FILLS.header }));
+
+// Fits each column to its longest value among the first rows
+const widths = (rows: XlsxSheet['rows']): number[] => {
+  const result: number[] = [];
+  rows.slice(0, 200).forEach(row => row.forEach((cell, c) => {
+    result[c] = Math.min(MAX_COLUMN_WIDTH, Math.max(result[c] ?? 8, textWidth(cell) + 2));
+  }));
+  return result;
+};
+
+// Extra cells written before a row's values, such as the match status
+interface LeadingCells {
+  columns: string[];
+  cells: (row: MatchResultRow) => XlsxCell[];
+}
+
+const tableSheet = (name: string, columns: string[], typers: ColumnTyper[], rows: Array<Row | MatchResultRow>, leading?: LeadingCells): XlsxSheet => {
+  const sheetRows: XlsxSheet['rows'] = [
+    header([...(leading?.columns ?? []), ...columns]),
+    ...rows.map(row => [
+      ...(leading ? leading.cells(row as MatchResultRow) : []),
+      ...columns.map((col, c) => {
+        const value = row[col];
+        if (value !== null && typeof value === 'object') return JSON.stringify(value);
+        return typers[c](value as CellValue);
+      }),
+    ]),
+  ];
+  return { name, rows: sheetRows, columnWidths: widths(sheetRows), freezeHeader: true };
+};
+
+// --- Match Status ---
+
+const STATUS_COLUMNS = ['Status', 'Score', 'Method'];
+
+const statusCells = (row: MatchResultRow): XlsxCell[] => {
+  if (row._matchStatus !== 'matched') {
+    const fill = row._side === 'target' ? FILLS.targetOnly : FILLS.unmatched;
+    return [
+      { value: row._side === 'target' ? 'Target only' : 'No match', fill },
+      { value: null, fill },
+      { value: null, fill },
+    ];
+  }
+  const band = SCORE_BANDS.find(b => row._matchScore >= b.min) ?? SCORE_BANDS[SCORE_BANDS.length - 1];
+  return [
+    { value: row._ambiguous ? `Matched (${band.label}, ambiguous)` : `Matched (${band.label})`, fill: band.fill },
+    { value: row._matchScore, fill: band.fill },
+    { value: row._matchMethod ? ALGORITHM_LABELS[row._matchMethod] : null, fill: band.fill },
+  ];
+};
+
+// --- Summary ---
+
+const summarySheet = (run: JoinExport): XlsxSheet => {
+  const { config, stats, tableA, tableB } = run;
+  const label = (value: string): XlsxCell => ({ value, bold: true });
+  const masterRows = stats.matched + stats.unmatched;
+
+  const settings: XlsxSheet['rows'] = [
+    [label('Master'), `${tableA.name} (${tableA.rowCount.toLocaleString()} rows)`],
+    [label('Target'), `${tableB.name} (${tableB.rowCount.toLocaleString()} rows)`],
+    [label('Join type'), JOIN_TYPE_LABELS[config.joinType]],
+    [label('Match mode'), MATCH_MODE_LABELS[config.matchMode]],
+    [label('Cardinality'), CARDINALITY_LABELS[config.cardinality]],
+    [label('Ties'), TIE_BREAK_LABELS[config.tieBreak]],
+    [label('Algorithms'), config.algorithms.map(a => ALGORITHM_LABELS[a]).join(', ')],
+    config.matchMode === 'probabilistic'
+      ? [label('Match probability threshold'), config.probabilistic.matchThreshold]
+      : [label('Threshold'), config.matchMode === 'weighted' ? config.weightedThreshold : config.threshold],
+    [label('Blocking'), describeBlocking(config.blocking)],
+    ...config.joinKeys.map((kp, i): XlsxSheet['rows'][number] => {
+      const comparator = resolveComparator(kp, tableA, tableB);
+      const details = [
+        comparator !== 'text' ? COMPARATOR_LABELS[comparator] : null,
+        kp.algorithms?.length ? kp.algorithms.map(a => ALGORITHM_LABELS[a]).join(', ') : null,
+        kp.threshold !== undefined ? `threshold ${kp.threshold}` : null,
+        config.matchMode === 'weighted' ? `weight ${kp.weight ?? 1}` : null,
+        kp.domain && kp.domain !== 'none' ? DOMAIN_LABELS[kp.domain] : null,
+      ].filter(Boolean);
+      return [label(`Key ${i + 1}`), `${kp.left} → ${kp.right}`, details.join('; ')];
+    }),
+  ];
+
+  return {
+    name: 'Summary',
+    rows: [
+      header(['Setting', 'Value', 'Details']),
+      ...settings,
+      [],
+      [label('Matched Master rows'), { value: stats.matched, fill: SCORE_BANDS[0].fill }],
+      [label('Unmatched Master rows'), { value: stats.unmatched, fill: FILLS.unmatched }],
+      [label('Unused Target rows'), { value: run.unmatchedTargetRows.length, fill: FILLS.targetOnly }],
+      [label('Output rows'), stats.outputRows],
+      ...(stats.fanOutRows > 0 ? [[label('Fan-out rows'), stats.fanOutRows]] : []),
+      [label('Match rate'), masterRows > 0 ? `${((stats.matched / masterRows) * 100).toFixed(1)}%` : '-'],
+      [],
+      [label('Colours')],
+      ...SCORE_BANDS.map((b, i) => [{ value: `Matched (${b.label})`, fill: b.fill }, b.min > 0 ? `Score ${b.min} or more` : `Score below ${SCORE_BANDS[i - 1].min}`]),
+      [{ value: 'No match', fill: FILLS.unmatched }, 'Master row without a match'],
+      [{ value: 'Target only', fill: FILLS.targetOnly }, 'Target row with no matching Master row'],
+    ],
+    columnWidths: [28, 48, 48],
+    freezeHeader: true,
+  };
+};
+
+// --- Export ---
+
+export const buildJoinWorkbook = (run: JoinExport): Promise<Blob> => {
+  const { config, tableA, tableB } = run;
+  const typeOf = (dataset: Dataset, col: string) => dataset.columns.find(c => c.name === col)?.type;
+
+  // Master columns take their type from Table A, Target columns from Table B
+  const typers = (columns: string[], rows: Array<Row | MatchResultRow>, sideOf: (col: string) => Dataset) =>
+    columns.map(col => columnTyper(typeOf(sideOf(col), col), rows.map(row => row[col] as CellValue)));
+
+  const outputColumns = joinOutputColumns(config);
+  const masterSide = new Set(config.joinType === 'rightAnti' ? [] : config.masterColumns);
+  const targetColumns = tableB.columns.map(c => c.name);
+
+  return buildXlsx([
+    tableSheet('Join Results', outputColumns, typers(outputColumns, run.rows, col => (masterSide.has(col) ? tableA : tableB)), run.rows, { columns: STATUS_COLUMNS, cells: statusCells }),
+    tableSheet('Unmatched Master', config.masterColumns, typers(config.masterColumns, run.unmatchedMasterRows, () => tableA), run.unmatchedMasterRows),
+    tableSheet('Unused Target', targetColumns, typers(targetColumns, run.unmatchedTargetRows, () => tableB), run.unmatchedTargetRows),
+    summarySheet(run),
+  ]);
+};
+
+export const exportToXLSX = async (run: JoinExport, filename: string) => {
+  const blob = await buildJoinWorkbook(run);
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Revoked once the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,143 @@
+import { BBox, bboxesOverlap } from './geometry';
+
+/**
+ * Static R-tree over bounding boxes, bulk-loaded with Sort-Tile-Recursive packing.
+ * Items are referred to by their index in the array the tree was built from.
+ */
+
+const NODE_SIZE = 16;
+
+interface RTreeNode {
+  bbox: BBox;
+  children: RTreeNode[]; // Empty for leaves
+  items: number[]; // Leaves only
+}
+
+export interface NearestItem {
+  idx: number;
+  distance: number;
+}
+
+export interface RTree {
+  search: (bbox: BBox) => number[];
+  /**
+   * Items in order of `itemDistance`, closest first. `boxDistance` must never exceed the
+   * distance of any item inside the box, so subtrees can be skipped safely.
+   */
+  nearest: (limit: number, boxDistance: (bbox: BBox) => number, itemDistance: (idx: number) => number, maxDistance?: number) => NearestItem[];
+}
+
+const unionBBox = (boxes: BBox[]): BBox => ({
+  minX: Math.min(...boxes.map(b => b.minX)),
+  minY: Math.min(...boxes.map(b => b.minY)),
+  maxX: Math.max(...boxes.map(b => b.maxX)),
+  maxY: Math.max(...boxes.map(b => b.maxY)),
+});
+
+const centreX = (b: BBox) => (b.minX + b.maxX) / 2;
+const centreY = (b: BBox) => (b.minY + b.maxY) / 2;
+
+// Groups entries into runs of NODE_SIZE that are close together: vertical slices by x, then by y within a slice
+const packSTR = <T>(entries: T[], bboxOf: (entry: T) => BBox): T[][] => {
+  const groupCount = Math.ceil(entries.length / NODE_SIZE);
+  const sliceSize = Math.ceil(Math.sqrt(groupCount)) * NODE_SIZE;
+  const byX = [...entries].sort((a, b) => centreX(bboxOf(a)) - centreX(bboxOf(b)));
+
+  const groups: T[][] = [];
+  for (let s = 0; s < byX.length; s += sliceSize) {
+    const slice = byX.slice(s, s + sliceSize).sort((a, b) => centreY(bboxOf(a)) - centreY(bboxOf(b)));
+    for (let g = 0; g < slice.length; g += NODE_SIZE) groups.push(slice.slice(g, g + NODE_SIZE));
+  }
+  return groups;
+};
+
+// --- Priority Queue ---
+
+interface QueueEntry {
+  distance: number;
+  node?: RTreeNode;
+  idx?: number;
+}
+
+const heapPush = (heap: QueueEntry[], entry: QueueEntry) => {
+  heap.push(entry);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].distance <= heap[i].distance) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+};
+
+const heapPop = (heap: QueueEntry[]): QueueEntry | undefined => {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left].distance < heap[smallest].distance) smallest = left;
+      if (right < heap.length && heap[right].distance < heap[smallest].distance) smallest = right;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+};
+
+// --- Tree ---
+
+export const buildRTree = (boxes: Array<BBox | null>): RTree => {
+  const indexed = boxes.map((bbox, idx) => ({ bbox, idx })).filter((e): e is { bbox: BBox; idx: number } => e.bbox !== null);
+
+  let level: RTreeNode[] = packSTR(indexed, e => e.bbox).map(group => ({
+    bbox: unionBBox(group.map(e => e.bbox)),
+    children: [],
+    items: group.map(e => e.idx),
+  }));
+  while (level.length > 1) {
+    level = packSTR(level, n => n.bbox).map(group => ({ bbox: unionBBox(group.map(n => n.bbox)), children: group, items: [] }));
+  }
+  const root = level[0] as RTreeNode | undefined;
+
+  const search = (bbox: BBox): number[] => {
+    const result: number[] = [];
+    const stack = root && bboxesOverlap(root.bbox, bbox) ? [root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node.children.length === 0) {
+        node.items.forEach(idx => { if (bboxesOverlap(boxes[idx]!, bbox)) result.push(idx); });
+      } else {
+        node.children.forEach(child => { if (bboxesOverlap(child.bbox, bbox)) stack.push(child); });
+      }
+    }
+    return result.sort((a, b) => a - b);
+  };
+
+  // Best-first search: boxes are expanded in order of their lower-bound distance
+  const nearest = (limit: number, boxDistance: (bbox: BBox) => number, itemDistance: (idx: number) => number, maxDistance = Infinity): NearestItem[] => {
+    const result: NearestItem[] = [];
+    const heap: QueueEntry[] = [];
+    if (root) heapPush(heap, { distance: boxDistance(root.bbox), node: root });
+
+    while (heap.length > 0 && result.length < limit) {
+      const entry = heapPop(heap)!;
+      if (entry.distance > maxDistance) break;
+      if (entry.idx !== undefined) {
+        result.push({ idx: entry.idx, distance: entry.distance });
+      } else if (entry.node!.children.length === 0) {
+        entry.node!.items.forEach(idx => heapPush(heap, { distance: itemDistance(idx), idx }));
+      } else {
+        entry.node!.children.forEach(child => heapPush(heap, { distance: boxDistance(child.bbox), node: child }));
+      }
+    }
+    return result;
+  };
+
+  return { search, nearest };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { MatchingAlgorithm } from './types';
+import {
+  buildTermWeights,
+  damerauLevenshteinDistance,
+  jaccardSimilarity,
+  jaroSimilarity,
+  jaroWinklerSimilarity,
+  stringSimilarity,
+  tfidfCosineSimilarity,
+  tokenSetSimilarity,
+  tokenSortSimilarity,
+} from './similarity';
+
+// --- Edit Distance ---
+
+describe('Jaro and Jaro-Winkler', () => {
+  // Winkler's published examples
+  it.each([
+    ['MARTHA', 'MARHTA', 0.944, 0.961],
+    ['DWAYNE', 'DUANE', 0.822, 0.840],
+    ['DIXON', 'DICKSONX', 0.767, 0.813],
+  ])('scores %s and %s', (a, b, jaro, jaroWinkler) => {
+    expect(jaroSimilarity(a, b)).toBeCloseTo(jaro, 3);
+    expect(jaroWinklerSimilarity(a, b)).toBeCloseTo(jaroWinkler, 3);
+  });
+
+  it('scores values with nothing in common as 0 and identical values as 1', () => {
+    expect(jaroWinklerSimilarity('abc', 'xyz')).toBe(0);
+    expect(jaroWinklerSimilarity('abc', '')).toBe(0);
+    expect(jaroWinklerSimilarity('', '')).toBe(1);
+  });
+});
+
+describe('damerauLevenshteinDistance', () => {
+  it.each([
+    ['kitten', 'sitting', 3],
+    ['jonh', 'john', 1],
+    ['abc', '', 3],
+    // Optimal string alignment edits no substring twice, so this is 3 rather than 2
+    ['ca', 'abc', 3],
+  ])('counts the edits between %s and %s', (a, b, distance) => {
+    expect(damerauLevenshteinDistance(a, b)).toBe(distance);
+  });
+});
+
+// --- Token Based ---
+
+describe('token metrics', () => {
+  it('ignores word order in token sort', () => {
+    expect(tokenSortSimilarity('john smith', 'smith john')).toBe(1);
+  });
+
+  it('scores a word subset as a full match in token set', () => {
+    expect(tokenSetSimilarity('acme', 'acme holdings')).toBe(1);
+    expect(tokenSetSimilarity('acme ltd', 'globex')).toBe(0);
+  });
+
+  it('compares padded bigrams in Jaccard', () => {
+    // " M", "MA", "AR" and "A " are shared out of 10 distinct bigrams
+    expect(jaccardSimilarity('MARTHA', 'MARHTA')).toBeCloseTo(0.4, 10);
+    expect(jaccardSimilarity('night', 'nacht')).toBeCloseTo(1 / 3, 10);
+  });
+});
+
+// --- TF-IDF ---
+
+describe('tfidfCosineSimilarity', () => {
+  const weights = buildTermWeights(['acme ltd', 'globex ltd', 'initech ltd']);
+
+  it('weighs words by their smoothed inverse document frequency', () => {
+    expect(weights.idf.get('ltd')).toBe(1);
+    expect(weights.idf.get('acme')).toBeCloseTo(Math.log(2) + 1, 10);
+    expect(weights.unseenIdf).toBeCloseTo(Math.log(4) + 1, 10);
+  });
+
+  it('scores a shared rare word above a shared common one', () => {
+    expect(tfidfCosineSimilarity('acme ltd', 'acme inc', weights)).toBeCloseTo(0.498, 3);
+    expect(tfidfCosineSimilarity('acme ltd', 'globex ltd', weights)).toBeCloseTo(0.259, 3);
+  });
+});
+
+// --- Registry ---
+
+describe('stringSimilarity', () => {
+  it.each([
+    [MatchingAlgorithm.LEVENSHTEIN, 4 / 7],
+    [MatchingAlgorithm.DAMERAU_LEVENSHTEIN, 4 / 7],
+    [MatchingAlgorithm.JARO_WINKLER, 0.746],
+    [MatchingAlgorithm.JACCARD, 2 / 13],
+  ])('scores kitten and sitting under %s', (algorithm, expected) => {
+    expect(stringSimilarity(algorithm, 'kitten', 'sitting')).toBeCloseTo(expected, 3);
+  });
+});
@@ -0,0 +1,213 @@
+import { MatchingAlgorithm } from './types';
+import { similarityPercentage } from './utils';
+import { qgrams } from './blocking';
+
+/**
+ * String similarity metrics. Every metric returns 0-1, with 1 for identical values,
+ * so they can share one threshold and be compared against each other.
+ */
+
+// --- Edit Distance ---
+
+const JARO_WINKLER_PREFIX = 4;
+const JARO_WINKLER_SCALE = 0.1;
+
+export const jaroSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (matchedB[j] || a[i] !== b[j]) continue;
+      matchedA[i] = matchedB[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!matchedA[i]) continue;
+    while (!matchedB[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+};
+
+// Boosts Jaro for a shared prefix of up to 4 characters, which suits short names
+export const jaroWinklerSimilarity = (a: string, b: string): number => {
+  const jaro = jaroSimilarity(a, b);
+  let prefix = 0;
+  while (prefix < JARO_WINKLER_PREFIX && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * JARO_WINKLER_SCALE * (1 - jaro);
+};
+
+// Optimal string alignment: Levenshtein plus adjacent transpositions ("jonh" vs "john" is one edit)
+export const damerauLevenshteinDistance = (a: string, b: string): number => {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+export const damerauSimilarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : (longest - damerauLevenshteinDistance(a, b)) / longest;
+};
+
+// --- Token Based ---
+
+export const tokenize = (value: string): string[] => value.split(/[\s|,;]+/).filter(Boolean);
+
+// Sorting the words first makes "smith john" equal to "john smith"
+export const tokenSortSimilarity = (a: string, b: string): number =>
+  similarityPercentage(tokenize(a).sort().join(' '), tokenize(b).sort().join(' '));
+
+/**
+ * Compares the shared words against each side's shared + remaining words and keeps the best,
+ * so a value that is a word subset of the other ("acme" vs "acme holdings") scores high.
+ */
+export const tokenSetSimilarity = (a: string, b: string): number => {
+  const setA = new Set(tokenize(a));
+  const setB = new Set(tokenize(b));
+  const shared = Array.from(setA).filter(t => setB.has(t)).sort();
+  const onlyA = Array.from(setA).filter(t => !setB.has(t)).sort();
+  const onlyB = Array.from(setB).filter(t => !setA.has(t)).sort();
+
+  const base = shared.join(' ');
+  const withA = [base, ...onlyA].filter(Boolean).join(' ');
+  const withB = [base, ...onlyB].filter(Boolean).join(' ');
+  if (!withA && !withB) return 1;
+  if (!base) return similarityPercentage(withA, withB);
+
+  return Math.max(similarityPercentage(base, withA), similarityPercentage(base, withB), similarityPercentage(withA, withB));
+};
+
+const JACCARD_GRAM_SIZE = 2;
+
+export const jaccardSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const gramsA = new Set(qgrams(a, JACCARD_GRAM_SIZE));
+  const gramsB = new Set(qgrams(b, JACCARD_GRAM_SIZE));
+  let shared = 0;
+  gramsA.forEach(g => { if (gramsB.has(g)) shared++; });
+  const union = gramsA.size + gramsB.size - shared;
+  return union === 0 ? 0 : shared / union;
+};
+
+// --- TF-IDF ---
+
+/**
+ * Inverse document frequency of each word across one Target column.
+ * Frequent words such as "ltd" or "inc" get a low weight, rare ones a high weight.
+ */
+export interface TermWeights {
+  idf: Map<string, number>;
+  unseenIdf: number; // Weight for words that never occur in the column
+}
+
+export const buildTermWeights = (values: string[]): TermWeights => {
+  const documentFrequency = new Map<string, number>();
+  let documents = 0;
+  values.forEach(val => {
+    if (!val) return;
+    documents++;
+    new Set(tokenize(val)).forEach(t => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1));
+  });
+
+  const idf = new Map<string, number>();
+  documentFrequency.forEach((df, term) => idf.set(term, Math.log((1 + documents) / (1 + df)) + 1));
+  return { idf, unseenIdf: Math.log(1 + documents) + 1 };
+};
+
+const tfidfVector = (value: string, weights: TermWeights): Map<string, number> => {
+  const vector = new Map<string, number>();
+  tokenize(value).forEach(t => vector.set(t, (vector.get(t) || 0) + 1));
+  vector.forEach((tf, t) => vector.set(t, tf * (weights.idf.get(t) ?? weights.unseenIdf)));
+  return vector;
+};
+
+export const tfidfCosineSimilarity = (a: string, b: string, weights: TermWeights): number => {
+  if (a === b) return 1;
+  const vecA = tfidfVector(a, weights);
+  const vecB = tfidfVector(b, weights);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  vecA.forEach((w, t) => {
+    normA += w * w;
+    dot += w * (vecB.get(t) || 0);
+  });
+  vecB.forEach(w => normB += w * w);
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+// --- Registry ---
+
+export const ALGORITHM_LABELS: Record<MatchingAlgorithm, string> = {
+  [MatchingAlgorithm.EXACT]: 'Exact',
+  [MatchingAlgorithm.LEVENSHTEIN]: 'Levenshtein',
+  [MatchingAlgorithm.DAMERAU_LEVENSHTEIN]: 'Damerau',
+  [MatchingAlgorithm.JARO_WINKLER]: 'Jaro-Winkler',
+  [MatchingAlgorithm.TOKEN_SORT]: 'Token Sort',
+  [MatchingAlgorithm.TOKEN_SET]: 'Token Set',
+  [MatchingAlgorithm.JACCARD]: 'Jaccard',
+  [MatchingAlgorithm.TFIDF_COSINE]: 'TF-IDF Cosine',
+  [MatchingAlgorithm.PHONETIC]: 'Phonetic',
+  [MatchingAlgorithm.NUMERIC]: 'Numeric',
+  [MatchingAlgorithm.DATE]: 'Date',
+  [MatchingAlgorithm.SPATIAL]: 'Spatial',
+  [MatchingAlgorithm.AI_SEMANTIC]: 'Gemini AI',
+};
+
+// Algorithms that produce a graded score, in the order they are tried
+export const STRING_METRICS: MatchingAlgorithm[] = [
+  MatchingAlgorithm.LEVENSHTEIN,
+  MatchingAlgorithm.DAMERAU_LEVENSHTEIN,
+  MatchingAlgorithm.JARO_WINKLER,
+  MatchingAlgorithm.TOKEN_SORT,
+  MatchingAlgorithm.TOKEN_SET,
+  MatchingAlgorithm.JACCARD,
+  MatchingAlgorithm.TFIDF_COSINE,
+];
+
+export const isStringMetric = (algorithm: MatchingAlgorithm) => STRING_METRICS.includes(algorithm);
+
+/**
+ * Similarity of two normalized values under one metric.
+ * `termWeights` is only needed for TF-IDF; without it every word weighs the same.
+ */
+export const stringSimilarity = (algorithm: MatchingAlgorithm, a: string, b: string, termWeights?: TermWeights): number => {
+  switch (algorithm) {
+    case MatchingAlgorithm.DAMERAU_LEVENSHTEIN: return damerauSimilarity(a, b);
+    case MatchingAlgorithm.JARO_WINKLER: return jaroWinklerSimilarity(a, b);
+    case MatchingAlgorithm.TOKEN_SORT: return tokenSortSimilarity(a, b);
+    case MatchingAlgorithm.TOKEN_SET: return tokenSetSimilarity(a, b);
+    case MatchingAlgorithm.JACCARD: return jaccardSimilarity(a, b);
+    case MatchingAlgorithm.TFIDF_COSINE: return tfidfCosineSimilarity(a, b, termWeights || { idf: new Map(), unseenIdf: 1 });
+    default: return similarityPercentage(a, b);
+  }
+};
@@ -0,0 +1,203 @@
+/**
+ * Read-only SQLite reader covering what a GeoPackage import needs: the schema and a full
+ * scan of ordinary rowid tables. Indexes, WITHOUT ROWID tables and the journal are ignored.
+ * See https://www.sqlite.org/fileformat.html for the layout.
+ */
+
+export type SqlValue = number | string | Uint8Array | null;
+
+export interface SqliteTable {
+  name: string;
+  columns: string[];
+  rootPage: number;
+  rowidColumn?: number; // Position of the INTEGER PRIMARY KEY column, which is stored as the rowid
+}
+
+export type SqlRecord = Record<string, SqlValue>; // Keyed by column name as declared
+
+export interface SqliteDatabase {
+  tables: SqliteTable[];
+  rows: (table: string) => SqlRecord[];
+}
+
+const HEADER = 'SQLite format 3\0';
+
+const PAGE_TABLE_INTERIOR = 0x05;
+const PAGE_TABLE_LEAF = 0x0d;
+
+// Returns the value and the offset after it; at most 9 bytes, the last contributing all 8 bits
+const varint = (data: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = data[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, offset + i + 1];
+  }
+  return [value * 256 + data[offset + 8], offset + 9];
+};
+
+// --- Schema ---
+
+const unquote = (name: string) => name.replace(/^(["`[])(.*)["`\]]$/, '$2');
+
+// Column definitions are the top-level comma separated parts inside CREATE TABLE (...)
+const parseColumns = (sql: string): { columns: string[]; rowidColumn?: number } => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+  for (const ch of body) {
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === '[') {
+      quote = ']';
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current);
+
+  const columns: string[] = [];
+  let rowidColumn: number | undefined;
+  for (const part of parts.map(p => p.trim())) {
+    if (!part || /^(CONSTRAINT|PRIMARY\s+KEY|UNIQUE|CHECK|FOREIGN\s+KEY)\b/i.test(part)) continue;
+    const match = part.match(/^("[^"]*"|`[^`]*`|\[[^\]]*\]|\S+)\s*(.*)$/s);
+    if (!match) continue;
+    if (/^INTEGER\b/i.test(match[2]) && /\bPRIMARY\s+KEY\b/i.test(match[2])) rowidColumn = columns.length;
+    columns.push(unquote(match[1]));
+  }
+  return { columns, rowidColumn };
+};
+
+// --- File ---
+
+export const openSqlite = (buffer: ArrayBuffer): SqliteDatabase => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (String.fromCharCode(...bytes.subarray(0, 16)) !== HEADER) throw new Error('Not an SQLite database.');
+
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usable = pageSize - view.getUint8(20);
+  const encoding = ['utf-8', 'utf-8', 'utf-16le', 'utf-16be'][view.getUint32(56)] ?? 'utf-8';
+  const decoder = new TextDecoder(encoding);
+
+  const pageOffset = (page: number) => (page - 1) * pageSize;
+
+  // Payloads larger than a page continue on a linked list of overflow pages
+  const payload = (offset: number, size: number): Uint8Array => {
+    const maxLocal = usable - 35;
+    if (size <= maxLocal) return bytes.subarray(offset, offset + size);
+    const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+    const k = minLocal + ((size - minLocal) % (usable - 4));
+    const local = k <= maxLocal ? k : minLocal;
+
+    const result = new Uint8Array(size);
+    result.set(bytes.subarray(offset, offset + local));
+    let written = local;
+    let next = view.getUint32(offset + local);
+    while (written < size && next !== 0) {
+      const start = pageOffset(next);
+      const chunk = Math.min(usable - 4, size - written);
+      result.set(bytes.subarray(start + 4, start + 4 + chunk), written);
+      written += chunk;
+      next = view.getUint32(start);
+    }
+    return result;
+  };
+
+  const record = (data: Uint8Array): SqlValue[] => {
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const [headerSize, afterSize] = varint(data, 0);
+    const types: number[] = [];
+    for (let offset = afterSize; offset < headerSize;) {
+      const [type, next] = varint(data, offset);
+      types.push(type);
+      offset = next;
+    }
+
+    const values: SqlValue[] = [];
+    let offset = headerSize;
+    for (const type of types) {
+      switch (type) {
+        case 0: values.push(null); break;
+        case 1: values.push(dv.getInt8(offset)); offset += 1; break;
+        case 2: values.push(dv.getInt16(offset)); offset += 2; break;
+        case 3: values.push((dv.getInt8(offset) << 16) | dv.getUint16(offset + 1)); offset += 3; break;
+        case 4: values.push(dv.getInt32(offset)); offset += 4; break;
+        case 5: values.push(dv.getInt16(offset) * 2 ** 32 + dv.getUint32(offset + 2)); offset += 6; break;
+        case 6: values.push(Number(dv.getBigInt64(offset))); offset += 8; break;
+        case 7: values.push(dv.getFloat64(offset)); offset += 8; break;
+        case 8: values.push(0); break;
+        case 9: values.push(1); break;
+        default: {
+          const length = Math.floor((type - 12) / 2);
+          const content = data.subarray(offset, offset + length);
+          values.push(type % 2 === 0 ? content.slice() : decoder.decode(content));
+          offset += length;
+        }
+      }
+    }
+    return values;
+  };
+
+  // Rows of a table b-tree in rowid order, with the rowid first
+  const scan = (rootPage: number): Array<[number, SqlValue[]]> => {
+    const rows: Array<[number, SqlValue[]]> = [];
+    const stack = [rootPage];
+    while (stack.length > 0) {
+      const page = stack.pop()!;
+      const header = pageOffset(page) + (page === 1 ? 100 : 0);
+      const type = bytes[header];
+      const cellCount = view.getUint16(header + 3);
+      const cellPointers = header + (type === PAGE_TABLE_INTERIOR ? 12 : 8);
+      const cell = (i: number) => pageOffset(page) + view.getUint16(cellPointers + i * 2);
+
+      if (type === PAGE_TABLE_INTERIOR) {
+        // Pushed right to left so the leftmost child is read first
+        stack.push(view.getUint32(header + 8));
+        for (let i = cellCount - 1; i >= 0; i--) stack.push(view.getUint32(cell(i)));
+      } else if (type === PAGE_TABLE_LEAF) {
+        for (let i = 0; i < cellCount; i++) {
+          const [size, afterSize] = varint(bytes, cell(i));
+          const [rowid, afterRowid] = varint(bytes, afterSize);
+          rows.push([rowid, record(payload(afterRowid, size))]);
+        }
+      } else {
+        throw new Error(`Unexpected b-tree page type ${type} on page ${page}.`);
+      }
+    }
+    return rows;
+  };
+
+  // sqlite_master: type, name, tbl_name, rootpage, sql
+  const tables: SqliteTable[] = scan(1)
+    .map(([, values]) => values)
+    .filter(values => values[0] === 'table' && typeof values[4] === 'string' && !/WITHOUT\s+ROWID\s*$/i.test(values[4]))
+    .map(values => ({ name: String(values[1]), rootPage: Number(values[3]), ...parseColumns(String(values[4])) }));
+
+  const rows = (name: string): SqlRecord[] => {
+    const table = tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+    if (!table) throw new Error(`Table "${name}" not found.`);
+    return scan(table.rootPage).map(([rowid, values]) => {
+      const row: SqlRecord = {};
+      table.columns.forEach((column, c) => {
+        // Columns added by ALTER TABLE are missing from rows written before
+        row[column] = c === table.rowidColumn ? rowid : c < values.length ? values[c] : null;
+      });
+      return row;
+    });
+  };
+
+  return { tables, rows };
+};
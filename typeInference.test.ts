@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { describeTypeRatios, inferColumnType, inferColumns } from './typeInference';
+
+describe('inferColumnType', () => {
+  it('reads formatted numbers as numbers', () => {
+    expect(inferColumnType(['1,234.50', '$12', '(40)', '7%', ''])).toMatchObject({ type: 'number', confidence: 1 });
+  });
+
+  it('keeps leading-zero codes as text', () => {
+    expect(inferColumnType(['00123', '00456', '00789']).type).toBe('text');
+  });
+
+  it('counts missing markers against the confidence', () => {
+    const result = inferColumnType(['1', '2', '3', 'N/A', null, '']);
+    expect(result.type).toBe('number');
+    expect(result.confidence).toBe(0.75);
+    expect(result.ratios.number).toBe(0.75);
+    expect(result.missing).toBe(0.25);
+  });
+
+  it('falls back to text when too few values fit a type', () => {
+    const result = inferColumnType(['1', '2', 'three', '4']);
+    expect(result).toMatchObject({ type: 'text', confidence: 0.25 });
+  });
+});
+
+describe('describeTypeRatios', () => {
+  it('lists missing markers after the types', () => {
+    const [column] = inferColumns(['amount'], [{ amount: '10' }, { amount: '12' }, { amount: '14' }, { amount: 'n/a' }]);
+    expect(describeTypeRatios(column)).toBe('Number 75%, Missing markers 25%');
+  });
+});
@@ -0,0 +1,117 @@
+import { CellValue, ColumnDef, DataType, Row } from './types';
+import { isGeometryValue } from './geometry';
+import { DateOrder, detectDateOrder, parseDate } from './typedComparators';
+
+/**
+ * Column types inferred from a sample of each column's values. The column takes the type
+ * that reads nearly all of its real values and stays text otherwise. Markers such as "N/A"
+ * do not decide the type, but they stay in the data, so they lower the confidence.
+ */
+
+export const TYPE_LABELS: Record<DataType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  boolean: 'Boolean',
+  geometry: 'Geometry',
+};
+
+const SAMPLE_SIZE = 1000;
+export const MIN_CONFIDENCE = 0.95; // Share of values a type has to read for the column to take it
+
+const MISSING_MARKERS = new Set(['n/a', 'na', '#n/a', 'null', 'none', 'nan', '-', '--', '?']);
+
+// --- Numbers ---
+
+const CURRENCY_CODES = 'USD|EUR|GBP|JPY|CHF|CAD|AUD|NZD|INR|CNY|SEK|NOK|DKK|PLN';
+const CURRENCY_PREFIX = new RegExp(`^(?:[$€£¥₹]|(?:${CURRENCY_CODES})\\s)\\s*`, 'i');
+const CURRENCY_SUFFIX = new RegExp(`\\s*(?:[$€£¥₹]|\\s(?:${CURRENCY_CODES}))$`, 'i');
+
+// What is left once signs, currency and percent are removed: "1234.5", "1,234.5", "1.234,5", "1 234,5" or "12,5"
+const NUMBER_FORMATS = [
+  /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i,
+  /^\d{1,3}(,\d{3})+(\.\d+)?$/,
+  /^\d{1,3}(\.\d{3})+(,\d+)?$/,
+  /^\d{1,3}([ \u00a0\u202f]\d{3})+([.,]\d+)?$/,
+  /^\d+,\d+$/,
+];
+
+const isNumberText = (value: string): boolean => {
+  let text = value.replace(/^\((.*)\)$/, '$1'); // Accounting negatives
+  text = text.replace(/^[+-]\s*/, '').replace(CURRENCY_PREFIX, '').replace(CURRENCY_SUFFIX, '').replace(/\s*%$/, '').replace(/^[+-]/, '');
+  // Leading zeros mark codes such as "00123", which would lose them as numbers
+  if (/^0\d/.test(text)) return false;
+  return NUMBER_FORMATS.some(format => format.test(text));
+};
+
+// --- Inference ---
+
+export interface TypeInference {
+  type: DataType;
+  confidence: number; // Share of the non-blank values that fit the type; for text, the share that fit no other type
+  ratios: Partial<Record<DataType, number>>; // Shares of the non-blank values, markers included
+  missing: number; // Share of the non-blank values that are markers such as "N/A"
+}
+
+// Listed by precedence: a compact date such as 20230115 that reads as both stays a number
+const CANDIDATES: Array<[Exclude<DataType, 'text'>, (value: CellValue, order: DateOrder) => boolean]> = [
+  ['number', value => typeof value === 'number' || (typeof value === 'string' && isNumberText(value))],
+  ['date', (value, order) => typeof value === 'string' && parseDate(value, order) !== null],
+  ['boolean', value => typeof value === 'boolean' || /^(true|false)$/i.test(String(value))],
+  ['geometry', value => typeof value === 'string' && isGeometryValue(value)],
+];
+
+const isBlank = (value: CellValue): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const isMissingMarker = (value: CellValue): boolean =>
+  typeof value === 'string' && MISSING_MARKERS.has(value.toLowerCase());
+
+export const inferColumnType = (values: CellValue[]): TypeInference => {
+  const filled = values.filter(v => !isBlank(v)).map(v => (typeof v === 'string' ? v.trim() : v));
+  const present = filled.filter(v => !isMissingMarker(v));
+  const missing = filled.length > 0 ? (filled.length - present.length) / filled.length : 0;
+  if (present.length === 0) return { type: 'text', confidence: 0, ratios: {}, missing };
+
+  const order = detectDateOrder(present);
+  const counts: Partial<Record<DataType, number>> = {};
+  const ratios: Partial<Record<DataType, number>> = {};
+  CANDIDATES.forEach(([type, fits]) => {
+    const count = present.filter(v => fits(v, order)).length;
+    if (count > 0) {
+      counts[type] = count;
+      ratios[type] = count / filled.length;
+    }
+  });
+
+  const [best] = CANDIDATES.reduce((a, b) => ((counts[b[0]] ?? 0) > (counts[a[0]] ?? 0) ? b : a));
+  const count = counts[best] ?? 0;
+  return count / present.length >= MIN_CONFIDENCE
+    ? { type: best, confidence: count / filled.length, ratios, missing }
+    : { type: 'text', confidence: (present.length - count) / filled.length, ratios, missing };
+};
+
+// Evenly spaced rows, so values that only appear further down the table are seen too
+const sampleRows = <T>(rows: T[]): T[] => {
+  if (rows.length <= SAMPLE_SIZE) return rows;
+  const step = rows.length / SAMPLE_SIZE;
+  return Array.from({ length: SAMPLE_SIZE }, (_, i) => rows[Math.floor(i * step)]);
+};
+
+export const inferColumns = (names: string[], rows: Array<Row | Record<string, CellValue>>): ColumnDef[] => {
+  const sample = sampleRows(rows);
+  return names.map(name => {
+    const { type, confidence, ratios, missing } = inferColumnType(sample.map(row => row[name]));
+    return { name, type, confidence, typeRatios: ratios, missingRatio: missing };
+  });
+};
+
+// "Number 90%, Date 2%, Missing markers 8%" for the preview's tooltip
+export const describeTypeRatios = (column: ColumnDef): string => {
+  const ratios = (Object.entries(column.typeRatios ?? {}) as Array<[DataType, number]>)
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, ratio]) => `${TYPE_LABELS[type]} ${Math.round(ratio * 100)}%`);
+  if (ratios.length === 0) ratios.push('No values fit a number, date, boolean or geometry type');
+  if (column.missingRatio) ratios.push(`Missing markers ${Math.round(column.missingRatio * 100)}%`);
+  return ratios.join(', ');
+};
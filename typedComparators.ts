@@ -0,0 +1,235 @@
+import { CellValue, ColumnDef, ComparisonLevel, Dataset, JoinKeyPair, KeyComparator, KeyTolerance } from './types';
+
+/**
+ * Comparators for number and date keys; spatial keys are handled in geometry.ts.
+ * Values are parsed into closed ranges (a single value is a range of width 0), so
+ * "10-20" and "2023-01-01 to 2023-01-31" match anything that overlaps them.
+ */
+
+export type TypedComparator = Exclude<KeyComparator, 'text' | 'spatial'>;
+
+export interface ValueRange {
+  lo: number;
+  hi: number;
+}
+
+export const COMPARATOR_LABELS: Record<KeyComparator, string> = {
+  text: 'Text',
+  numeric: 'Numeric',
+  date: 'Date',
+  spatial: 'Spatial',
+};
+
+export const DEFAULT_TOLERANCE: KeyTolerance = { absolute: 0, relative: 0, days: 0 };
+
+const columnType = (columns: ColumnDef[], name: string) => columns.find(c => c.name === name)?.type;
+
+// An explicit choice wins; otherwise both join columns have to carry the same inferred type
+export const resolveComparator = (kp: JoinKeyPair, tableA: Dataset, tableB: Dataset): KeyComparator => {
+  if (kp.comparator) return kp.comparator;
+  const typeA = columnType(tableA.columns, kp.left);
+  const typeB = columnType(tableB.columns, kp.right);
+  if (typeA === 'number' && typeB === 'number') return 'numeric';
+  if (typeA === 'date' && typeB === 'date') return 'date';
+  if (typeA === 'geometry' && typeB === 'geometry') return 'spatial';
+  return 'text';
+};
+
+// --- Numbers ---
+
+// "1,234.50", "1.234,50", "$100", "12 %"; a lone comma is a thousands separator only before exactly three digits
+export const parseNumber = (value: CellValue): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value === null || value === undefined || typeof value === 'boolean') return null;
+
+  let text = String(value).trim().replace(/^\((.*)\)$/, '-$1'); // Accounting negatives
+  text = text.replace(/[^\d.,eE+-]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    text = lastComma > lastDot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    text = /^[+-]?\d{1,3}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+  } else if (/^[+-]?\d{1,3}(\.\d{3}){2,}$/.test(text)) {
+    text = text.replace(/\./g, '');
+  }
+
+  const parsed = Number(text);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const NUMERIC_RANGE_PATTERN = /^(.+?\d)\s*(?:-|–|—|\.\.|to)\s*(\S.*)$/i;
+
+export const parseNumericRange = (value: CellValue): ValueRange | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? { lo: value, hi: value } : null;
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  if (!text) return null;
+
+  const range = text.match(NUMERIC_RANGE_PATTERN);
+  if (range) {
+    const lo = parseNumber(range[1]);
+    const hi = parseNumber(range[2]);
+    if (lo !== null && hi !== null) return { lo: Math.min(lo, hi), hi: Math.max(lo, hi) };
+  }
+
+  const single = parseNumber(text);
+  return single === null ? null : { lo: single, hi: single };
+};
+
+// --- Dates ---
+
+// Order of the day and month in "05/01/2023"; ISO and textual dates are unambiguous
+export type DateOrder = 'DMY' | 'MDY';
+
+const MS_PER_DAY = 86400000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const monthNumber = (name: string): number => MONTHS.indexOf(name.substring(0, 3).toLowerCase()) + 1;
+
+const fullYear = (year: string): number => {
+  const y = parseInt(year, 10);
+  if (year.length > 2) return y;
+  return y < 50 ? 2000 + y : 1900 + y;
+};
+
+// Days since 1970-01-01, or null for impossible dates such as 31/02
+const toDays = (year: number, month: number, day: number): number | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return Math.floor(date.getTime() / MS_PER_DAY);
+};
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s]\d{1,2}:\d{2}.*)?$/;
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/;
+const COMPACT_DATE = /^(\d{4})(\d{2})(\d{2})$/;
+const DAY_MONTH_YEAR = /^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3,})\.?,?[\s-]+(\d{2}|\d{4})$/i;
+const MONTH_DAY_YEAR = /^([a-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i;
+
+export const parseDate = (value: CellValue, order: DateOrder = 'DMY'): number | null => {
+  if (value === null || value === undefined || typeof value === 'boolean') return null;
+  const text = String(value).trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(ISO_DATE))) return toDays(+match[1], +match[2], +match[3]);
+  if ((match = text.match(COMPACT_DATE))) return toDays(+match[1], +match[2], +match[3]);
+  if ((match = text.match(NUMERIC_DATE))) {
+    const [first, second] = [+match[1], +match[2]];
+    return order === 'DMY'
+      ? toDays(fullYear(match[3]), second, first)
+      : toDays(fullYear(match[3]), first, second);
+  }
+  if ((match = text.match(DAY_MONTH_YEAR))) return toDays(fullYear(match[3]), monthNumber(match[2]), +match[1]);
+  if ((match = text.match(MONTH_DAY_YEAR))) return toDays(+match[3], monthNumber(match[1]), +match[2]);
+  return null;
+};
+
+// "-" only separates dates when spaced, since it also appears inside ISO dates
+const DATE_RANGE_SEPARATOR = /\s+(?:-|–|—|to|until)\s+|\s*(?:\.\.|–|—)\s*/i;
+
+export const parseDateRange = (value: CellValue, order: DateOrder = 'DMY'): ValueRange | null => {
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  if (!text) return null;
+
+  const parts = text.split(DATE_RANGE_SEPARATOR);
+  if (parts.length === 2) {
+    const lo = parseDate(parts[0], order);
+    const hi = parseDate(parts[1], order);
+    if (lo !== null && hi !== null) return { lo: Math.min(lo, hi), hi: Math.max(lo, hi) };
+  }
+
+  const single = parseDate(text, order);
+  return single === null ? null : { lo: single, hi: single };
+};
+
+const DATE_ORDER_SAMPLE = 1000;
+
+/**
+ * Decides whether a column writes day or month first from the values that can only be
+ * read one way ("25/12/2023"). Columns with no such value are taken as day first.
+ */
+export const detectDateOrder = (values: CellValue[]): DateOrder => {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  for (const value of values.slice(0, DATE_ORDER_SAMPLE)) {
+    const match = value === null || value === undefined ? null : String(value).trim().match(NUMERIC_DATE);
+    if (!match) continue;
+    if (+match[1] > 12) dayFirst++;
+    else if (+match[2] > 12) monthFirst++;
+  }
+  return monthFirst > dayFirst ? 'MDY' : 'DMY';
+};
+
+export const parseRange = (comparator: TypedComparator, value: CellValue, order: DateOrder): ValueRange | null =>
+  comparator === 'numeric' ? parseNumericRange(value) : parseDateRange(value, order);
+
+// --- Comparison ---
+
+// Gap between two ranges; 0 when they overlap
+export const rangeDistance = (a: ValueRange, b: ValueRange): number => Math.max(0, a.lo - b.hi, b.lo - a.hi);
+
+// Largest distance still accepted; relative tolerance is a fraction of the Master value
+export const allowedDistance = (comparator: TypedComparator, tolerance: KeyTolerance, master: ValueRange): number =>
+  comparator === 'date'
+    ? Math.max(0, tolerance.days)
+    : Math.max(0, tolerance.absolute, tolerance.relative * Math.max(Math.abs(master.lo), Math.abs(master.hi)));
+
+/**
+ * 100 for equal or overlapping values, falling linearly to 50 at the edge of the
+ * tolerance; null beyond it.
+ */
+export const typedScore = (distance: number, allowed: number): number | null => {
+  if (distance === 0) return 100;
+  if (distance > allowed) return null;
+  return 100 - 50 * (distance / allowed);
+};
+
+export const typedLevel = (distance: number, allowed: number): ComparisonLevel => {
+  if (distance === 0) return 'exact';
+  if (distance <= allowed / 2) return 'fuzzyHigh';
+  if (distance <= allowed) return 'fuzzyLow';
+  return 'disagree';
+};
+
+// --- Range Index ---
+
+export interface RangeIndex {
+  ranges: Array<ValueRange | null>; // Parsed value per Target row
+  candidates: (query: ValueRange, slack: number) => number[];
+}
+
+/**
+ * Target ranges sorted by their lower bound. A query scans from the first range that
+ * could still reach it, bounded by the widest range in the column.
+ */
+export const buildRangeIndex = (ranges: Array<ValueRange | null>): RangeIndex => {
+  const order = ranges.map((_, idx) => idx).filter(idx => ranges[idx] !== null);
+  order.sort((a, b) => ranges[a]!.lo - ranges[b]!.lo);
+  const los = order.map(idx => ranges[idx]!.lo);
+  const maxSpan = order.reduce((max, idx) => Math.max(max, ranges[idx]!.hi - ranges[idx]!.lo), 0);
+
+  const lowerBound = (value: number): number => {
+    let low = 0;
+    let high = los.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (los[mid] < value) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  const candidates = (query: ValueRange, slack: number): number[] => {
+    const result: number[] = [];
+    for (let i = lowerBound(query.lo - slack - maxSpan); i < los.length && los[i] <= query.hi + slack; i++) {
+      const idx = order[i];
+      if (ranges[idx]!.hi >= query.lo - slack) result.push(idx);
+    }
+    return result.sort((a, b) => a - b);
+  };
+
+  return { ranges, candidates };
+};
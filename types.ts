@@ -2,7 +2,7 @@ export type CellValue = string | number | boolean | null | undefined;
 
 export interface Row {
   [key: string]: CellValue;
-  id: string; // Internal ID for tracking
+  _rowId: string; // Internal ID for tracking; set after the file's columns, so a column named "id" stays data
 }
 
 export type DataType = 'text' | 'number' | 'date' | 'boolean' | 'geometry';
@@ -10,16 +10,29 @@ export type DataType = 'text' | 'number' | 'date' | 'boolean' | 'geometry';
 export interface ColumnDef {
   name: string;
   type: DataType;
+  confidence?: number; // 0-1 for inferred types; missing where the file declares its types
+  typeRatios?: Partial<Record<DataType, number>>; // Share of sampled values each type could read
+  missingRatio?: number; // Share of sampled values written as a marker such as "N/A"
+  overridden?: boolean; // Type chosen by the user in the preview
 }
 
 export interface Dataset {
   name: string;
-  type: 'csv' | 'pdf' | 'postgis' | 'excel' | 'shapefile';
+  type: 'csv' | 'pdf' | 'postgis' | 'excel' | 'shapefile' | 'geojson' | 'geopackage' | 'kml' | 'json' | 'parquet' | 'arrow';
   columns: ColumnDef[];
   data: Row[];
   rowCount: number;
   size?: string;
   rawSize?: number; // bytes
+  crs?: CoordinateSystem; // Spatial files only; what the geometry column's coordinates mean
+}
+
+export interface CoordinateSystem {
+  name: string;
+  epsg?: number;
+  geographic: boolean; // Longitude/latitude in degrees rather than projected x/y
+  metresPerUnit: number; // Projected systems only; 1 for geographic ones
+  wkt?: string; // Original .prj definition
 }
 
 export interface NormalizationConfig {
@@ -27,35 +40,196 @@ export interface NormalizationConfig {
   removeNumbers: boolean;
   toLowerCase: boolean;
   trimWhitespace: boolean;
+  foldDiacritics: boolean; // "Zürich" -> "Zurich"
+  transliterate: boolean; // Cyrillic, Greek and Arabic to Latin
+  foldWidth: boolean; // Full-width "ＡＢＣ" -> "ABC"
+  rules: NormalizationRule[]; // Custom steps, applied in order
 }
 
+export type NormalizationFlag = Exclude<keyof NormalizationConfig, 'rules'>;
+
+export type NormalizationRule =
+  | { id: string; type: 'regexReplace'; pattern: string; replacement: string; flags: string }
+  | { id: string; type: 'stopWords'; words: string[] }
+  | { id: string; type: 'abbreviations'; dictionary: Record<string, string> }
+  | { id: string; type: 'sortTokens' }
+  | { id: string; type: 'punctuationToSpace' };
+
+export type NormalizationRuleType = NormalizationRule['type'];
+
 export enum MatchingAlgorithm {
   EXACT = 'EXACT',
   LEVENSHTEIN = 'LEVENSHTEIN', // Fuzzy
+  DAMERAU_LEVENSHTEIN = 'DAMERAU_LEVENSHTEIN', // Fuzzy, transpositions count as one edit
+  JARO_WINKLER = 'JARO_WINKLER', // Short strings, rewards shared prefix
+  TOKEN_SORT = 'TOKEN_SORT', // Word order independent
+  TOKEN_SET = 'TOKEN_SET', // Word order and duplicate word independent
+  JACCARD = 'JACCARD', // Bigram overlap
+  TFIDF_COSINE = 'TFIDF_COSINE', // Word overlap, common words down-weighted
   PHONETIC = 'PHONETIC', // Soundex-like
+  NUMERIC = 'NUMERIC', // Numeric keys, within tolerance
+  DATE = 'DATE', // Date keys, within tolerance
+  SPATIAL = 'SPATIAL', // Geometry keys
   AI_SEMANTIC = 'AI_SEMANTIC', // Gemini
 }
 
+export type PhoneticEncoder = 'soundex' | 'doubleMetaphone' | 'nysiis' | 'cologne';
+
+export enum BlockingStrategy {
+  NONE = 'NONE', // Full Target scan
+  QGRAM = 'QGRAM', // Trigram inverted index
+  PHONETIC = 'PHONETIC', // Phonetic-code buckets
+  SORTED_NEIGHBOURHOOD = 'SORTED_NEIGHBOURHOOD',
+  PREFIX = 'PREFIX',
+}
+
+export interface BlockingConfig {
+  strategy: BlockingStrategy;
+  qgramSize: number;
+  windowSize: number; // Sorted neighbourhood window
+  prefixLength: number;
+  maxCandidates: number; // Cap per Master row for q-gram blocking
+}
+
+export type TieBreakRule = 'first' | 'secondaryKey' | 'ambiguous';
+
+// oneToOne: each Target row is used at most once; oneToMany: one output row per matching Target row;
+// manyToOne: each Master row takes its best Target row, which other Master rows may also take
+export type JoinCardinality = 'oneToOne' | 'oneToMany' | 'manyToOne';
+
+export type JoinType = 'left' | 'inner' | 'right' | 'fullOuter' | 'leftAnti' | 'rightAnti';
+
+// hierarchical: keys narrow the candidates one after another
+// weighted: every key is scored and combined into one weighted score
+// probabilistic: Fellegi-Sunter match weights with EM-estimated m/u probabilities
+export type MatchMode = 'hierarchical' | 'weighted' | 'probabilistic';
+
+export type ComparisonLevel = 'exact' | 'fuzzyHigh' | 'fuzzyLow' | 'disagree';
+
+export type LevelProbabilities = Record<ComparisonLevel, number>;
+
+export interface KeyLinkageParams {
+  m: LevelProbabilities; // P(level | pair is a match)
+  u: LevelProbabilities; // P(level | pair is not a match)
+}
+
+export interface FellegiSunterParams {
+  lambda: number; // Prior probability that a candidate pair is a match
+  keys: Record<string, KeyLinkageParams>; // Keyed by JoinKeyPair.id
+  iterations: number;
+  converged: boolean;
+  pairCount: number; // Candidate pairs the estimate was based on
+}
+
+export interface ProbabilisticConfig {
+  matchThreshold: number; // Minimum posterior match probability, 0-1
+  params?: FellegiSunterParams; // Learned or user-edited; estimated during the run when missing
+}
+
 export interface JoinKeyPair {
   id: string;
   left: string;
   right: string;
+  weight?: number; // Weighted mode only; defaults to 1
+  algorithms?: MatchingAlgorithm[]; // Overrides JoinConfig.algorithms for this key
+  threshold?: number; // Overrides JoinConfig.threshold for this key
+  normalization?: NormalizationConfig; // Overrides JoinConfig.normalization for this key
+  domain?: DomainNormalizer; // Typed parsing applied before normalization; defaults to 'none'
+  countryCode?: string; // Phone keys: calling code assumed for national numbers, which are left unprefixed without one
+  comparator?: KeyComparator; // Inferred from the column types when missing
+  tolerance?: KeyTolerance; // Numeric and date comparators only
+  spatial?: SpatialPredicate; // Spatial comparator only; defaults to 'intersects'
+  distance?: number; // Spatial comparator: metres for 'withinDistance', optional limit for 'nearest'
+}
+
+// numeric, date and spatial keys are parsed and compared by value instead of string similarity
+export type KeyComparator = 'text' | 'numeric' | 'date' | 'spatial';
+
+// How a Master geometry relates to a Target geometry
+export type SpatialPredicate = 'intersects' | 'within' | 'withinDistance' | 'nearest';
+
+export interface KeyTolerance {
+  absolute: number; // Numeric: largest accepted difference
+  relative: number; // Numeric: largest accepted difference as a fraction of the Master value
+  days: number; // Date: largest accepted difference in days
 }
 
+export type DomainNormalizer = 'none' | 'address' | 'company' | 'personName' | 'phone' | 'email';
+
 export interface JoinConfig {
   joinKeys: JoinKeyPair[]; 
+  matchMode: MatchMode;
   algorithms: MatchingAlgorithm[]; 
   threshold: number;
+  weightedThreshold: number; // Minimum combined score in weighted mode
+  probabilistic: ProbabilisticConfig;
   normalization: NormalizationConfig;
+  phoneticEncoder: PhoneticEncoder; // Used by the PHONETIC algorithm and phonetic blocking
+  blocking: BlockingConfig;
+  joinType: JoinType;
+  cardinality: JoinCardinality;
+  tieBreak: TieBreakRule; // How equally scored candidates are resolved
+  alternativeCount: number; // Runner-up candidates kept on each result row
   masterColumns: string[]; // Columns from Table A (Master) to append
   targetColumns: string[]; // Columns from Table B (Target) to keep
 }
 
-export interface MatchResultRow extends Row {
+export interface MatchCandidate {
+  targetId: string;
+  targetIndex: number;
+  score: number;
+  method: MatchingAlgorithm;
+}
+
+// Not `extends Row`: the index signature also has to admit the `_alternatives` list
+export interface MatchResultRow {
+  [key: string]: CellValue | MatchCandidate[];
+  _rowId: string; // Master row's id, or the Target row's for Target-only rows
   _matchStatus: 'matched' | 'unmatched';
+  _side: 'both' | 'master' | 'target'; // Which tables contributed values to this row
+  _targetId?: string; // Id of the matched Target row
   _matchScore: number;
   _matchMethod?: MatchingAlgorithm;
   _originalValue?: string;
+  _alternatives?: MatchCandidate[]; // Next best candidates, best first
+  _ambiguous?: boolean; // Set when the tie-break rule is 'ambiguous' and several candidates share the top score
+  _matchRank?: number; // 1-based position among the Master row's matches (oneToMany)
+  _matchWeight?: number; // Fellegi-Sunter log2 likelihood ratio (probabilistic mode)
+  _matchProbability?: number; // Posterior match probability (probabilistic mode)
+}
+
+export interface JoinStats {
+  matched: number; // Master rows with at least one match
+  unmatched: number;
+  outputRows: number;
+  fanOutRows: number; // Output rows beyond one per Master row (oneToMany)
+}
+
+export interface JoinResult {
+  rows: MatchResultRow[]; // Shaped by `JoinConfig.joinType`
+  unmatchedMasterRows: MatchResultRow[];
+  unmatchedTargetRows: Row[];
+  stats: JoinStats;
+  cancelled?: boolean; // true when the run was aborted; rows then only cover the processed Master rows
+  linkageParams?: FellegiSunterParams; // Parameters used by a probabilistic run
+}
+
+export interface JoinProgress {
+  processed: number;
+  total: number;
+  matched: number;
+  elapsedMs: number;
+  etaMs: number | null; // null until enough rows have been processed to estimate
+}
+
+export interface JoinHooks {
+  onLog?: (message: string) => void | Promise<void>;
+  onProgress?: (progress: JoinProgress) => void | Promise<void>;
+  isCancelled?: () => boolean;
+  pause?: () => Promise<void>; // Awaited between EM iterations; a worker yields here so a cancel request can arrive
+  // Defaults to the Gemini service; pass a stub to run the AI fallback elsewhere
+  semanticMatcher?: (referenceValues: string[], targetValues: string[]) => Promise<Array<{ target: string; match: string | null; confidence: string }>>;
+  isSemanticAvailable?: () => boolean;
 }
 
 export interface DbConnection {
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { foldDiacritics, transliterate } from './unicode';
+
+// --- Diacritics ---
+
+describe('foldDiacritics', () => {
+  it.each([
+    ['Zürich', 'Zurich'],
+    ['Łódź', 'Lodz'],
+    ['Ångström', 'Angstrom'],
+    ['Ἀθῆναι', 'Αθηναι'],
+    ['Йошкар-Ола', 'Иошкар-Ола'],
+  ])('strips the accents from %s', (value, expected) => {
+    expect(foldDiacritics(value)).toBe(expected);
+  });
+
+  it.each(['हिंदी', 'தமிழ்', 'ภาษาไทย', 'が', '한국어'])('keeps the vowel signs and marks of %s', value => {
+    expect(foldDiacritics(value)).toBe(value);
+  });
+
+  it('strips the accents left on romanized letters', () => {
+    expect(foldDiacritics(transliterate('Αθήνα'))).toBe('Athina');
+  });
+});
+
@@ -0,0 +1,92 @@
+/**
+ * Unicode folding used by normalization, so that values written in different
+ * scripts, widths or with different accents still compare equal.
+ */
+
+// --- Width ---
+
+// NFKC maps full-width Latin ("ＡＢＣ１２３") to ASCII and half-width katakana to full-width
+export const foldWidth = (value: string): string => value.normalize('NFKC');
+
+// --- Diacritics ---
+
+// Letters that carry no combining mark under NFKD and so need an explicit mapping
+const UNDECOMPOSABLE: Record<string, string> = {
+  'ø': 'o', 'Ø': 'O', 'ł': 'l', 'Ł': 'L', 'đ': 'd', 'Đ': 'D', 'ð': 'd', 'Ð': 'D',
+  'ħ': 'h', 'Ħ': 'H', 'ı': 'i', 'ß': 'ss', 'æ': 'ae', 'Æ': 'AE', 'œ': 'oe', 'Œ': 'OE',
+  'þ': 'th', 'Þ': 'Th',
+};
+
+const UNDECOMPOSABLE_PATTERN = new RegExp(`[${Object.keys(UNDECOMPOSABLE).join('')}]`, 'g');
+
+// Only marks on alphabetic scripts are accents; in Indic and other scripts they write vowels ("हिंदी")
+const ACCENTED = /([\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}])\p{M}+/gu;
+
+// "Zürich" -> "Zurich", "Łódź" -> "Lodz"
+export const foldDiacritics = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(ACCENTED, '$1')
+    .replace(UNDECOMPOSABLE_PATTERN, ch => UNDECOMPOSABLE[ch])
+    .normalize('NFC');
+
+// --- Transliteration ---
+
+const CYRILLIC: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh', 'з': 'z',
+  'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r',
+  'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch',
+  'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+  // Ukrainian, Belarusian and Serbian letters
+  'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g', 'ў': 'u', 'ђ': 'dj', 'ј': 'j', 'љ': 'lj', 'њ': 'nj',
+  'ћ': 'c', 'џ': 'dz',
+};
+
+const GREEK: Record<string, string> = {
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i',
+  'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's',
+  'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o',
+};
+
+// Consonant skeleton; short vowels are rarely written and end up as combining marks
+const ARABIC: Record<string, string> = {
+  'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h',
+  'خ': 'kh', 'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd',
+  'ط': 't', 'ظ': 'z', 'ع': '', 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l', 'م': 'm',
+  'ن': 'n', 'ه': 'h', 'و': 'w', 'ي': 'y', 'ى': 'a', 'ة': 'h', 'ء': '', 'ؤ': 'w', 'ئ': 'y',
+  // Persian letters
+  'پ': 'p', 'چ': 'ch', 'ژ': 'zh', 'گ': 'g', 'ک': 'k', 'ی': 'y',
+};
+
+const TRANSLITERATION: Record<string, string> = { ...CYRILLIC, ...GREEK, ...ARABIC };
+
+// Arabic-Indic and Persian digits
+for (let d = 0; d <= 9; d++) {
+  TRANSLITERATION[String.fromCharCode(0x0660 + d)] = String(d);
+  TRANSLITERATION[String.fromCharCode(0x06F0 + d)] = String(d);
+}
+
+const lookup = (ch: string): string | undefined => {
+  const direct = TRANSLITERATION[ch];
+  if (direct !== undefined) return direct;
+
+  const lower = ch.toLowerCase();
+  const mapped = lower === ch ? undefined : TRANSLITERATION[lower];
+  return mapped && mapped.charAt(0).toUpperCase() + mapped.substring(1); // Keep capitals: "Москва" -> "Moskva"
+};
+
+// Accented letters without their own entry ("ά") are romanized by their base letter
+const transliterateChar = (ch: string): string => {
+  const mapped = lookup(ch);
+  if (mapped !== undefined) return mapped;
+  const [base, ...marks] = Array.from(ch.normalize('NFD'));
+  const baseMapped = lookup(base);
+  return baseMapped === undefined ? ch : baseMapped + marks.join('');
+};
+
+/**
+ * Romanizes Cyrillic, Greek and Arabic script letter by letter. Accents such as
+ * the Greek tonos are kept as combining marks for `foldDiacritics` to remove.
+ */
+export const transliterate = (value: string): string =>
+  Array.from(value.normalize('NFC'), transliterateChar).join('').normalize('NFC');
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { parseJSONRecords, parseNDJSON, parseWorkbook, readJSON } from './utils';
+
+// --- JSON ---
+
+describe('parseJSONRecords', () => {
+  it('types each column from its values and fills missing fields with null', () => {
+    const { columns, data } = parseJSONRecords(readJSON('\uFEFF' + JSON.stringify([
+      { name: 'Acme', qty: 2, active: true, since: '2023-01-15' },
+      { name: 'Globex', qty: null, active: false },
+      { name: 'Initech', qty: 'n/a', since: '' },
+    ])));
+    expect(columns).toEqual([
+      { name: 'name', type: 'text' },
+      { name: 'qty', type: 'text' },
+      { name: 'active', type: 'boolean' },
+      { name: 'since', type: 'date' },
+    ]);
+    expect(data).toEqual([
+      { name: 'Acme', qty: 2, active: true, since: '2023-01-15', _rowId: 'row-0' },
+      { name: 'Globex', qty: null, active: false, since: null, _rowId: 'row-1' },
+      { name: 'Initech', qty: 'n/a', active: null, since: '', _rowId: 'row-2' },
+    ]);
+  });
+
+  it('flattens nested objects into dotted names and keeps arrays as JSON text', () => {
+    const { columns, data } = parseJSONRecords([
+      { id: 1, address: { city: 'Leeds', geo: { lat: 53.8 } }, tags: ['a', 'b'] },
+      { id: 2, address: null, tags: [] },
+    ]);
+    expect(columns).toEqual([
+      { name: 'id', type: 'number' },
+      { name: 'address.city', type: 'text' },
+      { name: 'address.geo.lat', type: 'number' },
+      { name: 'tags', type: 'text' },
+      { name: 'address', type: 'text' },
+    ]);
+    expect(data[0]).toMatchObject({ 'address.city': 'Leeds', 'address.geo.lat': 53.8, tags: '["a","b"]', address: null });
+    expect(data[1]).toMatchObject({ 'address.city': null, 'address.geo.lat': null, tags: '[]', address: null });
+  });
+
+  it('reads the record list an API wraps in an object', () => {
+    const { data } = parseJSONRecords({ total: 2, items: [{ name: 'Acme' }, { name: 'Globex' }] });
+    expect(data.map(r => r.name)).toEqual(['Acme', 'Globex']);
+  });
+
+  it('rejects values that hold no records', () => {
+    expect(() => parseJSONRecords(42)).toThrow('Expected a JSON array of objects or an object.');
+    expect(() => readJSON('{"name": ')).toThrow(/^Invalid JSON: /);
+  });
+});
+
+describe('parseNDJSON', () => {
+  it('reads one record per line and skips blank lines', () => {
+    const { columns, data } = parseNDJSON('{"name":"Acme","geo":{"lat":53.8}}\r\n\n{"name":"Globex","geo":{"lat":null}}\n');
+    expect(columns).toEqual([{ name: 'name', type: 'text' }, { name: 'geo.lat', type: 'number' }]);
+    expect(data.map(r => r['geo.lat'])).toEqual([53.8, null]);
+  });
+
+  it('names the line that is not valid JSON', () => {
+    expect(() => parseNDJSON('{"name":"Acme"}\n{"name":')).toThrow(/^Invalid JSON on line 2: /);
+  });
+});
+
+// --- Excel ---
+
+describe('parseWorkbook', () => {
+  const workbook = (sheets: Record<string, unknown[][]>) => {
+    const book = XLSX.utils.book_new();
+    Object.entries(sheets).forEach(([name, rows]) => XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), name));
+    return book;
+  };
+
+  it('adds a "sheet" column naming each row\'s sheet when several are combined', () => {
+    const book = workbook({ North: [['name', 'qty'], ['Acme', 1]], South: [['name', 'qty'], ['Globex', 2]] });
+    const { columns, data } = parseWorkbook(book, { sheets: ['North', 'South'] });
+    expect(columns.map(c => c.name)).toEqual(['sheet', 'name', 'qty']);
+    expect(data.map(r => [r.sheet, r.name])).toEqual([['North', 'Acme'], ['South', 'Globex']]);
+  });
+
+  it('keeps a real "sheet" column and names the source column apart from it', () => {
+    const book = workbook({ North: [['name', 'sheet'], ['Acme', 'A4']], South: [['name', 'sheet'], ['Globex', 'A3']] });
+    const { columns, data } = parseWorkbook(book, { sheets: ['North', 'South'] });
+    expect(columns.map(c => c.name)).toEqual(['sheet (2)', 'name', 'sheet']);
+    expect(data.map(r => [r['sheet (2)'], r.sheet])).toEqual([['North', 'A4'], ['South', 'A3']]);
+  });
+});
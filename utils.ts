@@ -1,6 +1,18 @@
-import { CellValue, NormalizationConfig, DataType, ColumnDef, Dataset } from './types';
+import { CellValue, NormalizationConfig, DataType, ColumnDef, CoordinateSystem, Dataset } from './types';
 import * as XLSX from 'xlsx';
 import shp from 'shpjs';
+import JSZip from 'jszip';
+import { foldDiacritics, foldWidth, transliterate } from './unicode';
+import { applyRules } from './normalizationRules';
+import { GeoJSONGeometry, isGeographic, isGeometryValue, parseGeoPackageGeometry, parseGeometry, shapeToGeoJSON, toGeoJSONGeometry } from './geometry';
+import { WGS84, describeCrs, isWGS84, parsePrj, sameCrs } from './crs';
+import { SqliteDatabase, openSqlite } from './sqlite';
+import { CsvEncoding, CsvReadOptions, createCsvParser, detectDelimiter, readCsvFile } from './csv';
+import { PdfPage, detectPdfColumns, extractPdfTable, readPdf } from './pdf';
+import { ColumnarTable } from './columnar';
+import { inferColumns } from './typeInference';
+import { readParquet } from './parquet';
+import { readArrow } from './arrow';
 
 // --- Normalization ---
 
@@ -8,18 +20,30 @@ export const normalizeString = (value: CellValue, config: NormalizationConfig):
   if (value === null || value === undefined) return '';
   let str = String(value);
 
+  if (config.foldWidth) {
+    str = foldWidth(str);
+  }
+  if (config.transliterate) {
+    str = transliterate(str);
+  }
+  if (config.foldDiacritics) {
+    str = foldDiacritics(str);
+  }
   if (config.toLowerCase) {
     str = str.toLowerCase();
   }
+  if (config.rules.length > 0) {
+    str = applyRules(str, config.rules);
+  }
   if (config.trimWhitespace) {
     str = str.trim();
   }
   if (config.removeSpecialChars) {
-    // Keep alphanumeric and spaces, allowing | for composite keys
-    str = str.replace(/[^a-zA-Z0-9\s|]/g, '');
+    // Keep letters and digits of any script (with their marks) and spaces, allowing | for composite keys
+    str = str.replace(/[^\p{L}\p{M}\p{N}\s|]/gu, '');
   }
   if (config.removeNumbers) {
-    str = str.replace(/[0-9]/g, '');
+    str = str.replace(/\p{N}/gu, '');
   }
   
   // Collapse multiple spaces
@@ -73,110 +97,681 @@ export const similarityPercentage = (a: string, b: string): number => {
   return (longerLength - editDistance) / longerLength;
 };
 
-export const getPhoneticCode = (str: string): string => {
-  let s = str.toUpperCase();
-  const firstLetter = s[0];
-  s = s.replace(/[AEIOUHWY]/g, '');
-  s = s.replace(/[BFPV]/g, '1')
-       .replace(/[CGJKQSXZ]/g, '2')
-       .replace(/[DT]/g, '3')
-       .replace(/[L]/g, '4')
-       .replace(/[MN]/g, '5')
-       .replace(/[R]/g, '6');
-  s = s.replace(/(.)\1+/g, '$1');
-  return (firstLetter + s.substring(1)).substring(0, 4).padEnd(4, '0');
+// --- Parsers ---
+
+export interface CsvOptions extends CsvReadOptions {
+  hasHeader?: boolean; // Defaults to true; without a header columns are named "Column 1", "Column 2"...
+}
+
+// Blank and repeated header names would collide as row keys
+const uniqueColumnNames = (names: string[]): string[] => {
+  const seen = new Set<string>();
+  return names.map((raw, idx) => {
+    const base = raw.trim() || `Column ${idx + 1}`;
+    let name = base;
+    for (let n = 2; seen.has(name); n++) name = `${base} (${n})`;
+    seen.add(name);
+    return name;
+  });
+};
+
+// Collects parsed records into rows; columns are typed from a sample of their values
+const csvTable = (hasHeader: boolean) => {
+  let names: string[] | null = null;
+  const data: any[] = [];
+
+  const addRow = (fields: string[]) => {
+    if (!names) {
+      names = uniqueColumnNames(hasHeader ? fields : []);
+      if (hasHeader) return;
+    }
+    // Ragged rows longer than the header get extra, generically named columns
+    if (fields.length > names.length) {
+      names = uniqueColumnNames([...names, ...fields.slice(names.length).map(() => '')]);
+    }
+    const row: any = {};
+    names.forEach((name, i) => {
+      row[name] = fields[i] || null;
+    });
+    row._rowId = `row-${data.length}`;
+    data.push(row);
+  };
+
+  const finish = (): { columns: ColumnDef[], data: any[] } => {
+    return { columns: inferColumns(names ?? [], data), data };
+  };
+
+  return { addRow, finish };
+};
+
+export const parseCSV = (content: string, options: { delimiter?: string; hasHeader?: boolean } = {}): { columns: ColumnDef[], data: any[] } => {
+  const table = csvTable(options.hasHeader ?? true);
+  const parser = createCsvParser(options.delimiter ?? detectDelimiter(content, true), table.addRow);
+  parser.push(content.replace(/^\uFEFF/, ''));
+  parser.end();
+  return table.finish();
+};
+
+// Streams the file, so memory holds the rows but never the whole decoded text
+export const parseCSVFile = async (file: File, options: CsvOptions = {}): Promise<{ columns: ColumnDef[], data: any[], delimiter: string, encoding: CsvEncoding }> => {
+  const table = csvTable(options.hasHeader ?? true);
+  const { delimiter, encoding } = await readCsvFile(file, options, table.addRow);
+  return { ...table.finish(), delimiter, encoding };
+};
+
+// --- Excel ---
+
+export interface ExcelSheet {
+  name: string;
+  range?: string; // Used range in A1 notation; missing for empty sheets
+  headerRow?: number; // 1-based row the header was detected on
+}
+
+export interface ExcelOptions {
+  sheets?: string[]; // Defaults to the first sheet; several sheets are combined with a "sheet" column, renamed if a sheet has its own
+  headerRow?: number; // 1-based sheet row; detected per sheet when missing
+  range?: string; // A1 range such as "B3:H200"; defaults to each sheet's used range
+}
+
+type CellKind = 'number' | 'date' | 'boolean' | 'text';
+
+interface ExcelCell {
+  value: CellValue;
+  kind: CellKind;
+}
+
+const HEADER_SCAN_ROWS = 20;
+const A1_RANGE = /^\$?[A-Z]{1,3}\$?\d+(:\$?[A-Z]{1,3}\$?\d+)?$/i;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Date-formatted numbers become "yyyy-mm-dd" (plus the time when there is one) without a time zone shift
+const excelCell = (cell: XLSX.CellObject | undefined, date1904: boolean): ExcelCell | null => {
+  if (!cell || cell.v === undefined || cell.v === null || cell.t === 'e' || cell.t === 'z') return null;
+  if (cell.t === 'n' && cell.z && XLSX.SSF.is_date(cell.z)) {
+    const d = XLSX.SSF.parse_date_code(cell.v, { date1904 });
+    const date = `${d.y}-${pad(d.m)}-${pad(d.d)}`;
+    return { value: d.H || d.M || d.S ? `${date} ${pad(d.H)}:${pad(d.M)}:${pad(d.S)}` : date, kind: 'date' };
+  }
+  if (cell.t === 'd' && cell.v instanceof Date) return { value: cell.v.toISOString().slice(0, 10), kind: 'date' };
+  if (cell.t === 'n') return { value: Number(cell.v), kind: 'number' };
+  if (cell.t === 'b') return { value: Boolean(cell.v), kind: 'boolean' };
+  const text = String(cell.v);
+  return text.trim() === '' ? null : { value: text, kind: 'text' };
+};
+
+// Cells covered by a merge read the value of the merge's top-left cell
+const sheetReader = (sheet: XLSX.WorkSheet, date1904: boolean) => {
+  const owner = new Map<string, string>();
+  (sheet['!merges'] ?? []).forEach(m => {
+    const topLeft = XLSX.utils.encode_cell(m.s);
+    for (let r = m.s.r; r <= m.e.r; r++) {
+      for (let c = m.s.c; c <= m.e.c; c++) owner.set(XLSX.utils.encode_cell({ r, c }), topLeft);
+    }
+  });
+  return {
+    cell: (r: number, c: number) => excelCell(sheet[XLSX.utils.encode_cell({ r, c })], date1904),
+    mergedCell: (r: number, c: number) => {
+      const address = XLSX.utils.encode_cell({ r, c });
+      return excelCell(sheet[owner.get(address) ?? address], date1904);
+    },
+  };
+};
+
+const sheetRange = (sheet: XLSX.WorkSheet, range?: string): XLSX.Range | null => {
+  if (range) {
+    if (!A1_RANGE.test(range.trim())) throw new Error(`Invalid cell range "${range}". Use A1 notation such as B3:H200.`);
+    return XLSX.utils.decode_range(range.trim().replace(/\$/g, ''));
+  }
+  return sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']) : null;
+};
+
+/**
+ * The first of the top rows that fills at least half as many cells as the fullest one, so
+ * title banners above the table are skipped. A merged cell counts once, so a title merged
+ * across the whole table does not look like a header.
+ */
+const detectHeaderRow = (sheet: XLSX.WorkSheet, range: XLSX.Range, date1904: boolean): number => {
+  const reader = sheetReader(sheet, date1904);
+  const last = Math.min(range.e.r, range.s.r + HEADER_SCAN_ROWS - 1);
+  const filled: number[] = [];
+  for (let r = range.s.r; r <= last; r++) {
+    let count = 0;
+    for (let c = range.s.c; c <= range.e.c; c++) if (reader.cell(r, c)) count++;
+    filled.push(count);
+  }
+  const most = Math.max(0, ...filled);
+  const header = filled.findIndex(count => count >= Math.max(2, Math.ceil(most / 2)));
+  return range.s.r + Math.max(0, header >= 0 ? header : filled.indexOf(most));
+};
+
+const isDate1904 = (workbook: XLSX.WorkBook) => !!workbook.Workbook?.WBProps?.date1904;
+
+export const openWorkbook = async (file: File): Promise<XLSX.WorkBook> =>
+  XLSX.read(await file.arrayBuffer(), { cellNF: true });
+
+export const listExcelSheets = (workbook: XLSX.WorkBook): ExcelSheet[] =>
+  workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    const range = sheetRange(sheet);
+    return {
+      name,
+      range: sheet['!ref'],
+      headerRow: range ? detectHeaderRow(sheet, range, isDate1904(workbook)) + 1 : undefined,
+    };
+  });
+
+/**
+ * Reads the chosen sheets below their header row. Column types come from the workbook's
+ * own cell types where a column holds only numbers, dates or booleans, and are otherwise
+ * inferred from a sample of the values.
+ */
+export const parseWorkbook = (workbook: XLSX.WorkBook, options: ExcelOptions = {}): { columns: ColumnDef[], data: any[] } => {
+  const sheetNames = options.sheets ?? workbook.SheetNames.slice(0, 1);
+  const multiSheet = sheetNames.length > 1;
+  const date1904 = isDate1904(workbook);
+  const names: string[] = [];
+  const kinds = new Map<string, Set<CellKind>>();
+  const data: any[] = [];
+  const rowSheets: string[] = [];
+
+  for (const sheetName of sheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) throw new Error(`Sheet "${sheetName}" not found.`);
+    const range = sheetRange(sheet, options.range);
+    if (!range) continue;
+
+    const headerRow = options.headerRow !== undefined ? options.headerRow - 1 : detectHeaderRow(sheet, range, date1904);
+    if (headerRow < range.s.r || headerRow > range.e.r) {
+      throw new Error(`Header row ${headerRow + 1} is outside the range ${XLSX.utils.encode_range(range)} on sheet "${sheetName}".`);
+    }
+
+    const reader = sheetReader(sheet, date1904);
+    const headers: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) headers.push(String(reader.mergedCell(headerRow, c)?.value ?? ''));
+    const sheetColumns = uniqueColumnNames(headers);
+    sheetColumns.forEach(name => { if (!names.includes(name)) names.push(name); });
+
+    for (let r = headerRow + 1; r <= range.e.r; r++) {
+      const row: any = {};
+      let empty = true;
+      sheetColumns.forEach((name, i) => {
+        const cell = reader.cell(r, range.s.c + i);
+        row[name] = cell?.value ?? null;
+        if (!cell) return;
+        empty = false;
+        if (!kinds.has(name)) kinds.set(name, new Set());
+        kinds.get(name)!.add(cell.kind);
+      });
+      if (empty) continue;
+      row._rowId = `xlsx-${data.length}`;
+      data.push(row);
+      rowSheets.push(sheetName);
+    }
+  }
+
+  // The source sheet goes in its own column, suffixed like a repeated header so a real "sheet" column is kept
+  let sheetColumn = 'sheet';
+  for (let n = 2; names.includes(sheetColumn); n++) sheetColumn = `sheet (${n})`;
+  if (multiSheet) data.forEach((row, i) => { row[sheetColumn] = rowSheets[i]; });
+
+  const columnType = (name: string): ColumnDef => {
+    const seen = [...(kinds.get(name) ?? [])];
+    return seen.length === 1 && seen[0] !== 'text' ? { name, type: seen[0] } : inferColumns([name], data)[0];
+  };
+  const columns: ColumnDef[] = [
+    ...(multiSheet ? [{ name: sheetColumn, type: 'text' as DataType }] : []),
+    ...names.map(columnType),
+  ];
+
+  return { columns, data };
+};
+
+export const parseExcel = async (file: File, options: ExcelOptions = {}): Promise<{ columns: ColumnDef[], data: any[] }> =>
+  parseWorkbook(await openWorkbook(file), options);
+
+// --- PDF ---
+
+export interface PdfOptions {
+  boundaries?: number[]; // Column boundaries in points from the left edge; detected when missing
+  hasHeader?: boolean; // Defaults to true: the table's first row names the columns
+}
+
+// Pages are read once so the column preview and the final import share them
+export const openPdf = async (file: File): Promise<PdfPage[]> => {
+  const pages = await readPdf(await file.arrayBuffer());
+  if (!pages.some(page => page.lines.length > 0)) {
+    throw new Error('No text found in the PDF. Scanned documents need OCR before they can be imported.');
+  }
+  return pages;
+};
+
+export const parsePDF = (pages: PdfPage[], options: PdfOptions = {}): { columns: ColumnDef[], data: any[] } => {
+  const hasHeader = options.hasHeader ?? true;
+  const table = csvTable(hasHeader);
+  extractPdfTable(pages, options.boundaries ?? detectPdfColumns(pages), hasHeader).forEach(table.addRow);
+  return table.finish();
 };
 
-// --- Type Inference ---
+// --- JSON ---
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const isGeoJSONGeometry = (value: any): boolean =>
+  typeof value?.type === 'string' && (Array.isArray(value.coordinates) || Array.isArray(value.geometries));
 
-const inferType = (value: string): DataType => {
-  if (!value) return 'text';
-  if (!isNaN(Number(value)) && value.trim() !== '') return 'number';
-  if (value.match(/^\d{4}-\d{2}-\d{2}$/) || value.match(/^\d{1,2}\/\d{1,2}\/\d{4}$/)) return 'date';
-  if (value.toLowerCase() === 'true' || value.toLowerCase() === 'false') return 'boolean';
+// Nested objects become dotted column names; arrays and GeoJSON geometries are kept as JSON text
+const flattenRecord = (value: Record<string, any>, prefix = '', out: Record<string, CellValue> = {}): Record<string, CellValue> => {
+  Object.entries(value).forEach(([key, v]) => {
+    const name = prefix + key;
+    if (v !== null && typeof v === 'object' && !Array.isArray(v) && !isGeoJSONGeometry(v) && Object.keys(v).length > 0) {
+      flattenRecord(v, `${name}.`, out);
+    } else {
+      out[name] = v !== null && typeof v === 'object' ? JSON.stringify(v) : v;
+    }
+  });
+  return out;
+};
+
+// JSON values carry their own type, so a column is typed only when every value agrees
+const jsonColumnType = (values: CellValue[]): DataType => {
+  const present = values.filter(v => v !== null && v !== undefined && v !== '');
+  if (present.length === 0) return 'text';
+  if (present.every(v => typeof v === 'number')) return 'number';
+  if (present.every(v => typeof v === 'boolean')) return 'boolean';
+  if (present.every(v => typeof v === 'string' && ISO_DATE.test(v))) return 'date';
+  if (present.every(v => typeof v === 'string' && isGeometryValue(v))) return 'geometry';
   return 'text';
 };
 
-// --- Parsers ---
+const recordTable = (items: any[]): { columns: ColumnDef[], data: any[] } => {
+  const records = items.map((item): Record<string, CellValue> =>
+    item !== null && typeof item === 'object' && !Array.isArray(item) ? flattenRecord(item) : { value: Array.isArray(item) ? JSON.stringify(item) : item });
+  const names = Array.from(new Set(records.flatMap(r => Object.keys(r))));
+  const data = records.map((record, idx) => {
+    const row: any = {};
+    names.forEach(name => {
+      row[name] = record[name] ?? null;
+    });
+    row._rowId = `row-${idx}`;
+    return row;
+  });
+  const columns: ColumnDef[] = names.map(name => ({ name, type: jsonColumnType(records.map(r => r[name])) }));
+  return { columns, data };
+};
+
+export const readJSON = (content: string): any => {
+  try {
+    return JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch (e: any) {
+    throw new Error(`Invalid JSON: ${e.message}`);
+  }
+};
 
-export const parseCSV = (content: string): { columns: ColumnDef[], data: any[] } => {
-  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
-  if (lines.length === 0) return { columns: [], data: [] };
+// An array of records, an object holding one (as APIs wrap results in "data" or "items"), or a single record
+export const parseJSONRecords = (json: any): { columns: ColumnDef[], data: any[] } => {
+  if (Array.isArray(json)) return recordTable(json);
+  if (json === null || typeof json !== 'object') throw new Error("Expected a JSON array of objects or an object.");
+  const list = Object.values(json).find(v => Array.isArray(v) && v.some(item => item !== null && typeof item === 'object'));
+  return recordTable(list ? (list as any[]) : [json]);
+};
 
-  const rawColumns = lines[0].split(',').map(c => c.trim().replace(/^"|"$/g, ''));
-  const rawData = lines.slice(1).map(line => line.split(',').map(v => v.trim().replace(/^"|"$/g, '')));
-  
-  const sampleRow = rawData.find(r => r.length === rawColumns.length) || rawData[0] || [];
-  
-  const columns: ColumnDef[] = rawColumns.map((name, idx) => ({
-    name,
-    type: inferType(sampleRow[idx] || '')
-  }));
-
-  const data = rawData.map((values, idx) => {
-    const row: any = { id: `row-${idx}` };
-    columns.forEach((col, i) => {
-      row[col.name] = values[i] || null;
+// Newline-delimited JSON: one record per line
+export const parseNDJSON = (content: string): { columns: ColumnDef[], data: any[] } => {
+  const items: any[] = [];
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, idx) => {
+    if (!line.trim()) return;
+    try {
+      items.push(JSON.parse(line));
+    } catch (e: any) {
+      throw new Error(`Invalid JSON on line ${idx + 1}: ${e.message}`);
+    }
+  });
+  return recordTable(items);
+};
+
+// --- Parquet and Arrow ---
+
+// Both formats carry a schema, so column types come from the file rather than from the values
+const columnarRows = ({ columns, records, crs }: ColumnarTable): SpatialTable => ({
+  columns,
+  data: records.map((record, idx) => ({ ...record, _rowId: `row-${idx}` })),
+  crs: columns.some(c => c.type === 'geometry') ? crs : undefined,
+});
+
+export const parseParquet = async (file: File): Promise<SpatialTable> => columnarRows(await readParquet(await file.arrayBuffer()));
+
+export const parseArrow = async (file: File): Promise<SpatialTable> => columnarRows(await readArrow(await file.arrayBuffer()));
+
+// --- Spatial Files ---
+
+export interface SpatialLayer {
+  name: string; // Shapefile path inside the ZIP without the .shp extension, or GeoPackage table name
+  crs?: CoordinateSystem; // From the shapefile's .prj or the GeoPackage spatial reference table
+}
+
+export interface SpatialTable {
+  columns: ColumnDef[];
+  data: any[];
+  crs?: CoordinateSystem;
+}
+
+interface Feature {
+  layer?: string;
+  properties: Record<string, any> | null;
+  geometry: string | null; // Cell value for the "geometry" column
+}
+
+/**
+ * One row per feature with a column per property seen in any feature, then "geometry".
+ * A "layer" column comes first when features from several layers are combined.
+ */
+const featureTable = (features: Feature[], idPrefix: string, multiLayer = false): { columns: ColumnDef[], data: any[] } => {
+  if (features.length === 0) return { columns: [], data: [] };
+  const headers: string[] = [];
+  const data = features.map((f, idx) => {
+    const row: any = multiLayer ? { layer: f.layer } : {};
+    Object.entries(f.properties ?? {}).forEach(([h, value]) => {
+      if (multiLayer && h === 'layer') return;
+      if (!headers.includes(h)) headers.push(h);
+      row[h] = value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
     });
+    row.geometry = f.geometry;
+    row._rowId = `${idPrefix}-${idx}`;
     return row;
   });
 
+  const columns: ColumnDef[] = [
+    ...(multiLayer ? [{ name: 'layer', type: 'text' as DataType }] : []),
+    ...inferColumns(headers.filter(h => h !== 'geometry'), data),
+    { name: 'geometry', type: 'geometry' }
+  ];
   return { columns, data };
 };
 
-export const parseExcel = async (file: File): Promise<{ columns: ColumnDef[], data: any[] }> => {
-  const arrayBuffer = await file.arrayBuffer();
-  const workbook = XLSX.read(arrayBuffer);
-  const sheetName = workbook.SheetNames[0];
-  const worksheet = workbook.Sheets[sheetName];
-  
-  // Get raw JSON
-  const rawData: any[] = XLSX.utils.sheet_to_json(worksheet);
-  if (rawData.length === 0) return { columns: [], data: [] };
+// Several layers can only share a table when their coordinates mean the same thing
+const assertSameCrs = (layers: SpatialLayer[], hint: string) => {
+  const crsList = layers.map(l => l.crs);
+  if (crsList.some(c => c && crsList.some(d => !d || !sameCrs(c, d)))) {
+    throw new Error(`The selected layers use different coordinate systems. ${hint}`);
+  }
+};
 
-  const headers = Object.keys(rawData[0]);
-  const columns: ColumnDef[] = headers.map(h => ({
-    name: h,
-    type: inferType(String(rawData[0][h]))
-  }));
+// --- Shapefiles ---
 
-  const data = rawData.map((row, idx) => ({
-    ...row,
-    id: `xlsx-${idx}`
-  }));
+export interface ShapefileLayer extends SpatialLayer {
+  encoding?: string; // From the layer's .cpg
+}
 
-  return { columns, data };
+export interface ShapefileOptions {
+  layers?: string[]; // Defaults to every layer
+  reproject?: boolean; // Convert coordinates to WGS84 longitude/latitude using the .prj
+}
+
+// Shapefile members keyed by lower-case path, so "Roads.SHP" and "roads.dbf" pair up
+const openShapefileZip = async (file: File): Promise<Map<string, JSZip.JSZipObject>> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const members = new Map<string, JSZip.JSZipObject>();
+  zip.forEach((path, entry) => {
+    if (!entry.dir && !path.includes('__MACOSX')) members.set(path.toLowerCase(), entry);
+  });
+  return members;
 };
 
-export const parseShapefile = async (file: File): Promise<{ columns: ColumnDef[], data: any[] }> => {
-  const arrayBuffer = await file.arrayBuffer();
+const readLayers = async (members: Map<string, JSZip.JSZipObject>): Promise<ShapefileLayer[]> => {
+  const layers: ShapefileLayer[] = [];
+  for (const [path, entry] of members) {
+    if (!path.endsWith('.shp')) continue;
+    const base = path.slice(0, -4);
+    const prj = await members.get(`${base}.prj`)?.async('string');
+    const cpg = await members.get(`${base}.cpg`)?.async('string');
+    layers.push({
+      name: entry.name.slice(0, -4),
+      crs: prj ? parsePrj(prj) ?? undefined : undefined,
+      encoding: cpg?.trim() || undefined,
+    });
+  }
+  return layers.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const listShapefileLayers = async (file: File): Promise<ShapefileLayer[]> => {
   try {
-    const geojson: any = await shp(arrayBuffer);
-    // shpjs can return an array if zip has multiple shapefiles, or object if single
-    const features = Array.isArray(geojson) ? geojson[0].features : geojson.features;
-    
-    if (!features || features.length === 0) return { columns: [], data: [] };
+    return await readLayers(await openShapefileZip(file));
+  } catch (e) {
+    console.error("SHP Parse Error", e);
+    throw new Error("Failed to read the ZIP file.");
+  }
+};
 
-    // Extract properties + add WKT geometry column
-    const firstProps = features[0].properties;
-    const headers = Object.keys(firstProps);
-    
-    const columns: ColumnDef[] = [
-      ...headers.map(h => ({ name: h, type: inferType(String(firstProps[h])) as DataType })),
-      { name: 'geometry', type: 'geometry' }
-    ];
-
-    const data = features.map((f: any, idx: number) => ({
-      ...f.properties,
-      geometry: JSON.stringify(f.geometry), // Simple string representation for now
-      id: `shp-${idx}`
-    }));
-
-    return { columns, data };
+/**
+ * Loads the chosen layers into one table, adding a "layer" column when there is more
+ * than one. Layers in different coordinate systems can only be combined when reprojected.
+ */
+export const parseShapefile = async (file: File, options: ShapefileOptions = {}): Promise<SpatialTable> => {
+  const members = await openShapefileZip(file);
+  const available = await readLayers(members);
+  const chosen = options.layers ? available.filter(l => options.layers!.includes(l.name)) : available;
+  if (chosen.length === 0) {
+    throw new Error(available.length === 0 ? "No .shp file found in the ZIP." : "No layer selected.");
+  }
+
+  // Layers without a .prj are left as they are, so the result is only WGS84 when every layer could be converted
+  const reproject = !!options.reproject && chosen.every(l => l.crs);
+  if (!reproject) assertSameCrs(chosen, "Reproject them to WGS84 or load them one at a time.");
+  const crs = reproject ? WGS84 : chosen[0].crs;
+
+  const features: Feature[] = [];
+  const unconverted: ShapefileLayer[] = [];
+
+  try {
+    for (const layer of chosen) {
+      const base = layer.name.toLowerCase();
+      const shpBuffer = await members.get(`${base}.shp`)!.async('arraybuffer');
+      const dbfBuffer = await members.get(`${base}.dbf`)?.async('arraybuffer');
+      const geometries = shp.parseShp(shpBuffer, reproject ? layer.crs!.wkt : undefined);
+      // shpjs silently keeps the original coordinates when it cannot read the .prj
+      const sample = geometries.length > 0 ? parseGeometry(JSON.stringify(geometries[0])) : null;
+      if (reproject && !layer.crs!.geographic && sample && !isGeographic(sample.bbox)) unconverted.push(layer);
+      // parsedbf takes the .cpg text as the encoding name; the typings ask for a buffer
+      const properties = dbfBuffer ? shp.parseDbf(dbfBuffer, layer.encoding as unknown as ArrayBuffer) : [];
+
+      geometries.forEach((geometry, idx) => {
+        features.push({ layer: layer.name, properties: properties[idx], geometry: JSON.stringify(geometry) });
+      });
+    }
   } catch (e) {
     console.error("SHP Parse Error", e);
     throw new Error("Failed to parse shapefile. Ensure it is a valid .zip containing .shp, .dbf, and .shx.");
   }
+
+  if (unconverted.length > 0) {
+    throw new Error(`Cannot reproject ${unconverted.map(l => `"${l.name}" from ${describeCrs(l.crs!)}`).join(', ')} to WGS84.`);
+  }
+  return { ...featureTable(features, 'shp', chosen.length > 1), crs };
+};
+
+// --- GeoJSON ---
+
+// RFC 7946 GeoJSON is always WGS84; files from older tools may name another CRS, which is then left unknown
+const geoJSONCrs = (json: any): CoordinateSystem | undefined => {
+  const name: string | undefined = json.crs?.properties?.name;
+  if (!name || /CRS:?84$/i.test(name) || /EPSG:+4326$/i.test(name)) return WGS84;
+  return undefined;
+};
+
+const GEOJSON_TYPES = ['FeatureCollection', 'Feature', 'Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon', 'GeometryCollection'];
+
+// Tells GeoJSON saved as .json apart from other JSON
+export const isGeoJSON = (json: any): boolean => GEOJSON_TYPES.includes(json?.type);
+
+export const geoJSONTable = (json: any): SpatialTable => {
+  const features: any[] | null =
+    json?.type === 'FeatureCollection' ? json.features
+    : json?.type === 'Feature' ? [json]
+    : typeof json?.type === 'string' ? [{ properties: {}, geometry: json }]
+    : null;
+  if (!Array.isArray(features)) throw new Error("Expected a GeoJSON FeatureCollection, Feature or geometry.");
+
+  return {
+    ...featureTable(features.map(f => ({ properties: f.properties, geometry: f.geometry ? JSON.stringify(f.geometry) : null })), 'geojson'),
+    crs: geoJSONCrs(json),
+  };
+};
+
+export const parseGeoJSON = (content: string): SpatialTable => {
+  let json: any;
+  try {
+    json = JSON.parse(content);
+  } catch (e: any) {
+    throw new Error(`Invalid GeoJSON: ${e.message}`);
+  }
+  return geoJSONTable(json);
+};
+
+// --- GeoPackage ---
+
+interface GeoPackageLayer extends SpatialLayer {
+  geometryColumn: string;
+}
+
+const readGeoPackageLayers = (db: SqliteDatabase): GeoPackageLayer[] => {
+  const srs = new Map(db.rows('gpkg_spatial_ref_sys').map(r => [Number(r.srs_id), r]));
+  const srsCrs = (srsId: number): CoordinateSystem | undefined => {
+    if (srsId === 4326) return WGS84;
+    const ref = srs.get(srsId);
+    if (!ref || srsId <= 0) return undefined; // -1 and 0 are the undefined Cartesian and geographic systems
+    const crs = typeof ref.definition === 'string' ? parsePrj(ref.definition) : null;
+    if (!crs) return undefined;
+    const epsg = String(ref.organization).toUpperCase() === 'EPSG' ? Number(ref.organization_coordsys_id) : undefined;
+    return { ...crs, name: String(ref.srs_name ?? crs.name), epsg: crs.epsg ?? epsg };
+  };
+
+  return db.rows('gpkg_geometry_columns')
+    .map(r => ({ name: String(r.table_name), geometryColumn: String(r.column_name), crs: srsCrs(Number(r.srs_id)) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const openGeoPackage = async (file: File): Promise<SqliteDatabase> => {
+  try {
+    const db = openSqlite(await file.arrayBuffer());
+    if (!db.tables.some(t => t.name === 'gpkg_geometry_columns')) throw new Error("No gpkg_geometry_columns table.");
+    return db;
+  } catch (e: any) {
+    console.error("GPKG Parse Error", e);
+    throw new Error(`Failed to read GeoPackage: ${e.message}`);
+  }
+};
+
+export const listGeoPackageLayers = async (file: File): Promise<SpatialLayer[]> =>
+  readGeoPackageLayers(await openGeoPackage(file)).map(({ name, crs }) => ({ name, crs }));
+
+// Feature tables are read as they are; GeoPackage geometries are converted to GeoJSON
+export const parseGeoPackage = async (file: File, options: { layers?: string[] } = {}): Promise<SpatialTable> => {
+  const db = await openGeoPackage(file);
+  const available = readGeoPackageLayers(db);
+  const chosen = options.layers ? available.filter(l => options.layers!.includes(l.name)) : available;
+  if (chosen.length === 0) {
+    throw new Error(available.length === 0 ? "No feature tables found in the GeoPackage." : "No layer selected.");
+  }
+  assertSameCrs(chosen, "Load them one at a time.");
+
+  const features: Feature[] = [];
+  for (const layer of chosen) {
+    db.rows(layer.name).forEach(record => {
+      const properties: Record<string, any> = {};
+      Object.entries(record).forEach(([column, value]) => {
+        if (column !== layer.geometryColumn && !(value instanceof Uint8Array)) properties[column] = value;
+      });
+      const blob = record[layer.geometryColumn];
+      const shape = blob instanceof Uint8Array ? parseGeoPackageGeometry(blob) : null;
+      features.push({ layer: layer.name, properties, geometry: shape ? JSON.stringify(shapeToGeoJSON(shape)) : null });
+    });
+  }
+
+  return { ...featureTable(features, 'gpkg', chosen.length > 1), crs: chosen[0].crs };
+};
+
+// --- KML ---
+
+const KML_GEOMETRIES = ['Point', 'LineString', 'LinearRing', 'Polygon', 'MultiGeometry'];
+
+const childElements = (el: Element, name: string): Element[] => Array.from(el.children).filter(c => c.localName === name);
+
+// "lon,lat[,alt] lon,lat[,alt] ..."
+const kmlCoordinates = (el: Element | undefined): number[][] =>
+  (el?.getElementsByTagName('coordinates')[0]?.textContent ?? '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => tuple.split(',').slice(0, 2).map(Number));
+
+const kmlGeometry = (el: Element): GeoJSONGeometry | null => {
+  switch (el.localName) {
+    case 'Point': {
+      const [position] = kmlCoordinates(el);
+      return position ? { type: 'Point', coordinates: position } : null;
+    }
+    case 'LineString':
+    case 'LinearRing':
+      return { type: 'LineString', coordinates: kmlCoordinates(el) };
+    case 'Polygon': {
+      const outer = childElements(el, 'outerBoundaryIs').map(b => kmlCoordinates(b));
+      const inner = childElements(el, 'innerBoundaryIs').flatMap(b => childElements(b, 'LinearRing').map(r => kmlCoordinates(r)));
+      return outer.length > 0 ? { type: 'Polygon', coordinates: [...outer, ...inner] } : null;
+    }
+    case 'MultiGeometry': {
+      const geometries = Array.from(el.children).map(kmlGeometry).filter((g): g is GeoJSONGeometry => g !== null);
+      return geometries.length > 0 ? { type: 'GeometryCollection', geometries } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const readKMLText = async (file: File): Promise<string> => {
+  if (!file.name.toLowerCase().endsWith('.kmz')) return file.text();
+  // A KMZ is a ZIP whose main document is doc.kml, or failing that the first .kml in it
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const entries = zip.file(/\.kml$/i).sort((a, b) => Number(b.name.endsWith('doc.kml')) - Number(a.name.endsWith('doc.kml')));
+  if (entries.length === 0) throw new Error("No .kml document found in the KMZ.");
+  return entries[0].async('string');
+};
+
+// Placemarks with their name, description and ExtendedData fields; KML coordinates are always WGS84
+export const parseKML = async (file: File): Promise<SpatialTable> => {
+  const doc = new DOMParser().parseFromString(await readKMLText(file), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error("Invalid KML: the document is not well-formed XML.");
+
+  const features: Feature[] = Array.from(doc.getElementsByTagName('Placemark')).map(placemark => {
+    const properties: Record<string, any> = {};
+    ['name', 'description'].forEach(tag => {
+      const el = childElements(placemark, tag)[0];
+      if (el) properties[tag] = el.textContent?.trim() ?? '';
+    });
+    Array.from(placemark.getElementsByTagName('Data')).forEach(data => {
+      const name = data.getAttribute('name');
+      if (name) properties[name] = data.getElementsByTagName('value')[0]?.textContent ?? null;
+    });
+    Array.from(placemark.getElementsByTagName('SimpleData')).forEach(data => {
+      const name = data.getAttribute('name');
+      if (name) properties[name] = data.textContent;
+    });
+
+    const geometryEl = Array.from(placemark.children).find(c => KML_GEOMETRIES.includes(c.localName));
+    const geometry = geometryEl ? kmlGeometry(geometryEl) : null;
+    return { properties, geometry: geometry ? JSON.stringify(geometry) : null };
+  });
+
+  return { ...featureTable(features, 'kml'), crs: WGS84 };
+};
+
+// --- Formatting ---
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
 };
 
 // --- Export Utils ---
@@ -212,6 +807,30 @@ export const exportToJSON = (data: any[], filename: string) => {
     document.body.removeChild(a);
 };
 
+/**
+ * FeatureCollection with one feature per row; `geometries[i]` is the geometry cell for `data[i]`.
+ * Data that is not WGS84 is tagged with the pre-RFC 7946 "crs" member, which GDAL and QGIS still read.
+ */
+export const exportToGeoJSON = (data: any[], columns: string[], geometries: CellValue[], filename: string, crs?: CoordinateSystem) => {
+    const collection = {
+        type: 'FeatureCollection',
+        ...(crs && !isWGS84(crs) && crs.epsg ? { crs: { type: 'name', properties: { name: `urn:ogc:def:crs:EPSG::${crs.epsg}` } } } : {}),
+        features: data.map((row, i) => ({
+            type: 'Feature',
+            properties: Object.fromEntries(columns.map(col => [col, row[col] ?? null])),
+            geometry: toGeoJSONGeometry(geometries[i]),
+        })),
+    };
+    const blob = new Blob([JSON.stringify(collection)], { type: 'application/geo+json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+};
+
 
 // --- Mocks ---
 // Removed simplified mocks as requested. Only generic fallbacks remain.
@@ -227,8 +846,8 @@ export const generateMockData = (type: string, schema?: string, table?: string):
       { name: 'Date', type: 'date' as DataType }
   ];
   const data = [
-      { id: '1', 'ID': '001', 'Sample Name': 'Test Row 1', 'Date': '2023-01-01' },
-      { id: '2', 'ID': '002', 'Sample Name': 'Test Row 2', 'Date': '2023-01-02' },
+      { _rowId: '1', 'ID': '001', 'Sample Name': 'Test Row 1', 'Date': '2023-01-01' },
+      { _rowId: '2', 'ID': '002', 'Sample Name': 'Test Row 2', 'Date': '2023-01-02' },
   ];
 
   return { 
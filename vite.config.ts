@@ -10,6 +10,10 @@ export default defineConfig({
       buffer: './buffer-shim.ts',
     },
   },
+  worker: {
+    // The join engine runs in a module worker (see joinService.ts)
+    format: 'es',
+  },
   build: {
     target: 'esnext',
     rollupOptions: {
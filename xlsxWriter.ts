@@ -0,0 +1,185 @@
+import JSZip from 'jszip';
+
+/**
+ * Minimal .xlsx writer with cell fills, bold headers and typed cells. The community build
+ * of SheetJS cannot write styles, so the OOXML package is assembled directly: one styles
+ * part, one worksheet part per sheet, and inline strings instead of a shared string table.
+ */
+
+export type XlsxCellValue = string | number | boolean | null | undefined;
+
+export interface XlsxCell {
+  value: XlsxCellValue;
+  date?: boolean; // `value` is an Excel serial date; shown with a date format
+  fill?: string; // RGB hex such as "C6EFCE"
+  bold?: boolean;
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: Array<Array<XlsxCell | XlsxCellValue>>;
+  columnWidths?: number[]; // In characters
+  freezeHeader?: boolean; // Keeps the first row visible while scrolling
+}
+
+const MAX_SHEET_NAME = 31;
+const MAX_CELL_TEXT = 32767; // Excel's limit per cell
+const DATE_FORMAT_ID = 164; // First id available for custom formats
+const DATETIME_FORMAT_ID = 165;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnLetter = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+// Excel forbids []:*?/\ in sheet names and needs them unique, case-insensitively
+const sheetNames = (sheets: XlsxSheet[]): string[] => {
+  const used = new Set<string>();
+  return sheets.map(sheet => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME) || 'Sheet';
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, MAX_SHEET_NAME - String(n).length - 1)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+// --- Styles ---
+
+// Cell formats are created on demand; index 0 is the default format Excel requires
+const styleRegistry = () => {
+  const fills = ['none', 'gray125'];
+  const formats = [{ fill: 0, bold: false, numFmt: 0 }];
+  const keys = new Map<string, number>([['0|false|0', 0]]);
+
+  const styleOf = (cell: XlsxCell): number => {
+    let fill = 0;
+    if (cell.fill) {
+      const rgb = cell.fill.toUpperCase();
+      fill = fills.indexOf(rgb);
+      if (fill < 0) fill = fills.push(rgb) - 1;
+    }
+    const fraction = typeof cell.value === 'number' && cell.value % 1 !== 0;
+    const numFmt = cell.date ? (fraction ? DATETIME_FORMAT_ID : DATE_FORMAT_ID) : 0;
+    const bold = !!cell.bold;
+    const key = `${fill}|${bold}|${numFmt}`;
+    if (!keys.has(key)) keys.set(key, formats.push({ fill, bold, numFmt }) - 1);
+    return keys.get(key)!;
+  };
+
+  const xml = () => [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    `<numFmts count="2"><numFmt numFmtId="${DATE_FORMAT_ID}" formatCode="yyyy-mm-dd"/><numFmt numFmtId="${DATETIME_FORMAT_ID}" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>`,
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+    `<fills count="${fills.length}">`,
+    ...fills.map(f => (f === 'none' || f === 'gray125'
+      ? `<fill><patternFill patternType="${f}"/></fill>`
+      : `<fill><patternFill patternType="solid"><fgColor rgb="FF${f}"/><bgColor indexed="64"/></patternFill></fill>`)),
+    '</fills>',
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+    `<cellXfs count="${formats.length}">`,
+    ...formats.map(f => `<xf numFmtId="${f.numFmt}" fontId="${f.bold ? 1 : 0}" fillId="${f.fill}" borderId="0" xfId="0"${f.numFmt ? ' applyNumberFormat="1"' : ''}${f.bold ? ' applyFont="1"' : ''}${f.fill ? ' applyFill="1"' : ''}/>`),
+    '</cellXfs>',
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+    '</styleSheet>',
+  ].join('');
+
+  return { styleOf, xml };
+};
+
+// --- Sheets ---
+
+const cellXml = (ref: string, cell: XlsxCell, style: number): string => {
+  const s = style ? ` s="${style}"` : '';
+  const { value } = cell;
+  if (value === null || value === undefined || value === '') return style ? `<c r="${ref}"${s}/>` : '';
+  if (typeof value === 'number') return Number.isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : `<c r="${ref}"${s}/>`;
+  if (typeof value === 'boolean') return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value.slice(0, MAX_CELL_TEXT))}</t></is></c>`;
+};
+
+const sheetXml = (sheet: XlsxSheet, styleOf: (cell: XlsxCell) => number): string => {
+  const rows = sheet.rows.map((row, r) => {
+    const cells = row.map((raw, c) => {
+      const cell: XlsxCell = raw !== null && typeof raw === 'object' ? raw : { value: raw };
+      return cellXml(`${columnLetter(c)}${r + 1}`, cell, styleOf(cell));
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  const pane = sheet.freezeHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    pane,
+    cols,
+    `<sheetData>${rows.join('')}</sheetData>`,
+    '</worksheet>',
+  ].join('');
+};
+
+// --- Package ---
+
+export const buildXlsx = async (sheets: XlsxSheet[]): Promise<Blob> => {
+  const names = sheetNames(sheets);
+  const styles = styleRegistry();
+  const zip = new JSZip();
+
+  // Sheets first: writing them registers the styles the styles part has to list
+  sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet, styles.styleOf)));
+  zip.file('xl/styles.xml', styles.xml());
+
+  zip.file('[Content_Types].xml', [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+    ...sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`),
+    '</Types>',
+  ].join(''));
+
+  zip.file('_rels/.rels', [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+    '</Relationships>',
+  ].join(''));
+
+  zip.file('xl/workbook.xml', [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    `<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>`,
+    '</workbook>',
+  ].join(''));
+
+  zip.file('xl/_rels/workbook.xml.rels', [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    ...sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`),
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+    '</Relationships>',
+  ].join(''));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};